@@ -0,0 +1,29 @@
+import { BoardAction } from "@/lib/boardReducer";
+import { findBoardActionError } from "@/lib/boardActionValidation";
+import {
+  BoardRequestError,
+  applyBoardAction,
+  errorResponse,
+  readExpectedVersion,
+  readJsonBody,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string }> };
+
+// Applies any reducer action (moves, resizes, quadrant drops) to the stored board. Clients pass
+// their `clientId` so they can recognise their own actions on the event stream.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const body = await readJsonBody(request);
+    const actionError = findBoardActionError(body.action);
+    if (actionError) {
+      throw new BoardRequestError(`"action" must be a board action: ${actionError}`);
+    }
+    const action = body.action as BoardAction;
+    const clientId = typeof body.clientId === "string" ? body.clientId : undefined;
+    return Response.json(await applyBoardAction(boardId, action, readExpectedVersion(request, body), clientId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
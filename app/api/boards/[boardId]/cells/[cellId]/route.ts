@@ -0,0 +1,49 @@
+import { createId } from "@/lib/boardUtils";
+import {
+  applyBoardAction,
+  errorResponse,
+  findCell,
+  readExpectedVersion,
+  readJsonBody,
+  requireString,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string; cellId: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, cellId } = await params;
+    const body = await readJsonBody(request);
+    const title = requireString(body, "title");
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({ type: "UPDATE_CELL_TITLE", cellId: findCell(board, cellId).cell.id, title }),
+        readExpectedVersion(request, body),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, cellId } = await params;
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({
+          type: "DELETE_CELL",
+          columnId: findCell(board, cellId).column.id,
+          cellId,
+          trashId: createId(),
+          now: new Date().toISOString(),
+        }),
+        readExpectedVersion(request, {}),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { createId } from "@/lib/boardUtils";
+import {
+  applyBoardAction,
+  errorResponse,
+  findCell,
+  readExpectedVersion,
+  readJsonBody,
+  requireString,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string; cellId: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, cellId } = await params;
+    const body = await readJsonBody(request);
+    const title = requireString(body, "title");
+    const record = await applyBoardAction(
+      boardId,
+      (board) => ({
+        type: "ADD_TASK",
+        cellId: findCell(board, cellId).cell.id,
+        taskId: createId(),
+        title,
+        now: new Date().toISOString(),
+      }),
+      readExpectedVersion(request, body),
+    );
+    return Response.json(record, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
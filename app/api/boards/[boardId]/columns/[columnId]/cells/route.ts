@@ -0,0 +1,30 @@
+import { createId } from "@/lib/boardUtils";
+import {
+  applyBoardAction,
+  errorResponse,
+  findColumn,
+  readExpectedVersion,
+  readJsonBody,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string; columnId: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, columnId } = await params;
+    const body = await readJsonBody(request);
+    const record = await applyBoardAction(
+      boardId,
+      (board) => ({
+        type: "ADD_CELL",
+        columnId: findColumn(board, columnId).id,
+        cellId: createId(),
+        title: typeof body.title === "string" ? body.title : undefined,
+      }),
+      readExpectedVersion(request, body),
+    );
+    return Response.json(record, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
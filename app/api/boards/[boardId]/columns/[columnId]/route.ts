@@ -0,0 +1,48 @@
+import { createId } from "@/lib/boardUtils";
+import {
+  applyBoardAction,
+  errorResponse,
+  findColumn,
+  readExpectedVersion,
+  readJsonBody,
+  requireString,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string; columnId: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, columnId } = await params;
+    const body = await readJsonBody(request);
+    const title = requireString(body, "title");
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({ type: "UPDATE_COLUMN_TITLE", columnId: findColumn(board, columnId).id, title }),
+        readExpectedVersion(request, body),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, columnId } = await params;
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({
+          type: "DELETE_COLUMN",
+          columnId: findColumn(board, columnId).id,
+          trashId: createId(),
+          now: new Date().toISOString(),
+        }),
+        readExpectedVersion(request, {}),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { createId } from "@/lib/boardUtils";
+import { applyBoardAction, errorResponse, readExpectedVersion, readJsonBody } from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const body = await readJsonBody(request);
+    const record = await applyBoardAction(
+      boardId,
+      {
+        type: "ADD_COLUMN",
+        columnId: createId(),
+        cellId: createId(),
+        title: typeof body.title === "string" ? body.title : undefined,
+      },
+      readExpectedVersion(request, body),
+    );
+    return Response.json(record, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
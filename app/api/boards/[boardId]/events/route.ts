@@ -0,0 +1,63 @@
+import { BoardEvent } from "@/lib/boardSync";
+import { getBoardStore } from "@/lib/server/getBoardStore";
+import { getBoardHub } from "@/lib/server/boardHub";
+import { errorResponse, readBoardPeer } from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string }> };
+
+const KEEP_ALIVE_MS = 25_000;
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events for one board: applied actions, replacements, renames and presence.
+// The viewer is described by `clientId`, `name` and `color` query parameters.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const peer = readBoardPeer(Object.fromEntries(new URL(request.url).searchParams));
+    await getBoardStore().getBoard(boardId);
+
+    const encoder = new TextEncoder();
+    let stop: (() => void) | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            stop?.();
+          }
+        };
+        const unsubscribe = getBoardHub().subscribe(boardId, peer, (event: BoardEvent) => {
+          write(`data: ${JSON.stringify(event)}\n\n`);
+        });
+        const keepAlive = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+
+        stop = () => {
+          stop = null;
+          clearInterval(keepAlive);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client.
+          }
+        };
+        request.signal.addEventListener("abort", () => stop?.());
+      },
+      cancel() {
+        stop?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { getBoardHub } from "@/lib/server/boardHub";
+import { BoardRequestError, errorResponse, readBoardPeer, readJsonBody } from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string }> };
+
+// Updates what a connected viewer is doing (e.g. dragging a card) for everyone else on the board.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const peer = readBoardPeer(await readJsonBody(request));
+    if (!getBoardHub().updatePeer(boardId, peer)) {
+      throw new BoardRequestError("Open the board's event stream before sending presence.");
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
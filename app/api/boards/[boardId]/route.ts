@@ -0,0 +1,76 @@
+import { BoardState } from "@/types/board";
+import { findBoardStateError } from "@/lib/boardActionValidation";
+import { getTrashPurgeCutoff } from "@/lib/boardTrash";
+import { getBoardStore } from "@/lib/server/getBoardStore";
+import { getBoardHub } from "@/lib/server/boardHub";
+import {
+  BoardRequestError,
+  applyBoardAction,
+  errorResponse,
+  readExpectedVersion,
+  readJsonBody,
+  requireString,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    // Trash older than the retention period is dropped whenever the board is opened. Doing it here
+    // rather than in the browser keeps it out of undo history and sends it to every viewer once.
+    const before = getTrashPurgeCutoff(Date.now());
+    return Response.json(await applyBoardAction(boardId, { type: "PURGE_EXPIRED_TRASH", before }));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Replaces the whole board. A stale version is rejected with 409 and the current record.
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const body = await readJsonBody(request);
+    const boardError = findBoardStateError(body.board);
+    if (boardError) {
+      throw new BoardRequestError(`"board" is not a valid board: ${boardError}`);
+    }
+    const board = body.board as BoardState;
+    const expectedVersion = readExpectedVersion(request, body);
+    if (expectedVersion === undefined) {
+      throw new BoardRequestError("Replacing a board requires the version it was based on.");
+    }
+    const record = await getBoardStore().updateBoard(boardId, () => board, expectedVersion);
+    const clientId = typeof body.clientId === "string" ? body.clientId : undefined;
+    getBoardHub().publish(boardId, { type: "replace", record, clientId });
+    return Response.json(record);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    const name = requireString(await readJsonBody(request), "name").trim();
+    if (!name) {
+      throw new BoardRequestError('"name" must not be empty.');
+    }
+    const record = await getBoardStore().renameBoard(boardId, name);
+    getBoardHub().publish(boardId, { type: "rename", name: record.meta.name });
+    return Response.json(record);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { boardId } = await params;
+    await getBoardStore().deleteBoard(boardId);
+    getBoardHub().publish(boardId, { type: "delete" });
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
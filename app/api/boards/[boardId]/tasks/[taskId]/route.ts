@@ -0,0 +1,64 @@
+import { createId } from "@/lib/boardUtils";
+import { isRecord } from "@/lib/boardStorage";
+import { findInvalidTaskFields, pickTaskChanges } from "@/lib/taskUtils";
+import {
+  BoardRequestError,
+  applyBoardAction,
+  errorResponse,
+  findTask,
+  readExpectedVersion,
+  readJsonBody,
+} from "@/lib/server/routeUtils";
+
+type RouteContext = { params: Promise<{ boardId: string; taskId: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, taskId } = await params;
+    const body = await readJsonBody(request);
+    if (!isRecord(body.changes)) {
+      throw new BoardRequestError('"changes" must be an object of task fields.');
+    }
+    const changes = pickTaskChanges(body.changes);
+    const [invalidField] = findInvalidTaskFields(changes);
+    if (invalidField) {
+      throw new BoardRequestError(`"changes.${invalidField}" has the wrong type.`);
+    }
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({
+          type: "UPDATE_TASK",
+          cellId: findTask(board, taskId).cellId,
+          taskId,
+          changes,
+          now: new Date().toISOString(),
+        }),
+        readExpectedVersion(request, body),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { boardId, taskId } = await params;
+    return Response.json(
+      await applyBoardAction(
+        boardId,
+        (board) => ({
+          type: "REMOVE_TASK",
+          cellId: findTask(board, taskId).cellId,
+          taskId,
+          trashId: createId(),
+          now: new Date().toISOString(),
+        }),
+        readExpectedVersion(request, {}),
+      ),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { BoardMeta, BoardState } from "@/types/board";
+import { findBoardStateError } from "@/lib/boardActionValidation";
+import { createId } from "@/lib/boardUtils";
+import { DEFAULT_BOARD_NAME } from "@/lib/boardLibrary";
+import { createBlankBoard } from "@/lib/boardTemplates";
+import { getBoardStore } from "@/lib/server/getBoardStore";
+import { BoardRequestError, errorResponse, readJsonBody } from "@/lib/server/routeUtils";
+
+export async function GET() {
+  try {
+    return Response.json({ boards: await getBoardStore().listBoards() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const boardError = body.board === undefined ? null : findBoardStateError(body.board);
+    if (boardError) {
+      throw new BoardRequestError(`"board" is not a valid board: ${boardError}`);
+    }
+    const board = body.board === undefined ? createBlankBoard() : (body.board as BoardState);
+    const meta: BoardMeta = {
+      id: createId(),
+      name: (typeof body.name === "string" && body.name.trim()) || DEFAULT_BOARD_NAME,
+      createdAt: new Date().toISOString(),
+    };
+    const record = await getBoardStore().createBoard(meta, board);
+    return Response.json(record, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
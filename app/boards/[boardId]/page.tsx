@@ -0,0 +1,6 @@
+import BoardScreen from "@/components/board/BoardScreen";
+
+export default async function BoardPage({ params }: { params: Promise<{ boardId: string }> }) {
+  const { boardId } = await params;
+  return <BoardScreen boardId={boardId} />;
+}
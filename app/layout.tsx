@@ -1,21 +1,41 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import { Providers } from "./providers";
+import { getMessages } from "@/lib/i18n";
+import { SYSTEM_THEME_SCRIPT } from "@/lib/theme";
+import { getRequestLocale } from "@/lib/server/requestLocale";
+import { getRequestThemePreference } from "@/lib/server/requestTheme";
 
-export const metadata: Metadata = {
-  title: "Advanced Kanban",
-  description: "쿼드런트 드롭과 리사이즈가 가능한 고급 칸반 보드",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const t = getMessages(await getRequestLocale());
+  return {
+    title: "Advanced Kanban",
+    description: t.app.description,
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const [locale, themePreference] = await Promise.all([getRequestLocale(), getRequestThemePreference()]);
+  const colorMode = themePreference === "system" ? undefined : themePreference;
   return (
-    <html lang="en">
+    // The theme script and the theme switcher change the class after the server renders it.
+    <html
+      lang={locale}
+      className={colorMode}
+      style={colorMode && { colorScheme: colorMode }}
+      suppressHydrationWarning
+    >
+      <head>
+        {themePreference === "system" && <script dangerouslySetInnerHTML={{ __html: SYSTEM_THEME_SCRIPT }} />}
+      </head>
       <body>
-        <Providers>{children}</Providers>
+        <Providers locale={locale} themePreference={themePreference}>
+          {children}
+        </Providers>
       </body>
     </html>
   );
@@ -1,7 +1,7 @@
 "use client";
 
-import Board from "@/components/board/Board";
+import BoardList from "@/components/board/BoardList";
 
 export default function Page() {
-  return <Board />;
+  return <BoardList />;
 }
@@ -1,8 +1,54 @@
 "use client";
 
 import { ChakraProvider, defaultSystem } from "@chakra-ui/react";
-import { ReactNode } from "react";
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { I18nContext } from "@/hooks/useI18n";
+import { ThemeContext } from "@/hooks/useTheme";
+import { Locale, getMessages, storeLocale } from "@/lib/i18n";
+import { DARK_MODE_QUERY, ThemePreference, applyColorMode, storeThemePreference } from "@/lib/theme";
 
-export function Providers({ children }: { children: ReactNode }) {
-  return <ChakraProvider value={defaultSystem}>{children}</ChakraProvider>;
+type ProvidersProps = {
+  // The locale and theme the server rendered the page in.
+  locale: Locale;
+  themePreference: ThemePreference;
+  children: ReactNode;
+};
+
+export function Providers({ locale: initialLocale, themePreference, children }: ProvidersProps) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const [preference, setPreferenceState] = useState(themePreference);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  }, []);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    storeThemePreference(next);
+    setPreferenceState(next);
+  }, []);
+
+  useEffect(() => {
+    if (preference !== "system") {
+      applyColorMode(preference);
+      return;
+    }
+    const query = window.matchMedia(DARK_MODE_QUERY);
+    const update = () => applyColorMode(query.matches ? "dark" : "light");
+    update();
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, [preference]);
+
+  const i18n = useMemo(() => ({ locale, t: getMessages(locale), setLocale }), [locale, setLocale]);
+  const theme = useMemo(() => ({ preference, setPreference }), [preference, setPreference]);
+
+  return (
+    <ChakraProvider value={defaultSystem}>
+      <I18nContext.Provider value={i18n}>
+        <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>
+      </I18nContext.Provider>
+    </ChakraProvider>
+  );
 }
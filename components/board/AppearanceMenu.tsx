@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback } from "react";
+import { Box, IconButton, Menu, Portal } from "@chakra-ui/react";
+import { ItemColor } from "@/types/board";
+import { AppearanceChanges } from "@/lib/boardReducer";
+import { ITEM_COLORS, isItemColor } from "@/lib/boardColors";
+import { useI18n } from "@/hooks/useI18n";
+
+const NO_COLOR = "none";
+
+type AppearanceMenuProps = {
+  color?: ItemColor;
+  icon?: string;
+  // What is being styled, e.g. `column "Done"`, for the accessible name and the icon prompt.
+  label: string;
+  onChange: (changes: AppearanceChanges) => void;
+};
+
+const Swatch = ({ color }: { color?: ItemColor }) => (
+  <Box
+    boxSize="12px"
+    borderRadius="full"
+    borderWidth="1px"
+    borderColor={color ? `${color}.500` : { base: "gray.400", _dark: "gray.500" }}
+    bg={color ? `${color}.400` : "transparent"}
+    flexShrink={0}
+  />
+);
+
+// A swatch button that opens the colour choices and sets or removes the icon.
+const AppearanceMenu = ({ color, icon, label, onChange }: AppearanceMenuProps) => {
+  const { t } = useI18n();
+
+  const handleSetIcon = useCallback(() => {
+    const raw = window.prompt(t.appearance.iconPrompt(label), icon ?? "");
+    if (raw !== null) {
+      onChange({ icon: raw });
+    }
+  }, [icon, label, onChange, t]);
+
+  return (
+    <Menu.Root>
+      <Menu.Trigger asChild>
+        <IconButton
+          aria-label={t.appearance.button(label)}
+          title={t.appearance.button(label)}
+          size="xs"
+          variant="ghost"
+          flexShrink={0}
+        >
+          <Swatch color={color} />
+        </IconButton>
+      </Menu.Trigger>
+      <Portal>
+        <Menu.Positioner>
+          <Menu.Content>
+            <Menu.ItemGroup>
+              <Menu.ItemGroupLabel>{t.appearance.color}</Menu.ItemGroupLabel>
+              <Menu.RadioItemGroup
+                value={color ?? NO_COLOR}
+                onValueChange={(details) =>
+                  onChange({ color: isItemColor(details.value) ? details.value : null })
+                }
+              >
+                {[NO_COLOR, ...ITEM_COLORS].map((option) => (
+                  <Menu.RadioItem key={option} value={option}>
+                    <Swatch color={isItemColor(option) ? option : undefined} />
+                    {isItemColor(option) ? t.appearance.colors[option] : t.appearance.noColor}
+                    <Menu.ItemIndicator />
+                  </Menu.RadioItem>
+                ))}
+              </Menu.RadioItemGroup>
+            </Menu.ItemGroup>
+            <Menu.Separator />
+            <Menu.Item value="set-icon" onClick={handleSetIcon}>
+              {t.appearance.setIcon}
+            </Menu.Item>
+            {icon && (
+              <Menu.Item value="remove-icon" onClick={() => onChange({ icon: null })}>
+                {t.appearance.removeIcon}
+              </Menu.Item>
+            )}
+          </Menu.Content>
+        </Menu.Positioner>
+      </Portal>
+    </Menu.Root>
+  );
+};
+
+export default AppearanceMenu;
@@ -0,0 +1,442 @@
+"use client";
+
+import { FormEvent, useCallback, useMemo, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  CloseButton,
+  Drawer,
+  Flex,
+  Heading,
+  Input,
+  NativeSelect,
+  Portal,
+  Stack,
+  Switch,
+  Text,
+  chakra,
+} from "@chakra-ui/react";
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTrigger,
+  BoardState,
+  TaskPriority,
+} from "@/types/board";
+import { describeAutomationRule, describeTaskChanges, previewAutomationRule } from "@/lib/boardAutomation";
+import { getCellLabels } from "@/lib/taskHistory";
+import { LABEL_COLORS, TASK_PRIORITIES } from "@/lib/taskUtils";
+import { createId } from "@/lib/boardUtils";
+import { Messages } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+type RuleDraft = {
+  name: string;
+  triggerType: AutomationTrigger["type"];
+  cellId: string;
+  days: string;
+  conditionType: AutomationCondition["type"] | "";
+  conditionValue: string;
+  actionType: AutomationAction["type"];
+  actionValue: string;
+  labelColor: string;
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  triggerType: "enter-cell",
+  cellId: "",
+  days: "3",
+  conditionType: "",
+  conditionValue: "",
+  actionType: "stamp-completed",
+  actionValue: "",
+  labelColor: "red",
+};
+
+const FieldLabel = chakra("label", {
+  base: { fontSize: "sm", fontWeight: "medium", display: "flex", flexDirection: "column", gap: 1 },
+});
+
+type RuleError = keyof Messages["automation"]["errors"];
+
+const needsPriority = (type: string) => type === "priority-is" || type === "set-priority";
+
+// Builds a rule from the form, or returns which value is missing first.
+function toRule(draft: RuleDraft, t: Messages): AutomationRule | RuleError {
+  if (!draft.cellId) {
+    return "cell";
+  }
+  const days = Number(draft.days);
+  if (draft.triggerType === "stale-in-cell" && !(Number.isInteger(days) && days > 0)) {
+    return "days";
+  }
+  const trigger: AutomationTrigger =
+    draft.triggerType === "enter-cell"
+      ? { type: "enter-cell", cellId: draft.cellId }
+      : { type: "stale-in-cell", cellId: draft.cellId, days };
+
+  const conditionValue = draft.conditionValue.trim();
+  let condition: AutomationCondition | null = null;
+  if (draft.conditionType === "has-label") {
+    condition = conditionValue ? { type: "has-label", name: conditionValue } : null;
+  } else if (draft.conditionType === "priority-is") {
+    condition = { type: "priority-is", priority: (conditionValue || "high") as TaskPriority };
+  } else if (draft.conditionType === "unassigned") {
+    condition = { type: "unassigned" };
+  }
+  if (draft.conditionType && !condition) {
+    return "condition";
+  }
+
+  const actionValue = draft.actionValue.trim();
+  let action: AutomationAction | null = null;
+  if (draft.actionType === "stamp-completed") {
+    action = { type: "stamp-completed" };
+  } else if (draft.actionType === "add-assignee") {
+    action = actionValue ? { type: "add-assignee", name: actionValue } : null;
+  } else if (draft.actionType === "add-label") {
+    action = actionValue ? { type: "add-label", name: actionValue, color: draft.labelColor } : null;
+  } else {
+    action = { type: "set-priority", priority: (actionValue || "high") as TaskPriority };
+  }
+  if (!action) {
+    return "action";
+  }
+
+  return {
+    id: createId(),
+    name: draft.name.trim() || t.defaults.newRule,
+    enabled: true,
+    trigger,
+    conditions: condition ? [condition] : [],
+    actions: [action],
+  };
+}
+
+const PrioritySelect = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => {
+  const { t } = useI18n();
+  return (
+    <NativeSelect.Root size="sm">
+      <NativeSelect.Field value={value || "high"} onChange={(event) => onChange(event.target.value)}>
+        {TASK_PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>
+            {t.priority[priority]}
+          </option>
+        ))}
+      </NativeSelect.Field>
+      <NativeSelect.Indicator />
+    </NativeSelect.Root>
+  );
+};
+
+type RuleItemProps = {
+  rule: AutomationRule;
+  state: BoardState;
+  cellLabels: Map<string, string>;
+  onSave: (rule: AutomationRule) => void;
+  onDelete: (ruleId: string) => void;
+};
+
+const RuleItem = ({ rule, state, cellLabels, onSave, onDelete }: RuleItemProps) => {
+  const { t } = useI18n();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const preview = useMemo(
+    () => (isPreviewOpen ? previewAutomationRule(state, rule, Date.now()) : []),
+    [isPreviewOpen, rule, state],
+  );
+
+  return (
+    <Stack as="li" gap={2} borderWidth="1px" borderRadius="md" p={3}>
+      <Flex align="center" gap={2}>
+        <Text fontWeight="medium" flex="1">
+          {rule.name}
+        </Text>
+        <Switch.Root
+          size="sm"
+          checked={rule.enabled}
+          onCheckedChange={(details) => onSave({ ...rule, enabled: details.checked })}
+        >
+          <Switch.HiddenInput aria-label={t.automation.enable(rule.name)} />
+          <Switch.Control />
+        </Switch.Root>
+      </Flex>
+      <Text fontSize="sm">{describeAutomationRule(rule, cellLabels, t)}</Text>
+      <Flex gap={2} justify="flex-end">
+        <Button size="xs" variant="ghost" colorPalette="red" onClick={() => onDelete(rule.id)}>
+          {t.common.delete}
+        </Button>
+        <Button size="xs" variant="outline" onClick={() => setIsPreviewOpen((open) => !open)}>
+          {isPreviewOpen ? t.automation.closePreview : t.automation.preview}
+        </Button>
+      </Flex>
+      {isPreviewOpen && (
+        <Box bg={{ base: "gray.50", _dark: "gray.800" }} borderRadius="md" p={2}>
+          <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }} mb={1}>
+            {rule.trigger.type === "enter-cell"
+              ? t.automation.previewArrivals
+              : t.automation.previewStale}
+          </Text>
+          {preview.length === 0 ? (
+            <Text fontSize="sm">{t.automation.previewEmpty}</Text>
+          ) : (
+            <Stack as="ul" gap={1} listStyleType="none">
+              {preview.map(({ task, changes }) => (
+                <Flex as="li" key={task.id} gap={2} fontSize="sm" align="center">
+                  <Text flex="1" truncate>
+                    {task.title}
+                  </Text>
+                  <Badge size="sm">{describeTaskChanges(changes, t)}</Badge>
+                </Flex>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      )}
+    </Stack>
+  );
+};
+
+type AutomationDrawerProps = {
+  open: boolean;
+  state: BoardState;
+  onSave: (rule: AutomationRule) => void;
+  onDelete: (ruleId: string) => void;
+  onClose: () => void;
+};
+
+const AutomationDrawer = ({ open, state, onSave, onDelete, onClose }: AutomationDrawerProps) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<RuleError | null>(null);
+  const cellLabels = useMemo(() => getCellLabels(state), [state]);
+  const rules = state.automations ?? [];
+
+  const updateDraft = useCallback(<K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const handleSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const rule = toRule({ ...draft, cellId: draft.cellId || (cellLabels.keys().next().value ?? "") }, t);
+      if (typeof rule === "string") {
+        setError(rule);
+        return;
+      }
+      onSave(rule);
+      setDraft(EMPTY_DRAFT);
+      setError(null);
+    },
+    [cellLabels, draft, onSave, t],
+  );
+
+  return (
+    <Drawer.Root open={open} onOpenChange={(details) => !details.open && onClose()} size="md">
+      <Portal>
+        <Drawer.Backdrop />
+        <Drawer.Positioner>
+          <Drawer.Content>
+            <Drawer.Header>
+              <Drawer.Title>{t.automation.title}</Drawer.Title>
+            </Drawer.Header>
+            <Drawer.Body>
+              <Stack gap={6}>
+                {rules.length === 0 ? (
+                  <Text fontSize="sm">{t.automation.empty}</Text>
+                ) : (
+                  <Stack as="ul" gap={2} listStyleType="none">
+                    {rules.map((rule) => (
+                      <RuleItem
+                        key={rule.id}
+                        rule={rule}
+                        state={state}
+                        cellLabels={cellLabels}
+                        onSave={onSave}
+                        onDelete={onDelete}
+                      />
+                    ))}
+                  </Stack>
+                )}
+                <chakra.form onSubmit={handleSubmit} display="flex" flexDirection="column" gap={3}>
+                  <Heading size="sm">{t.automation.newRule}</Heading>
+                  <FieldLabel>
+                    {t.automation.name}
+                    <Input
+                      size="sm"
+                      value={draft.name}
+                      placeholder={t.automation.namePlaceholder}
+                      onChange={(event) => updateDraft("name", event.target.value)}
+                    />
+                  </FieldLabel>
+                  <Flex gap={2}>
+                    <FieldLabel flex="1">
+                      {t.automation.cell}
+                      <NativeSelect.Root size="sm">
+                        <NativeSelect.Field
+                          value={draft.cellId}
+                          onChange={(event) => updateDraft("cellId", event.target.value)}
+                        >
+                          {[...cellLabels].map(([cellId, label]) => (
+                            <option key={cellId} value={cellId}>
+                              {label}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                    </FieldLabel>
+                    <FieldLabel flex="1">
+                      {t.automation.when}
+                      <NativeSelect.Root size="sm">
+                        <NativeSelect.Field
+                          value={draft.triggerType}
+                          onChange={(event) =>
+                            updateDraft("triggerType", event.target.value as AutomationTrigger["type"])
+                          }
+                        >
+                          {Object.entries(t.automation.triggers).map(([type, label]) => (
+                            <option key={type} value={type}>
+                              {label}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                    </FieldLabel>
+                    {draft.triggerType === "stale-in-cell" && (
+                      <FieldLabel width="80px">
+                        {t.automation.days}
+                        <Input
+                          size="sm"
+                          type="number"
+                          min={1}
+                          value={draft.days}
+                          onChange={(event) => updateDraft("days", event.target.value)}
+                        />
+                      </FieldLabel>
+                    )}
+                  </Flex>
+                  <Flex gap={2}>
+                    <FieldLabel flex="1">
+                      {t.automation.condition}
+                      <NativeSelect.Root size="sm">
+                        <NativeSelect.Field
+                          value={draft.conditionType}
+                          onChange={(event) => {
+                            updateDraft("conditionType", event.target.value as RuleDraft["conditionType"]);
+                            updateDraft("conditionValue", "");
+                          }}
+                        >
+                          <option value="">{t.automation.always}</option>
+                          {Object.entries(t.automation.conditions).map(([type, label]) => (
+                            <option key={type} value={type}>
+                              {label}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                    </FieldLabel>
+                    {draft.conditionType === "has-label" && (
+                      <FieldLabel flex="1">
+                        {t.automation.labelName}
+                        <Input
+                          size="sm"
+                          value={draft.conditionValue}
+                          onChange={(event) => updateDraft("conditionValue", event.target.value)}
+                        />
+                      </FieldLabel>
+                    )}
+                    {needsPriority(draft.conditionType) && (
+                      <FieldLabel flex="1">
+                        {t.automation.priority}
+                        <PrioritySelect
+                          value={draft.conditionValue}
+                          onChange={(value) => updateDraft("conditionValue", value)}
+                        />
+                      </FieldLabel>
+                    )}
+                  </Flex>
+                  <Flex gap={2}>
+                    <FieldLabel flex="1">
+                      {t.automation.action}
+                      <NativeSelect.Root size="sm">
+                        <NativeSelect.Field
+                          value={draft.actionType}
+                          onChange={(event) => {
+                            updateDraft("actionType", event.target.value as AutomationAction["type"]);
+                            updateDraft("actionValue", "");
+                          }}
+                        >
+                          {Object.entries(t.automation.actions).map(([type, label]) => (
+                            <option key={type} value={type}>
+                              {label}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                    </FieldLabel>
+                    {(draft.actionType === "add-assignee" || draft.actionType === "add-label") && (
+                      <FieldLabel flex="1">
+                        {draft.actionType === "add-assignee" ? t.automation.assignee : t.automation.labelName}
+                        <Input
+                          size="sm"
+                          value={draft.actionValue}
+                          onChange={(event) => updateDraft("actionValue", event.target.value)}
+                        />
+                      </FieldLabel>
+                    )}
+                    {draft.actionType === "add-label" && (
+                      <FieldLabel width="100px">
+                        {t.automation.color}
+                        <NativeSelect.Root size="sm">
+                          <NativeSelect.Field
+                            value={draft.labelColor}
+                            onChange={(event) => updateDraft("labelColor", event.target.value)}
+                          >
+                            {LABEL_COLORS.map((color) => (
+                              <option key={color} value={color}>
+                                {color}
+                              </option>
+                            ))}
+                          </NativeSelect.Field>
+                          <NativeSelect.Indicator />
+                        </NativeSelect.Root>
+                      </FieldLabel>
+                    )}
+                    {needsPriority(draft.actionType) && (
+                      <FieldLabel flex="1">
+                        {t.automation.priority}
+                        <PrioritySelect
+                          value={draft.actionValue}
+                          onChange={(value) => updateDraft("actionValue", value)}
+                        />
+                      </FieldLabel>
+                    )}
+                  </Flex>
+                  {error && (
+                    <Text fontSize="sm" color={{ base: "red.600", _dark: "red.300" }} role="alert">
+                      {t.automation.errors[error]}
+                    </Text>
+                  )}
+                  <Button type="submit" size="sm" colorPalette="blue" alignSelf="flex-end">
+                    {t.automation.addRule}
+                  </Button>
+                </chakra.form>
+              </Stack>
+            </Drawer.Body>
+            <Drawer.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Drawer.CloseTrigger>
+          </Drawer.Content>
+        </Drawer.Positioner>
+      </Portal>
+    </Drawer.Root>
+  );
+};
+
+export default AutomationDrawer;
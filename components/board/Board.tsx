@@ -2,635 +2,1168 @@
 
 import {
   ChangeEvent,
-  FormEvent,
   Fragment,
-  KeyboardEvent,
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
   PointerEvent as ReactPointerEvent,
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
 import {
+  Badge,
   Box,
   Button,
   Flex,
   Heading,
   IconButton,
-  Input,
+  Menu,
+  NativeSelect,
+  Portal,
   Text,
   chakra,
 } from "@chakra-ui/react";
+import { DragDropContext, Draggable, DragStart, DropResult, Droppable } from "@hello-pangea/dnd";
+import { AddIcon, ArrowBackIcon, MinusIcon, SmallCloseIcon } from "@chakra-ui/icons";
+import Link from "next/link";
 import {
-  DragDropContext,
-  Draggable,
-  DraggableProvidedDragHandleProps,
-  DropResult,
-  Droppable,
-} from "@hello-pangea/dnd";
-import { AddIcon, DeleteIcon, DragHandleIcon } from "@chakra-ui/icons";
-import { BoardState, Cell, Column, Task } from "@/types/board";
-import { arrayMove, clamp } from "@/lib/boardUtils";
+  AutomationRule,
+  BoardPeer,
+  BoardState,
+  Cell,
+  Column,
+  PeerActivity,
+  QuadrantTarget,
+  TaskChanges,
+  WipPolicy,
+} from "@/types/board";
+import { AppearanceChanges, BoardAction, boardReducer } from "@/lib/boardReducer";
+import {
+  createId,
+  distributeWidths,
+  getQuadrant,
+  isPointInRect,
+  resizePairWeights,
+} from "@/lib/boardUtils";
+import { useElementRect } from "@/hooks/useElementRect";
+import { useBoardZoom } from "@/hooks/useBoardZoom";
+import { revealVirtualItem } from "@/hooks/useVirtualList";
+import { useBoardSync } from "@/hooks/useBoardSync";
+import { useBoardHistory } from "@/hooks/useBoardHistory";
+import { useI18n } from "@/hooks/useI18n";
+import { repairBoard, validateBoard } from "@/lib/boardValidation";
+import BoardHealthBadges from "@/components/board/BoardHealthBadges";
+import TaskDetailDrawer from "@/components/board/TaskDetailDrawer";
+import BoardImportDialog from "@/components/board/BoardImportDialog";
+import PresenceBar from "@/components/board/PresenceBar";
+import LanguageSwitcher from "@/components/board/LanguageSwitcher";
+import ThemeSwitcher from "@/components/board/ThemeSwitcher";
+import CommandPalette, { BoardCommand } from "@/components/board/CommandPalette";
+import KeyboardShortcutsDialog from "@/components/board/KeyboardShortcutsDialog";
+import BoardFilterBar from "@/components/board/BoardFilterBar";
+import { useBoardFilter } from "@/hooks/useBoardFilter";
+import { filterBoard } from "@/lib/boardFilter";
+import MetricsDrawer from "@/components/board/MetricsDrawer";
+import TrashDrawer from "@/components/board/TrashDrawer";
+import AutomationDrawer from "@/components/board/AutomationDrawer";
+import MoveToDialog, { MoveDestination, MoveSubject } from "@/components/board/MoveToDialog";
+import BoardColumn from "@/components/board/BoardColumn";
+import CollapsedColumn from "@/components/board/CollapsedColumn";
+import SwimlaneGutter from "@/components/board/SwimlaneGutter";
+import {
+  CELL_MIN_HEIGHT_PX,
+  COLLAPSED_COLUMN_WIDTH_PX,
+  COLUMNS_DROPPABLE_ID,
+  SWIMLANE_GUTTER_WIDTH_PX,
+  pairShare,
+  parseCellsDroppableId,
+  parseTasksDroppableId,
+} from "@/components/board/boardLayout";
+import { describeParcel, isParcelDelivered, packParcel } from "@/lib/boardMove";
+import BulkActionBar from "@/components/board/BulkActionBar";
+import {
+  getSelectedTasks,
+  getSelectionDropIndex,
+  getTaskRange,
+  listTasksInBoardOrder,
+  replaceInTitle,
+} from "@/lib/boardSelection";
+import { applyBoardActionRemote } from "@/lib/boardApi";
+import { getEntryAutomationUpdate } from "@/lib/boardAutomation";
+import { createTask } from "@/lib/taskUtils";
+import { describeTrashEntry, getCompletedTaskIds } from "@/lib/boardTrash";
+import { getCellLabels, getTaskEvents } from "@/lib/taskHistory";
+import {
+  BoardZoom,
+  MAX_BOARD_ZOOM,
+  MIN_BOARD_ZOOM,
+  getFitZoom,
+  stepBoardZoom,
+  unzoomDraggableStyle,
+} from "@/lib/boardZoom";
+import {
+  countColumnTasks,
+  describeWipViolation,
+  findBulkWipViolation,
+  findWipViolation,
+  getWipPolicy,
+} from "@/lib/boardWip";
+import {
+  BoardImportMode,
+  BoardImportResult,
+  exportBoardJson,
+  importBoard,
+  parseBoardJson,
+} from "@/lib/boardTransfer";
+import { downloadTextFile, timestampedFileName } from "@/lib/fileUtils";
+import { exportBoardMarkdown, exportTasksCsv, parseBoardMarkdown } from "@/lib/boardText";
+import {
+  BoardFocus,
+  NavDirection,
+  getCellMoveAction,
+  getNextFocus,
+  getTaskMoveAction,
+} from "@/lib/boardNavigation";
 
 const BOARD_MIN_HEIGHT = 560;
-const COLUMN_MIN_HEIGHT = 420;
-const CELL_MIN_HEIGHT_PX = 96;
-
-const createId = () =>
-  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
-    ? crypto.randomUUID()
-    : Math.random().toString(36).slice(2, 10);
-
-const cellsDroppableId = (columnId: string) => `cells-${columnId}`;
-const tasksDroppableId = (cellId: string) => `tasks-${cellId}`;
-
-const parseCellsDroppableId = (id: string) => (id.startsWith("cells-") ? id.slice(6) : null);
-const parseTasksDroppableId = (id: string) => (id.startsWith("tasks-") ? id.slice(6) : null);
-
-const createInitialBoard = (): BoardState => {
-  const columnA: Column = {
-    id: createId(),
-    title: "아이디어",
-    cells: [
-      { id: createId(), title: "아이디어 풀", height: 1 },
-      { id: createId(), title: "요구사항 정리", height: 1 },
-    ],
-  };
-
-  const columnB: Column = {
-    id: createId(),
-    title: "진행 중",
-    cells: [
-      { id: createId(), title: "설계", height: 1 },
-      { id: createId(), title: "개발", height: 1 },
-      { id: createId(), title: "리뷰", height: 1 },
-    ],
-  };
-
-  const columnC: Column = {
-    id: createId(),
-    title: "출시",
-    cells: [
-      { id: createId(), title: "출시 준비", height: 1 },
-      { id: createId(), title: "완료", height: 1 },
-    ],
-  };
+const COLUMN_MIN_WIDTH_PX = 140;
+// Width a column needs to stay readable, used to work out how far "fit" zooms out.
+const FIT_COLUMN_WIDTH_PX = 260;
+const COLUMN_GAP_PX = 16;
+const RESIZE_KEY_STEP_PX = 16;
+const RESIZE_KEY_LARGE_STEP_PX = 64;
+const NOTICE_TIMEOUT_MS = 6000;
+const STALE_AUTOMATION_INTERVAL_MS = 10 * 60 * 1000;
 
-  const tasksByCell: BoardState["tasksByCell"] = {
-    [columnA.cells[0].id]: [
-      { id: createId(), title: "시장 조사" },
-      { id: createId(), title: "사용자 인터뷰" },
-    ],
-    [columnA.cells[1].id]: [{ id: createId(), title: "MVP 정의" }],
-    [columnB.cells[0].id]: [{ id: createId(), title: "IA 설계" }],
-    [columnB.cells[1].id]: [
-      { id: createId(), title: "프론트엔드" },
-      { id: createId(), title: "백엔드" },
-    ],
-    [columnB.cells[2].id]: [{ id: createId(), title: "QA 준비" }],
-    [columnC.cells[0].id]: [
-      { id: createId(), title: "런북 작성" },
-      { id: createId(), title: "시장 공지" },
-    ],
-    [columnC.cells[1].id]: [{ id: createId(), title: "배포 완료" }],
-  };
+type ResizeAction = Extract<BoardAction, { type: "RESIZE_CELLS" | "RESIZE_COLUMNS" }>;
+
+// A transient message under the health badges: a WIP limit hit, or deletions that can be undone
+// from the trash.
+type BoardNotice =
+  | { kind: "wip"; message: string; blocked: boolean }
+  | { kind: "trash"; trashIds: string[] }
+  | { kind: "moved"; message: string; boardId: string };
 
-  return {
-    columns: [columnA, columnB, columnC],
-    tasksByCell,
-  };
+const DRAG_ACTIVITY_TYPES: Record<string, PeerActivity["type"]> = {
+  COLUMN: "drag-column",
+  CELL: "drag-cell",
+  TASK: "drag-task",
 };
 
-type InlineTitleInputProps = {
-  value: string;
-  fallback: string;
-  onCommit: (value: string) => void;
-  fontSize?: string;
-  ariaLabel?: string;
+const ARROW_DIRECTIONS: Record<string, NavDirection> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
 };
 
-const InlineTitleInput = ({ value, fallback, onCommit, fontSize, ariaLabel }: InlineTitleInputProps) => {
-  const [draft, setDraft] = useState(value);
+const focusBoardItem = (focus: BoardFocus) => {
+  const selector =
+    focus.kind === "task"
+      ? `[data-task-id="${CSS.escape(focus.taskId)}"]`
+      : `[data-cell-id="${CSS.escape(focus.cellId)}"]`;
+  const element = document.querySelector<HTMLElement>(selector);
+  if (element || focus.kind !== "task") {
+    element?.focus();
+    return;
+  }
+  // The card may be outside the rendered part of a windowed list.
+  const list = document.querySelector(`[data-cell-id="${CSS.escape(focus.cellId)}"] [data-virtual-list]`);
+  if (list) {
+    revealVirtualItem(list, focus.taskId);
+  }
+};
 
-  useEffect(() => {
-    setDraft(value);
-  }, [value]);
+// Keyboard steps for a resize separator: the distance in pixels an arrow key moves it.
+const getResizeKeyDelta = (event: ReactKeyboardEvent, decreaseKey: string, increaseKey: string) => {
+  const step = event.shiftKey ? RESIZE_KEY_LARGE_STEP_PX : RESIZE_KEY_STEP_PX;
+  if (event.key === decreaseKey) {
+    return -step;
+  }
+  return event.key === increaseKey ? step : 0;
+};
 
-  const commit = useCallback(() => {
-    const trimmed = draft.trim();
-    onCommit(trimmed.length > 0 ? trimmed : fallback);
-  }, [draft, fallback, onCommit]);
+type BoardProps = {
+  boardId: string;
+  title: string;
+  initialState: BoardState;
+  initialVersion: number;
+};
 
-  const handleChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
-    setDraft(event.target.value);
+const Board = ({ boardId, title, initialState, initialVersion }: BoardProps) => {
+  const { t } = useI18n();
+  const {
+    state,
+    setState,
+    resetState,
+    replacePresent,
+    rebase,
+    beginBatch,
+    endBatch,
+    undo,
+    redo,
+    undoState,
+    redoState,
+    canUndo,
+    canRedo,
+  } = useBoardHistory(() => initialState);
+  // The latest board for handlers passed to the memoised columns and cells, which would otherwise
+  // be recreated, and re-render every cell, on each edit.
+  const stateRef = useRef(state);
+  useEffect(() => {
+    stateRef.current = state;
+  });
+  // Sizes shown while a separator is dragged, committed to the board once it is released.
+  const [resizePreview, setResizePreview] = useState<ResizeAction | null>(null);
+  const shownColumns = useMemo(
+    () => (resizePreview ? boardReducer(state, resizePreview).columns : state.columns),
+    [resizePreview, state],
+  );
+  const [boardName, setBoardName] = useState(title);
+  const {
+    status: syncStatus,
+    error: syncError,
+    peers,
+    collaborator,
+    submitAction,
+    submitBoard,
+    setActivity,
+    renameCollaborator,
+  } = useBoardSync(boardId, initialState, initialVersion, {
+    rebase,
+    replacePresent,
+    reset: resetState,
+    rename: setBoardName,
+  });
+  const [columnsContainerRef, columnsContainerRect] = useElementRect<HTMLDivElement>();
+  const [zoomSetting, setZoomSetting] = useBoardZoom(boardId);
+  // The board's width at a comfortable column width, which "fit" scales into the container.
+  const naturalWidthPx = useMemo(
+    () =>
+      state.columns.reduce(
+        (total, column) => total + (column.collapsed ? COLLAPSED_COLUMN_WIDTH_PX : FIT_COLUMN_WIDTH_PX),
+        COLUMN_GAP_PX * Math.max(state.columns.length - 1, 0) +
+          (state.swimlanes ? SWIMLANE_GUTTER_WIDTH_PX + COLUMN_GAP_PX : 0),
+      ),
+    [state.columns, state.swimlanes],
+  );
+  const zoom =
+    zoomSetting === "fit" ? getFitZoom(naturalWidthPx, columnsContainerRect.width) : zoomSetting;
+  const [quadrantTarget, setQuadrantTarget] = useState<QuadrantTarget | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: BoardImportResult } | null>(
+    null,
+  );
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [detailTaskKey, setDetailTaskKey] = useState<{ cellId: string; taskId: string } | null>(null);
+  // Selected task ids; tasks that leave the board drop out of selectedTasks but keep their id here.
+  const [selectedTaskIds, setSelectedTaskIds] = useState<ReadonlySet<string>>(() => new Set());
+  // The task a shift-click selects from.
+  const selectionAnchorRef = useRef<string | null>(null);
+  const quadrantTargetRef = useRef<QuadrantTarget | null>(null);
+  const stopQuadrantTrackingRef = useRef<(() => void) | null>(null);
+  const isDraggingRef = useRef(false);
+  // Where focus goes once a keyboard move has re-rendered the board.
+  const pendingFocusRef = useRef<BoardFocus | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isAutomationOpen, setIsAutomationOpen] = useState(false);
+  // Bumped periodically so time-based automation rules are checked even on an idle board.
+  const [automationClock, setAutomationClock] = useState(() => Date.now());
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const { filter, setFilter, savedFilters, saveFilter, deleteSavedFilter } = useBoardFilter();
+  // Matches only depend on titles and tasks, so the result isn't rebuilt for history, trash or
+  // automation changes.
+  const filterResult = useMemo(
+    () => filterBoard({ columns: state.columns, tasksByCell: state.tasksByCell }, filter),
+    [filter, state.columns, state.tasksByCell],
+  );
+  const [notice, setNotice] = useState<BoardNotice | null>(null);
+  const [moveSubject, setMoveSubject] = useState<MoveSubject | null>(null);
+
+  const updateQuadrantTarget = useCallback((next: QuadrantTarget | null) => {
+    const current = quadrantTargetRef.current;
+    if (current?.cellId === next?.cellId && current?.quadrant === next?.quadrant) {
+      return;
+    }
+    quadrantTargetRef.current = next;
+    setQuadrantTarget(next);
   }, []);
 
-  const handleKeyDown = useCallback(
-    (event: KeyboardEvent<HTMLInputElement>) => {
-      if (event.key === "Enter") {
-        event.preventDefault();
-        commit();
-        event.currentTarget.blur();
+  const handleDragStart = useCallback(
+    (start: DragStart) => {
+      isDraggingRef.current = true;
+      setActivity({ type: DRAG_ACTIVITY_TYPES[start.type] ?? "drag-task", id: start.draggableId });
+      if (start.type === "TASK") {
+        // Dragging a task outside the selection moves just that task.
+        setSelectedTaskIds((current) =>
+          current.size === 0 || current.has(start.draggableId) ? current : new Set(),
+        );
       }
-      if (event.key === "Escape") {
-        event.preventDefault();
-        setDraft(value);
-        event.currentTarget.blur();
+      if (start.type !== "CELL") {
+        return;
       }
+
+      const draggedCellId = start.draggableId;
+      const handlePointerMove = (event: PointerEvent) => {
+        const cellElements = document.querySelectorAll<HTMLElement>("[data-cell-id]");
+        for (const element of Array.from(cellElements)) {
+          const cellId = element.dataset.cellId;
+          if (!cellId || cellId === draggedCellId) {
+            continue;
+          }
+          const rect = element.getBoundingClientRect();
+          if (isPointInRect(rect, event.clientX, event.clientY)) {
+            updateQuadrantTarget({ cellId, quadrant: getQuadrant(rect, event.clientX, event.clientY) });
+            return;
+          }
+        }
+        updateQuadrantTarget(null);
+      };
+
+      window.addEventListener("pointermove", handlePointerMove);
+      stopQuadrantTrackingRef.current = () => {
+        window.removeEventListener("pointermove", handlePointerMove);
+      };
     },
-    [commit, value],
+    [setActivity, updateQuadrantTarget],
   );
 
-  return (
-    <chakra.input
-      value={draft}
-      onChange={handleChange}
-      onBlur={commit}
-      onKeyDown={handleKeyDown}
-      fontSize={fontSize}
-      fontWeight="semibold"
-      color={{ base: "gray.700", _dark: "gray.100" }}
-      placeholder={fallback}
-      aria-label={ariaLabel}
-      minW="0"
-      px={1}
-      py={1}
-      border="none"
-      bg="transparent"
-      borderRadius="md"
-      _focusVisible={{
-        outline: "none",
-        boxShadow: "0 0 0 1px var(--chakra-colors-blue-400)",
-        bg: { base: "gray.50", _dark: "gray.800" },
-      }}
-      transition="background-color 0.2s ease, box-shadow 0.2s ease"
-    />
+  // Whole-board changes are shown right away and sent as a replacement of the server's board.
+  const replaceBoard = useCallback(
+    (next: BoardState) => {
+      setState(next);
+      submitBoard(next);
+    },
+    [setState, submitBoard],
   );
-};
 
-type CellCardProps = {
-  cell: Cell;
-  tasks: Task[];
-  dragHandleProps: DraggableProvidedDragHandleProps | null | undefined;
-  isDragging: boolean;
-  hasBottomNeighbor: boolean;
-  onAddTask: (cellId: string, title: string) => void;
-  onRemoveTask: (cellId: string, taskId: string) => void;
-  onDeleteCell: () => void;
-  onUpdateCellTitle: (cellId: string, title: string) => void;
-  onStartResize: (event: ReactPointerEvent<HTMLDivElement>) => void;
-};
+  const handleUndo = useCallback(() => {
+    if (undoState) {
+      undo();
+      submitBoard(undoState);
+    }
+  }, [submitBoard, undo, undoState]);
 
-const CellCard = ({
-  cell,
-  tasks,
-  dragHandleProps,
-  isDragging,
-  hasBottomNeighbor,
-  onAddTask,
-  onRemoveTask,
-  onDeleteCell,
-  onUpdateCellTitle,
-  onStartResize,
-}: CellCardProps) => {
-  const [newTaskTitle, setNewTaskTitle] = useState("");
-  const dragHandle = dragHandleProps ?? {};
-
-  const handleSubmit = useCallback(
-    (event: FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
-      const value = newTaskTitle.trim() || "새 태스크";
-      onAddTask(cell.id, value);
-      setNewTaskTitle("");
+  const handleRedo = useCallback(() => {
+    if (redoState) {
+      redo();
+      submitBoard(redoState);
+    }
+  }, [redo, redoState, submitBoard]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = Boolean(target?.closest("input, textarea, select, [contenteditable='true']"));
+      const key = event.key.toLowerCase();
+      // A drag cancelled with Esc keeps its selection.
+      if (event.key === "Escape" && !isTyping && !event.defaultPrevented) {
+        setSelectedTaskIds((current) => (current.size === 0 ? current : new Set()));
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && key === "k") {
+        event.preventDefault();
+        setIsPaletteOpen((open) => !open);
+        return;
+      }
+      if (event.key === "?" && !isTyping && !event.ctrlKey && !event.metaKey) {
+        event.preventDefault();
+        setIsShortcutsOpen(true);
+        return;
+      }
+      if (event.key === "/" && !isTyping && !event.ctrlKey && !event.metaKey) {
+        event.preventDefault();
+        searchInputRef.current?.focus();
+        return;
+      }
+      // Text fields keep their native undo behaviour.
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTyping) {
+        return;
+      }
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [handleRedo, handleUndo]);
+
+  const dispatch = useCallback(
+    (action: BoardAction) => {
+      setState((prev) => boardReducer(prev, action));
+      submitAction(action);
     },
-    [cell.id, newTaskTitle, onAddTask],
+    [setState, submitAction],
   );
 
-  return (
-    <Flex
-      direction="column"
-      height="100%"
-      minH={`${CELL_MIN_HEIGHT_PX}px`}
-      bg={{ base: "white", _dark: "gray.800" }}
-      borderWidth="1px"
-      borderColor={{ base: "gray.200", _dark: "gray.700" }}
-      borderRadius="lg"
-      boxShadow={isDragging ? "lg" : "sm"}
-      transition="box-shadow 0.2s ease, transform 0.2s ease"
-      transform={isDragging ? "scale(1.02)" : "none"}
-      position="relative"
-      overflow="visible"
-      p={4}
-      gap={3}
-      data-cell-id={cell.id}
-    >
-      <Flex align="center" justify="space-between" gap={3}>
-        <Flex align="center" gap={2} flex="1" minW="0">
-          <IconButton
-            aria-label="셀 이동"
-            variant="ghost"
-            size="sm"
-            cursor="grab"
-            {...dragHandle}
-          >
-            <DragHandleIcon boxSize={4} />
-          </IconButton>
-          <InlineTitleInput
-            value={cell.title}
-            fallback="무제 셀"
-            onCommit={(next) => onUpdateCellTitle(cell.id, next)}
-            ariaLabel="셀 제목"
-          />
-        </Flex>
-        <IconButton aria-label="셀 삭제" size="sm" onClick={onDeleteCell} variant="ghost">
-          <DeleteIcon boxSize={3} />
-        </IconButton>
-      </Flex>
+  // Dispatches a task's arrival in a cell together with the edits of that cell's "enter" rules,
+  // so undo takes both back at once.
+  const dispatchTaskArrival = useCallback(
+    (action: Extract<BoardAction, { type: "ADD_TASK" | "MOVE_TASK" | "MOVE_TASKS" }>) => {
+      const board = stateRef.current;
+      const movedIds = action.type === "MOVE_TASKS" ? action.taskIds : [action.taskId];
+      const arrivals =
+        action.type === "ADD_TASK"
+          ? [{ cellId: action.cellId, task: createTask(action.taskId, action.title, action.now) }]
+          : listTasksInBoardOrder(board)
+              .filter(({ cellId, task }) => cellId !== action.destinationCellId && movedIds.includes(task.id))
+              .map(({ task }) => ({ cellId: action.destinationCellId, task }));
+      const updates = arrivals.flatMap(
+        ({ cellId, task }) => getEntryAutomationUpdate(board, cellId, task, action.now, createId) ?? [],
+      );
+      if (updates.length === 0) {
+        dispatch(action);
+        return;
+      }
+      beginBatch();
+      dispatch(action);
+      dispatch({ type: "APPLY_AUTOMATIONS", updates, now: action.now });
+      endBatch();
+    },
+    [beginBatch, dispatch, endBatch],
+  );
 
-      <Droppable droppableId={tasksDroppableId(cell.id)} type="TASK">
-        {(provided) => (
-          <Flex
-            direction="column"
-            ref={provided.innerRef}
-            {...provided.droppableProps}
-            gap={2}
-            flex="1"
-            overflowY="auto"
-            minH="0"
-            pr={1}
-          >
-            {tasks.map((task, index) => (
-              <Draggable key={task.id} draggableId={task.id} index={index}>
-                {(taskProvided, taskSnapshot) => (
-                  <Box
-                    ref={taskProvided.innerRef}
-                    {...taskProvided.draggableProps}
-                    {...taskProvided.dragHandleProps}
-                    p={3}
-                    borderWidth="1px"
-                    borderColor={
-                      taskSnapshot.isDragging ? "blue.300" : { base: "gray.200", _dark: "gray.700" }
-                    }
-                    bg={
-                      taskSnapshot.isDragging
-                        ? { base: "blue.50", _dark: "blue.700" }
-                        : { base: "gray.50", _dark: "gray.900" }
-                    }
-                    borderRadius="md"
-                    boxShadow={taskSnapshot.isDragging ? "md" : "sm"}
-                  >
-                    <Flex align="center" justify="space-between" gap={3}>
-                      <Text fontWeight="medium" flex="1">
-                        {task.title}
-                      </Text>
-                      <IconButton
-                        aria-label="태스크 삭제"
-                        size="xs"
-                        variant="ghost"
-                        onClick={() => onRemoveTask(cell.id, task.id)}
-                      >
-                        <DeleteIcon boxSize={3} />
-                      </IconButton>
-                    </Flex>
-                  </Box>
-                )}
-              </Draggable>
-            ))}
-            {tasks.length === 0 && (
-              <Text fontSize="sm" color={{ base: "gray.400", _dark: "gray.500" }} textAlign="center" py={4}>
-                태스크를 드롭하거나 추가하세요.
-              </Text>
-            )}
-            {provided.placeholder}
-          </Flex>
-        )}
-      </Droppable>
-
-      <chakra.form onSubmit={handleSubmit} mt="auto" display="flex" gap={2}>
-        <Input
-          size="sm"
-          placeholder="새 태스크"
-          value={newTaskTitle}
-          onChange={(event) => setNewTaskTitle(event.target.value)}
-        />
-        <Button type="submit" size="sm" colorScheme="blue">
-          추가
-        </Button>
-      </chakra.form>
-
-      {hasBottomNeighbor && (
-        <Box
-          position="absolute"
-          left={4}
-          right={4}
-          bottom={-3}
-          height="6px"
-          borderRadius="full"
-          bg="transparent"
-          _hover={{ bg: "blue.300" }}
-          cursor="row-resize"
-          onPointerDown={onStartResize}
-          role="separator"
-          aria-label="셀 높이 조절"
-          zIndex={2}
-        />
-      )}
-    </Flex>
+  // Time-based rules act on their own rather than as an edit of this user, so they are applied to
+  // every history entry like a collaborator's change and are not undone. They are checked when the
+  // clock ticks rather than on every edit, since the check goes through the whole event log. Every
+  // open copy of the board checks, so the action only carries the time and the reducer works out
+  // the edits: once one copy's check is applied, the others' change nothing.
+  useEffect(() => {
+    const now = new Date(automationClock).toISOString();
+    const action: BoardAction = { type: "RUN_STALE_AUTOMATIONS", now };
+    if (boardReducer(stateRef.current, action) === stateRef.current) {
+      return;
+    }
+    rebase((board) => boardReducer(board, action));
+    submitAction(action);
+  }, [automationClock, rebase, submitAction]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setAutomationClock(Date.now()), STALE_AUTOMATION_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  const handleSaveAutomation = useCallback(
+    (rule: AutomationRule) => {
+      dispatch({ type: "SAVE_AUTOMATION", rule });
+    },
+    [dispatch],
   );
-};
 
-const Board = () => {
-  const [state, setState] = useState<BoardState>(() => createInitialBoard());
-  const columnRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const handleDeleteAutomation = useCallback(
+    (ruleId: string) => {
+      dispatch({ type: "DELETE_AUTOMATION", ruleId });
+    },
+    [dispatch],
+  );
 
   const handleAddColumn = useCallback(() => {
-    setState((prev) => {
-      const columnId = createId();
-      const cellId = createId();
-      const newColumn: Column = {
-        id: columnId,
-        title: `새 컬럼 ${prev.columns.length + 1}`,
-        cells: [{ id: cellId, title: "새 셀", height: 1 }],
-      };
-      return {
-        columns: [...prev.columns, newColumn],
-        tasksByCell: { ...prev.tasksByCell, [cellId]: [] },
-      };
+    dispatch({
+      type: "ADD_COLUMN",
+      columnId: createId(),
+      cellId: createId(),
+      title: t.defaults.newColumn(stateRef.current.columns.length + 1),
+      cellTitle: t.defaults.newCell,
     });
+  }, [dispatch, t]);
+
+  const handleDeleteColumn = useCallback(
+    (columnId: string) => {
+      const trashId = createId();
+      dispatch({ type: "DELETE_COLUMN", columnId, trashId, now: new Date().toISOString() });
+      setNotice({ kind: "trash", trashIds: [trashId] });
+    },
+    [dispatch],
+  );
+
+  const handleAddCell = useCallback(
+    (columnId: string) => {
+      dispatch({ type: "ADD_CELL", columnId, cellId: createId(), title: t.defaults.newCell });
+    },
+    [dispatch, t],
+  );
+
+  const handleDeleteCell = useCallback(
+    (columnId: string, cellId: string) => {
+      const trashId = createId();
+      dispatch({ type: "DELETE_CELL", columnId, cellId, trashId, now: new Date().toISOString() });
+      setNotice({ kind: "trash", trashIds: [trashId] });
+    },
+    [dispatch],
+  );
+
+  const handleOpenMoveColumn = useCallback((column: Column) => {
+    setMoveSubject({ kind: "column", id: column.id, title: column.title });
   }, []);
 
-  const handleDeleteColumn = useCallback((columnId: string) => {
-    setState((prev) => {
-      const nextColumns = prev.columns.filter((column) => column.id !== columnId);
-      const removedColumn = prev.columns.find((column) => column.id === columnId);
-      if (!removedColumn) {
-        return prev;
-      }
-      const nextTasks = { ...prev.tasksByCell };
-      removedColumn.cells.forEach((cell) => {
-        delete nextTasks[cell.id];
-      });
-      return {
-        columns: nextColumns,
-        tasksByCell: nextTasks,
-      };
-    });
+  const handleOpenMoveCell = useCallback((cell: Cell) => {
+    setMoveSubject({ kind: "cell", id: cell.id, title: cell.title });
   }, []);
 
-  const handleAddCell = useCallback((columnId: string) => {
-    setState((prev) => {
-      const nextColumns = prev.columns.map((column) => {
-        if (column.id !== columnId) {
-          return column;
+  // Within the board a move is an ordinary undoable action. To another board, the item is added
+  // there first and only taken off this board once it has arrived; that removal is not undoable,
+  // since undo here can't take it back off the other board.
+  const handleMoveItem = useCallback(
+    async (subject: MoveSubject, destination: MoveDestination) => {
+      if (destination.boardId === boardId) {
+        const sourceColumn = state.columns.find((column) =>
+          column.cells.some((cell) => cell.id === subject.id),
+        );
+        if (subject.kind === "column") {
+          dispatch({ type: "MOVE_COLUMN", columnId: subject.id, toIndex: destination.index });
+        } else if (sourceColumn && destination.columnId) {
+          dispatch({
+            type: "MOVE_CELL",
+            cellId: subject.id,
+            sourceColumnId: sourceColumn.id,
+            destinationColumnId: destination.columnId,
+            destinationIndex: destination.index,
+          });
         }
-        const cellId = createId();
-        return {
-          ...column,
-          cells: [...column.cells, { id: cellId, title: "새 셀", height: 1 }],
-        };
+        return;
+      }
+      const parcel = packParcel(state, subject.kind, subject.id);
+      if (!parcel) {
+        return;
+      }
+      const record = await applyBoardActionRemote(destination.boardId, {
+        type: "RECEIVE_FROM_BOARD",
+        parcel,
+        columnId: destination.columnId,
+        index: destination.index,
       });
-
-      const addedColumn = nextColumns.find((column) => column.id === columnId);
-      if (!addedColumn) {
-        return prev;
+      if (!isParcelDelivered(record.board, parcel)) {
+        throw new Error(t.notice.moveFailed(record.meta.name));
       }
+      const action: BoardAction = { type: "SEND_TO_BOARD", kind: subject.kind, id: subject.id };
+      rebase((board) => boardReducer(board, action));
+      submitAction(action);
+      setNotice({
+        kind: "moved",
+        message: t.notice.movedToBoard(describeParcel(parcel, t), record.meta.name),
+        boardId: destination.boardId,
+      });
+    },
+    [boardId, dispatch, rebase, state, submitAction, t],
+  );
 
-      const addedCell = addedColumn.cells[addedColumn.cells.length - 1];
-      return {
-        columns: nextColumns,
-        tasksByCell: { ...prev.tasksByCell, [addedCell.id]: [] },
-      };
-    });
-  }, []);
+  const handleSetZoom = useCallback(
+    (next: BoardZoom | "in" | "out") => {
+      setZoomSetting(next === "in" || next === "out" ? stepBoardZoom(zoom, next === "in" ? 1 : -1) : next);
+    },
+    [setZoomSetting, zoom],
+  );
 
-  const handleDeleteCell = useCallback((columnId: string, cellId: string) => {
-    setState((prev) => {
-      const nextColumns = prev.columns.map((column) => {
-        if (column.id !== columnId) {
-          return column;
-        }
-        return {
-          ...column,
-          cells: column.cells.filter((cell) => cell.id !== cellId),
-        };
-      });
-      const nextTasks = { ...prev.tasksByCell };
-      delete nextTasks[cellId];
-      return {
-        columns: nextColumns,
-        tasksByCell: nextTasks,
-      };
-    });
-  }, []);
+  const handleSetColumnCollapsed = useCallback(
+    (columnId: string, collapsed: boolean) => {
+      dispatch({ type: "SET_COLUMN_COLLAPSED", columnId, collapsed });
+    },
+    [dispatch],
+  );
 
-  const handleUpdateColumnTitle = useCallback((columnId: string, title: string) => {
-    setState((prev) => ({
-      columns: prev.columns.map((column) =>
-        column.id === columnId ? { ...column, title: title.trim() || "무제 컬럼" } : column,
-      ),
-      tasksByCell: prev.tasksByCell,
-    }));
-  }, []);
+  const handleSetCellCollapsed = useCallback(
+    (cellId: string, collapsed: boolean) => {
+      dispatch({ type: "SET_CELL_COLLAPSED", cellId, collapsed });
+    },
+    [dispatch],
+  );
 
-  const handleUpdateCellTitle = useCallback((cellId: string, title: string) => {
-    setState((prev) => ({
-      columns: prev.columns.map((column) => ({
-        ...column,
-        cells: column.cells.map((cell) =>
-          cell.id === cellId ? { ...cell, title: title.trim() || "무제 셀" } : cell,
-        ),
-      })),
-      tasksByCell: prev.tasksByCell,
-    }));
-  }, []);
+  const handleSetColumnAppearance = useCallback(
+    (columnId: string, changes: AppearanceChanges) => {
+      dispatch({ type: "SET_COLUMN_APPEARANCE", columnId, ...changes });
+    },
+    [dispatch],
+  );
 
-  const handleAddTask = useCallback((cellId: string, title: string) => {
-    setState((prev) => {
-      const nextTasks = { ...prev.tasksByCell };
-      const tasks = nextTasks[cellId] ? [...nextTasks[cellId]] : [];
-      tasks.push({ id: createId(), title });
-      nextTasks[cellId] = tasks;
-      return {
-        columns: prev.columns,
-        tasksByCell: nextTasks,
-      };
-    });
-  }, []);
+  const handleSetCellAppearance = useCallback(
+    (cellId: string, changes: AppearanceChanges) => {
+      dispatch({ type: "SET_CELL_APPEARANCE", cellId, ...changes });
+    },
+    [dispatch],
+  );
 
-  const handleRemoveTask = useCallback((cellId: string, taskId: string) => {
-    setState((prev) => {
-      const nextTasks = { ...prev.tasksByCell };
-      const tasks = nextTasks[cellId];
-      if (!tasks) {
-        return prev;
-      }
-      nextTasks[cellId] = tasks.filter((task) => task.id !== taskId);
-      return {
-        columns: prev.columns,
-        tasksByCell: nextTasks,
-      };
+  const handleToggleSwimlanes = useCallback(() => {
+    if (state.swimlanes) {
+      dispatch({ type: "DISABLE_SWIMLANES" });
+      return;
+    }
+    // One lane per cell position, so no existing cell is merged away.
+    const laneCount = Math.max(1, ...state.columns.map((column) => column.cells.length));
+    dispatch({ type: "ENABLE_SWIMLANES", laneIds: Array.from({ length: laneCount }, () => createId()) });
+  }, [dispatch, state.columns, state.swimlanes]);
+
+  const handleAddSwimlane = useCallback(() => {
+    dispatch({
+      type: "ADD_SWIMLANE",
+      laneId: createId(),
+      title: t.defaults.newLane((stateRef.current.swimlanes?.length ?? 0) + 1),
     });
-  }, []);
+  }, [dispatch, t]);
+
+  const handleUpdateSwimlane = useCallback(
+    (laneId: string, changes: { title?: string; collapsed?: boolean }) => {
+      dispatch({ type: "UPDATE_SWIMLANE", laneId, ...changes });
+    },
+    [dispatch],
+  );
+
+  const handleMoveSwimlane = useCallback(
+    (laneId: string, toIndex: number) => {
+      dispatch({ type: "MOVE_SWIMLANE", laneId, toIndex });
+    },
+    [dispatch],
+  );
+
+  const handleDeleteSwimlane = useCallback(
+    (laneId: string) => {
+      const trashId = createId();
+      dispatch({ type: "DELETE_SWIMLANE", laneId, trashId, now: new Date().toISOString() });
+      setNotice({ kind: "trash", trashIds: [trashId] });
+    },
+    [dispatch],
+  );
+
+  const handleUpdateColumnTitle = useCallback(
+    (columnId: string, title: string) => {
+      dispatch({ type: "UPDATE_COLUMN_TITLE", columnId, title });
+    },
+    [dispatch],
+  );
+
+  const handleUpdateCellTitle = useCallback(
+    (cellId: string, title: string) => {
+      dispatch({ type: "UPDATE_CELL_TITLE", cellId, title });
+    },
+    [dispatch],
+  );
 
-  const handleDragEnd = useCallback((result: DropResult) => {
-    const { source, destination, type } = result;
-    if (!destination) {
+  // Reports a WIP limit that a task arriving in the destination cell would break. Returns false
+  // when the board's policy is to block, in which case the caller drops the change.
+  // For a bulk move, sourceCellId lists the cell each of the tasks comes from.
+  const checkWipLimit = useCallback(
+    (destinationCellId: string, sourceCellId?: string | string[]) => {
+      const board = stateRef.current;
+      const violation = Array.isArray(sourceCellId)
+        ? findBulkWipViolation(board, destinationCellId, sourceCellId)
+        : findWipViolation(board, destinationCellId, sourceCellId);
+      if (!violation) {
+        return true;
+      }
+      const blocked = getWipPolicy(board) === "block";
+      setNotice({ kind: "wip", message: describeWipViolation(violation, t), blocked });
+      return !blocked;
+    },
+    [t],
+  );
+
+  useEffect(() => {
+    if (!notice) {
       return;
     }
+    const timeout = window.setTimeout(() => setNotice(null), NOTICE_TIMEOUT_MS);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [notice]);
 
-    if (type === "CELL") {
-      setState((prev) => {
-        const sourceColumnId = parseCellsDroppableId(source.droppableId);
-        const destinationColumnId = parseCellsDroppableId(destination.droppableId);
-        if (!sourceColumnId || !destinationColumnId) {
-          return prev;
-        }
+  const handleSetColumnWipLimit = useCallback(
+    (columnId: string, limit: number | null) => {
+      dispatch({ type: "SET_COLUMN_WIP_LIMIT", columnId, limit });
+    },
+    [dispatch],
+  );
 
-        const sourceColumnIndex = prev.columns.findIndex((column) => column.id === sourceColumnId);
-        const destinationColumnIndex = prev.columns.findIndex(
-          (column) => column.id === destinationColumnId,
-        );
-        if (sourceColumnIndex === -1 || destinationColumnIndex === -1) {
-          return prev;
-        }
+  const handleSetCellWipLimit = useCallback(
+    (cellId: string, limit: number | null) => {
+      dispatch({ type: "SET_CELL_WIP_LIMIT", cellId, limit });
+    },
+    [dispatch],
+  );
+
+  const handleSetWipPolicy = useCallback(
+    (policy: WipPolicy) => {
+      dispatch({ type: "SET_WIP_POLICY", policy });
+    },
+    [dispatch],
+  );
+
+  const handleAddTask = useCallback(
+    (cellId: string, title: string) => {
+      if (!checkWipLimit(cellId)) {
+        return;
+      }
+      dispatchTaskArrival({
+        type: "ADD_TASK",
+        cellId,
+        taskId: createId(),
+        title,
+        now: new Date().toISOString(),
+      });
+    },
+    [checkWipLimit, dispatchTaskArrival],
+  );
+
+  const handleRemoveTask = useCallback(
+    (cellId: string, taskId: string) => {
+      const trashId = createId();
+      dispatch({ type: "REMOVE_TASK", cellId, taskId, trashId, now: new Date().toISOString() });
+      setNotice({ kind: "trash", trashIds: [trashId] });
+    },
+    [dispatch],
+  );
+
+  const handleRestoreTrash = useCallback(
+    (trashId: string, targetId?: string) => {
+      dispatch({ type: "RESTORE_TRASH", trashId, targetId, now: new Date().toISOString() });
+    },
+    [dispatch],
+  );
+
+  const handlePurgeTrash = useCallback(
+    (trashIds: string[]) => {
+      dispatch({ type: "PURGE_TRASH", trashIds });
+    },
+    [dispatch],
+  );
+
+  const handleArchiveTasks = useCallback(
+    (taskIds: string[]) => {
+      if (taskIds.length > 0) {
+        dispatch({ type: "ARCHIVE_TASKS", taskIds, now: new Date().toISOString() });
+      }
+    },
+    [dispatch],
+  );
+
+  const handleRestoreArchivedTask = useCallback(
+    (taskId: string, targetCellId?: string) => {
+      dispatch({ type: "RESTORE_ARCHIVED_TASK", taskId, targetCellId, now: new Date().toISOString() });
+    },
+    [dispatch],
+  );
+
+  const handleOpenTask = useCallback((cellId: string, taskId: string) => {
+    setDetailTaskKey({ cellId, taskId });
+  }, []);
+
+  const selectedTasks = useMemo(() => getSelectedTasks(state, selectedTaskIds), [selectedTaskIds, state]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedTaskIds((current) => (current.size === 0 ? current : new Set()));
+  }, []);
 
-        if (sourceColumnIndex === destinationColumnIndex) {
-          const column = prev.columns[sourceColumnIndex];
-          const nextCells = arrayMove(column.cells, source.index, destination.index);
-          if (nextCells === column.cells) {
-            return prev;
+  // Ctrl or Cmd toggles one task, Shift adds everything from the last picked task, in board order
+  // and across cells. A plain click opens the task and drops the selection.
+  const handleClickTask = useCallback(
+    (cellId: string, taskId: string, event: ReactMouseEvent<HTMLDivElement>) => {
+      const anchorId = selectionAnchorRef.current;
+      if (event.shiftKey && anchorId) {
+        const range = getTaskRange(stateRef.current, anchorId, taskId);
+        setSelectedTaskIds((current) => new Set([...current, ...range]));
+        return;
+      }
+      selectionAnchorRef.current = taskId;
+      if (event.shiftKey || event.ctrlKey || event.metaKey) {
+        setSelectedTaskIds((current) => {
+          const next = new Set(current);
+          if (!next.delete(taskId)) {
+            next.add(taskId);
           }
-          const nextColumns = [...prev.columns];
-          nextColumns[sourceColumnIndex] = { ...column, cells: nextCells };
-          return {
-            columns: nextColumns,
-            tasksByCell: prev.tasksByCell,
-          };
-        }
+          return next;
+        });
+        return;
+      }
+      clearSelection();
+      handleOpenTask(cellId, taskId);
+    },
+    [clearSelection, handleOpenTask],
+  );
+
+  // destinationIndex counts the destination's tasks outside the selection.
+  const handleMoveSelection = useCallback(
+    (destinationCellId: string, destinationIndex: number) => {
+      if (!checkWipLimit(destinationCellId, selectedTasks.map((item) => item.cellId))) {
+        return;
+      }
+      dispatchTaskArrival({
+        type: "MOVE_TASKS",
+        taskIds: selectedTasks.map((item) => item.task.id),
+        destinationCellId,
+        destinationIndex,
+        now: new Date().toISOString(),
+      });
+    },
+    [checkWipLimit, dispatchTaskArrival, selectedTasks],
+  );
 
-        const nextColumns = prev.columns.map((column) => ({ ...column, cells: [...column.cells] }));
-        const [movedCell] = nextColumns[sourceColumnIndex].cells.splice(source.index, 1);
-        if (!movedCell) {
-          return prev;
+  const handleMoveSelectionToCell = useCallback(
+    (cellId: string) => {
+      const remaining = (state.tasksByCell[cellId] ?? []).filter((task) => !selectedTaskIds.has(task.id));
+      handleMoveSelection(cellId, remaining.length);
+    },
+    [handleMoveSelection, selectedTaskIds, state.tasksByCell],
+  );
+
+  const handleDeleteSelection = useCallback(() => {
+    const now = new Date().toISOString();
+    const trashIds = selectedTasks.map(() => createId());
+    beginBatch();
+    selectedTasks.forEach(({ cellId, task }, index) => {
+      dispatch({ type: "REMOVE_TASK", cellId, taskId: task.id, trashId: trashIds[index], now });
+    });
+    endBatch();
+    setNotice({ kind: "trash", trashIds });
+    clearSelection();
+  }, [beginBatch, clearSelection, dispatch, endBatch, selectedTasks]);
+
+  const handleRenameSelection = useCallback(
+    (find: string, replacement: string) => {
+      const now = new Date().toISOString();
+      beginBatch();
+      for (const { cellId, task } of selectedTasks) {
+        const title = replaceInTitle(task.title, find, replacement);
+        if (title) {
+          dispatch({ type: "UPDATE_TASK", cellId, taskId: task.id, changes: { title }, now });
         }
-        const targetCells = nextColumns[destinationColumnIndex].cells;
-        const insertIndex = clamp(destination.index, 0, targetCells.length);
-        targetCells.splice(insertIndex, 0, movedCell);
-        return {
-          columns: nextColumns,
-          tasksByCell: prev.tasksByCell,
-        };
+      }
+      endBatch();
+    },
+    [beginBatch, dispatch, endBatch, selectedTasks],
+  );
+
+  // Adds an untitled task and opens it, for commands that can't ask for a title inline.
+  const handleCreateTask = useCallback(
+    (cellId: string) => {
+      if (!checkWipLimit(cellId)) {
+        return;
+      }
+      const taskId = createId();
+      dispatchTaskArrival({
+        type: "ADD_TASK",
+        cellId,
+        taskId,
+        title: t.defaults.newTask,
+        now: new Date().toISOString(),
       });
-      return;
+      setDetailTaskKey({ cellId, taskId });
+    },
+    [checkWipLimit, dispatchTaskArrival, t],
+  );
+
+  useEffect(() => {
+    if (pendingFocusRef.current) {
+      focusBoardItem(pendingFocusRef.current);
+      pendingFocusRef.current = null;
     }
+  }, [state]);
 
-    if (type === "TASK") {
-      setState((prev) => {
-        const sourceCellId = parseTasksDroppableId(source.droppableId);
-        const destinationCellId = parseTasksDroppableId(destination.droppableId);
-        if (!sourceCellId || !destinationCellId) {
-          return prev;
-        }
+  // Arrow keys move focus between cells and tasks; with Alt they move the focused item instead.
+  const handleBoardKeyDown = useCallback(
+    (event: ReactKeyboardEvent<HTMLDivElement>) => {
+      const target = event.target as HTMLElement;
+      if (
+        event.defaultPrevented ||
+        isDraggingRef.current ||
+        event.ctrlKey ||
+        event.metaKey ||
+        target.closest("input, textarea, select, [contenteditable='true'], [role='separator']")
+      ) {
+        return;
+      }
+      const cellId = target.closest<HTMLElement>("[data-cell-id]")?.dataset.cellId;
+      if (!cellId) {
+        return;
+      }
+      const taskElement = target.closest<HTMLElement>("[data-task-id]");
+      const focus: BoardFocus = taskElement?.dataset.taskId
+        ? { kind: "task", cellId, taskId: taskElement.dataset.taskId }
+        : { kind: "cell", cellId };
 
-        const sourceTasks = prev.tasksByCell[sourceCellId] ? [...prev.tasksByCell[sourceCellId]] : [];
-        const [movedTask] = sourceTasks.splice(source.index, 1);
-        if (!movedTask) {
-          return prev;
+      if (event.key === "Enter" && focus.kind === "task" && target === taskElement) {
+        event.preventDefault();
+        handleOpenTask(cellId, focus.taskId);
+        return;
+      }
+
+      const direction = ARROW_DIRECTIONS[event.key];
+      if (!direction) {
+        return;
+      }
+      event.preventDefault();
+
+      if (!event.altKey) {
+        const next = getNextFocus(
+          state,
+          focus,
+          direction,
+          (taskId) => filter.mode !== "hide" || !filterResult || filterResult.matchingTaskIds.has(taskId),
+        );
+        if (next) {
+          focusBoardItem(next);
         }
+        return;
+      }
 
-        const nextTasksByCell = { ...prev.tasksByCell };
-        if (sourceCellId === destinationCellId) {
-          const insertIndex = clamp(destination.index, 0, sourceTasks.length);
-          sourceTasks.splice(insertIndex, 0, movedTask);
-          nextTasksByCell[sourceCellId] = sourceTasks;
+      if (focus.kind === "cell" && state.swimlanes) {
+        return;
+      }
+      const action =
+        focus.kind === "task"
+          ? getTaskMoveAction(state, cellId, focus.taskId, direction, new Date().toISOString())
+          : getCellMoveAction(state, cellId, direction);
+      if (action?.type === "MOVE_TASK" && !checkWipLimit(action.destinationCellId, action.sourceCellId)) {
+        return;
+      }
+      if (action) {
+        pendingFocusRef.current =
+          action.type === "MOVE_TASK" && focus.kind === "task"
+            ? { ...focus, cellId: action.destinationCellId }
+            : focus;
+        if (action.type === "MOVE_TASK") {
+          dispatchTaskArrival(action);
         } else {
-          nextTasksByCell[sourceCellId] = sourceTasks;
-          const targetTasks = nextTasksByCell[destinationCellId]
-            ? [...nextTasksByCell[destinationCellId]]
-            : [];
-          const insertIndex = clamp(destination.index, 0, targetTasks.length);
-          targetTasks.splice(insertIndex, 0, movedTask);
-          nextTasksByCell[destinationCellId] = targetTasks;
+          dispatch(action);
         }
+      }
+    },
+    [checkWipLimit, dispatch, dispatchTaskArrival, filter.mode, filterResult, handleOpenTask, state],
+  );
 
-        return {
-          columns: prev.columns,
-          tasksByCell: nextTasksByCell,
-        };
-      });
-    }
+  const handleCloseTask = useCallback(() => {
+    setDetailTaskKey(null);
   }, []);
 
-  const handleResizeStart = useCallback(
-    (columnIndex: number, cellIndex: number, event: ReactPointerEvent<HTMLDivElement>) => {
-      event.preventDefault();
-      event.stopPropagation();
+  const handleSaveTask = useCallback(
+    (changes: TaskChanges) => {
+      if (!detailTaskKey) {
+        return;
+      }
+      dispatch({ type: "UPDATE_TASK", ...detailTaskKey, changes, now: new Date().toISOString() });
+    },
+    [dispatch, detailTaskKey],
+  );
 
-      const columnElement = columnRefs.current[columnIndex];
-      const column = state.columns[columnIndex];
-      if (!columnElement || !column) {
+  const handleArchiveDetailTask = useCallback(() => {
+    if (detailTaskKey) {
+      handleArchiveTasks([detailTaskKey.taskId]);
+      setDetailTaskKey(null);
+    }
+  }, [detailTaskKey, handleArchiveTasks]);
+
+  useEffect(() => {
+    setActivity(detailTaskKey ? { type: "edit-task", id: detailTaskKey.taskId } : null);
+  }, [detailTaskKey, setActivity]);
+
+  const peersByItemId = useMemo(
+    () =>
+      new Map(
+        peers.flatMap((peer): Array<[string, BoardPeer]> =>
+          peer.activity ? [[peer.activity.id, peer]] : [],
+        ),
+      ),
+    [peers],
+  );
+
+  const detailTask = detailTaskKey
+    ? (state.tasksByCell[detailTaskKey.cellId]?.find((task) => task.id === detailTaskKey.taskId) ?? null)
+    : null;
+  const detailEvents = useMemo(
+    () => (detailTaskKey ? getTaskEvents(state, detailTaskKey.taskId) : []),
+    [detailTaskKey, state],
+  );
+  const cellLabels = useMemo(() => getCellLabels(state), [state]);
+  const trashNoticeEntries = useMemo(() => {
+    if (notice?.kind !== "trash") {
+      return [];
+    }
+    const trashIds = new Set(notice.trashIds);
+    return (state.trash ?? []).filter((entry) => trashIds.has(entry.id));
+  }, [notice, state.trash]);
+
+  // Entries go back newest first, so tasks deleted together get their old positions back.
+  const handleRestoreTrashNotice = useCallback(() => {
+    beginBatch();
+    [...trashNoticeEntries].reverse().forEach((entry) => handleRestoreTrash(entry.id));
+    endBatch();
+    setNotice(null);
+  }, [beginBatch, endBatch, handleRestoreTrash, trashNoticeEntries]);
+
+  const handleDragEnd = useCallback(
+    (result: DropResult) => {
+      const { source, destination, type } = result;
+
+      stopQuadrantTrackingRef.current?.();
+      stopQuadrantTrackingRef.current = null;
+      const dropTarget = quadrantTargetRef.current;
+      updateQuadrantTarget(null);
+      isDraggingRef.current = false;
+      setActivity(null);
+
+      if (type === "CELL" && dropTarget && result.reason === "DROP") {
+        dispatch({
+          type: "DROP_CELL",
+          cellId: result.draggableId,
+          target: dropTarget,
+          newColumnId: createId(),
+          newColumnTitle: t.defaults.newColumn(stateRef.current.columns.length + 1),
+        });
         return;
       }
 
-      const topCell = column.cells[cellIndex];
-      const bottomCell = column.cells[cellIndex + 1];
-      if (!topCell || !bottomCell) {
+      if (!destination) {
         return;
       }
 
-      const topElement = columnElement.querySelector<HTMLElement>(`[data-cell-id="${topCell.id}"]`);
-      const bottomElement = columnElement.querySelector<HTMLElement>(
-        `[data-cell-id="${bottomCell.id}"]`,
-      );
-      if (!topElement || !bottomElement) {
+      if (type === "COLUMN") {
+        dispatch({ type: "MOVE_COLUMN", columnId: result.draggableId, toIndex: destination.index });
         return;
       }
 
-      const topRect = topElement.getBoundingClientRect();
-      const bottomRect = bottomElement.getBoundingClientRect();
-      const totalHeightPx = topRect.height + bottomRect.height;
-      if (totalHeightPx <= 0) {
+      if (type === "CELL") {
+        const sourceColumnId = parseCellsDroppableId(source.droppableId);
+        const destinationColumnId = parseCellsDroppableId(destination.droppableId);
+        if (!sourceColumnId || !destinationColumnId) {
+          return;
+        }
+        dispatch({
+          type: "MOVE_CELL",
+          cellId: result.draggableId,
+          sourceColumnId,
+          destinationColumnId,
+          destinationIndex: destination.index,
+        });
         return;
       }
 
-      const totalHeightWeight = topCell.height + bottomCell.height;
-      const startY = event.clientY;
-      const minHeightPx = Math.min(CELL_MIN_HEIGHT_PX, totalHeightPx / 2);
-      const minRatio = minHeightPx / totalHeightPx;
+      if (type === "TASK") {
+        const sourceCellId = parseTasksDroppableId(source.droppableId);
+        const destinationCellId = parseTasksDroppableId(destination.droppableId);
+        if (!sourceCellId || !destinationCellId) {
+          return;
+        }
+        if (selectedTasks.length > 1 && selectedTaskIds.has(result.draggableId)) {
+          handleMoveSelection(
+            destinationCellId,
+            getSelectionDropIndex(
+              state.tasksByCell[destinationCellId] ?? [],
+              result.draggableId,
+              destination.index,
+              selectedTaskIds,
+            ),
+          );
+          return;
+        }
+        if (!checkWipLimit(destinationCellId, sourceCellId)) {
+          return;
+        }
+        dispatchTaskArrival({
+          type: "MOVE_TASK",
+          taskId: result.draggableId,
+          sourceCellId,
+          destinationCellId,
+          destinationIndex: destination.index,
+          now: new Date().toISOString(),
+        });
+      }
+    },
+    [
+      checkWipLimit,
+      dispatch,
+      dispatchTaskArrival,
+      handleMoveSelection,
+      selectedTaskIds,
+      selectedTasks.length,
+      setActivity,
+      state.tasksByCell,
+      t,
+      updateQuadrantTarget,
+    ],
+  );
+
+  // Measures two neighbouring cells so pixel drags and key steps can be turned into weights.
+  const measureCellPair = useCallback((columnId: string, cellId: string) => {
+    const column = stateRef.current.columns.find((item) => item.id === columnId);
+    const cellIndex = column ? column.cells.findIndex((cell) => cell.id === cellId) : -1;
+    const topCell = column?.cells[cellIndex];
+    const bottomCell = column?.cells[cellIndex + 1];
+    if (!column || !topCell || !bottomCell) {
+      return null;
+    }
+
+    const topElement = document.querySelector<HTMLElement>(`[data-cell-id="${CSS.escape(topCell.id)}"]`);
+    const bottomElement = document.querySelector<HTMLElement>(
+      `[data-cell-id="${CSS.escape(bottomCell.id)}"]`,
+    );
+    if (!topElement || !bottomElement) {
+      return null;
+    }
+
+    const topHeightPx = topElement.getBoundingClientRect().height;
+    const totalHeightPx = topHeightPx + bottomElement.getBoundingClientRect().height;
+    if (totalHeightPx <= 0) {
+      return null;
+    }
+    return { column, topCell, topHeightPx, totalHeightPx, totalWeight: topCell.height + bottomCell.height };
+  }, []);
+
+  const measureColumnPair = useCallback((columnId: string) => {
+    const columns = stateRef.current.columns;
+    const columnIndex = columns.findIndex((column) => column.id === columnId);
+    const leftColumn = columns[columnIndex];
+    const rightColumn = columns[columnIndex + 1];
+    const leftElement =
+      leftColumn && document.querySelector<HTMLElement>(`[data-column-id="${CSS.escape(leftColumn.id)}"]`);
+    const rightElement =
+      rightColumn && document.querySelector<HTMLElement>(`[data-column-id="${CSS.escape(rightColumn.id)}"]`);
+    if (!leftColumn || !rightColumn || !leftElement || !rightElement) {
+      return null;
+    }
+
+    const leftWidthPx = leftElement.getBoundingClientRect().width;
+    const totalWidthPx = leftWidthPx + rightElement.getBoundingClientRect().width;
+    if (totalWidthPx <= 0) {
+      return null;
+    }
+    return { leftColumn, leftWidthPx, totalWidthPx, totalWeight: leftColumn.width + rightColumn.width };
+  }, []);
+
+  // A separator drag only previews the new sizes, at most once a frame, and commits them as one
+  // action when the pointer is released, so the board, its history and other viewers see one
+  // change per drag.
+  const trackResizeDrag = useCallback(
+    (cursor: string, getAction: (moveEvent: PointerEvent) => ResizeAction) => {
+      let latest: ResizeAction | null = null;
+      let frame = 0;
 
       const handlePointerMove = (moveEvent: PointerEvent) => {
-        const deltaY = moveEvent.clientY - startY;
-        const nextTopPx = clamp(topRect.height + deltaY, minHeightPx, totalHeightPx - minHeightPx);
-        const ratio = clamp(nextTopPx / totalHeightPx, minRatio, 1 - minRatio);
-        const nextTopHeight = totalHeightWeight * ratio;
-        const nextBottomHeight = totalHeightWeight - nextTopHeight;
-
-        setState((prev) => {
-          const nextColumns = prev.columns.map((prevColumn, index) => {
-            if (index !== columnIndex) {
-              return prevColumn;
-            }
-            return {
-              ...prevColumn,
-              cells: prevColumn.cells.map((cell, idx) => {
-                if (idx === cellIndex) {
-                  return { ...cell, height: nextTopHeight };
-                }
-                if (idx === cellIndex + 1) {
-                  return { ...cell, height: nextBottomHeight };
-                }
-                return cell;
-              }),
-            };
+        latest = getAction(moveEvent);
+        if (!frame) {
+          frame = window.requestAnimationFrame(() => {
+            frame = 0;
+            setResizePreview(latest);
           });
-          return {
-            columns: nextColumns,
-            tasksByCell: prev.tasksByCell,
-          };
-        });
+        }
       };
 
       const handlePointerUp = () => {
+        window.cancelAnimationFrame(frame);
+        setResizePreview(null);
+        if (latest) {
+          dispatch(latest);
+        }
         document.body.style.cursor = "";
         document.body.style.userSelect = "";
         window.removeEventListener("pointermove", handlePointerMove);
@@ -638,15 +1171,287 @@ const Board = () => {
         window.removeEventListener("pointercancel", handlePointerUp);
       };
 
-      document.body.style.cursor = "row-resize";
+      document.body.style.cursor = cursor;
       document.body.style.userSelect = "none";
       window.addEventListener("pointermove", handlePointerMove);
       window.addEventListener("pointerup", handlePointerUp);
       window.addEventListener("pointercancel", handlePointerUp);
     },
-    [state.columns],
+    [dispatch],
+  );
+
+  const handleResizeStart = useCallback(
+    (columnId: string, cellId: string, event: ReactPointerEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const pair = measureCellPair(columnId, cellId);
+      if (!pair) {
+        return;
+      }
+      const startY = event.clientY;
+      trackResizeDrag("row-resize", (moveEvent) => ({
+        type: "RESIZE_CELLS",
+        columnId: pair.column.id,
+        cellId: pair.topCell.id,
+        heights: resizePairWeights(
+          pair.topHeightPx,
+          pair.totalHeightPx,
+          pair.totalWeight,
+          moveEvent.clientY - startY,
+          CELL_MIN_HEIGHT_PX * zoom,
+        ),
+      }));
+    },
+    [measureCellPair, trackResizeDrag, zoom],
+  );
+
+  const handleResizeKey = useCallback(
+    (columnId: string, cellId: string, event: ReactKeyboardEvent<HTMLDivElement>) => {
+      const delta = getResizeKeyDelta(event, "ArrowUp", "ArrowDown");
+      const pair = delta === 0 ? null : measureCellPair(columnId, cellId);
+      if (!pair) {
+        return;
+      }
+      event.preventDefault();
+      dispatch({
+        type: "RESIZE_CELLS",
+        columnId: pair.column.id,
+        cellId: pair.topCell.id,
+        heights: resizePairWeights(
+          pair.topHeightPx,
+          pair.totalHeightPx,
+          pair.totalWeight,
+          delta,
+          CELL_MIN_HEIGHT_PX * zoom,
+        ),
+      });
+    },
+    [dispatch, measureCellPair, zoom],
+  );
+
+  const handleColumnResizeStart = useCallback(
+    (columnId: string, event: ReactPointerEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const pair = measureColumnPair(columnId);
+      if (!pair) {
+        return;
+      }
+      const startX = event.clientX;
+      trackResizeDrag("col-resize", (moveEvent) => ({
+        type: "RESIZE_COLUMNS",
+        columnId: pair.leftColumn.id,
+        widths: resizePairWeights(
+          pair.leftWidthPx,
+          pair.totalWidthPx,
+          pair.totalWeight,
+          moveEvent.clientX - startX,
+          COLUMN_MIN_WIDTH_PX * zoom,
+        ),
+      }));
+    },
+    [measureColumnPair, trackResizeDrag, zoom],
+  );
+
+  const handleColumnResizeKey = useCallback(
+    (columnId: string, event: ReactKeyboardEvent<HTMLDivElement>) => {
+      const delta = getResizeKeyDelta(event, "ArrowLeft", "ArrowRight");
+      const pair = delta === 0 ? null : measureColumnPair(columnId);
+      if (!pair) {
+        return;
+      }
+      event.preventDefault();
+      dispatch({
+        type: "RESIZE_COLUMNS",
+        columnId: pair.leftColumn.id,
+        widths: resizePairWeights(
+          pair.leftWidthPx,
+          pair.totalWidthPx,
+          pair.totalWeight,
+          delta,
+          COLUMN_MIN_WIDTH_PX * zoom,
+        ),
+      });
+    },
+    [dispatch, measureColumnPair, zoom],
+  );
+
+  const handleExportBoard = useCallback(
+    (format: string) => {
+      if (format === "csv") {
+        // The BOM lets spreadsheet apps detect UTF-8 so Korean titles survive.
+        downloadTextFile(timestampedFileName("tasks", "csv"), `\uFEFF${exportTasksCsv(state)}`, "text/csv");
+      } else if (format === "markdown") {
+        downloadTextFile(timestampedFileName("board", "md"), exportBoardMarkdown(state), "text/markdown");
+      } else {
+        downloadTextFile(timestampedFileName("board", "json"), exportBoardJson(state), "application/json");
+      }
+    },
+    [state],
+  );
+
+  const handleImportFile = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    const isMarkdown = /\.(md|markdown|txt)$/i.test(file.name);
+    file.text().then(
+      (raw) =>
+        setPendingImport({
+          fileName: file.name,
+          result: isMarkdown
+            ? {
+                ok: true,
+                board: parseBoardMarkdown(raw, createId, new Date().toISOString(), t),
+                repairedIssues: 0,
+              }
+            : parseBoardJson(raw, createId, t),
+        }),
+      () => setPendingImport({ fileName: file.name, result: { ok: false, error: t.board.unreadableFile } }),
+    );
+  }, [t]);
+
+  const handleConfirmImport = useCallback(
+    (mode: BoardImportMode) => {
+      const result = pendingImport?.result;
+      if (result?.ok) {
+        replaceBoard(importBoard(state, result.board, mode));
+      }
+      setPendingImport(null);
+    },
+    [pendingImport, replaceBoard, state],
+  );
+
+  const handleCancelImport = useCallback(() => {
+    setPendingImport(null);
+  }, []);
+
+  const boardIssues = useMemo(() => validateBoard(state, t), [state, t]);
+
+  const handleRepairBoard = useCallback(() => {
+    replaceBoard(repairBoard(state, createId));
+  }, [replaceBoard, state]);
+
+  const commands = useMemo<BoardCommand[]>(
+    () => [
+      { id: "add-column", label: t.commands.addColumn, run: handleAddColumn },
+      {
+        id: "toggle-swimlanes",
+        label: state.swimlanes ? t.commands.disableSwimlanes : t.commands.enableSwimlanes,
+        run: handleToggleSwimlanes,
+      },
+      ...(state.swimlanes ? [{ id: "add-swimlane", label: t.commands.addLane, run: handleAddSwimlane }] : []),
+      ...state.columns.flatMap((column): BoardCommand[] => [
+        ...(state.swimlanes
+          ? []
+          : [
+              {
+                id: `add-cell-${column.id}`,
+                label: t.commands.addCell(column.title),
+                run: () => handleAddCell(column.id),
+              },
+            ]),
+        {
+          id: `move-column-${column.id}`,
+          label: t.commands.moveColumn(column.title),
+          run: () => setMoveSubject({ kind: "column", id: column.id, title: column.title }),
+        },
+        {
+          id: `focus-column-${column.id}`,
+          label: t.commands.goToColumn(column.title),
+          run: () => column.cells[0] && focusBoardItem({ kind: "cell", cellId: column.cells[0].id }),
+        },
+      ]),
+      ...state.columns.flatMap((column) =>
+        column.cells.map(
+          (cell): BoardCommand => ({
+            id: `add-task-${cell.id}`,
+            label: t.commands.addTask(`${column.title} / ${cell.title}`),
+            run: () => handleCreateTask(cell.id),
+          }),
+        ),
+      ),
+      { id: "undo", label: t.commands.undo, hint: "Ctrl+Z", run: handleUndo },
+      { id: "redo", label: t.commands.redo, hint: "Ctrl+Shift+Z", run: handleRedo },
+      { id: "export-json", label: t.commands.exportJson, run: () => handleExportBoard("json") },
+      { id: "export-csv", label: t.commands.exportCsv, run: () => handleExportBoard("csv") },
+      {
+        id: "export-markdown",
+        label: t.commands.exportMarkdown,
+        run: () => handleExportBoard("markdown"),
+      },
+      { id: "import", label: t.commands.import, run: () => importInputRef.current?.click() },
+      { id: "repair", label: t.commands.repair, run: handleRepairBoard },
+      ...(Object.keys(t.wip.policy) as WipPolicy[]).map(
+        (policy): BoardCommand => ({
+          id: `wip-policy-${policy}`,
+          label: t.commands.wipPolicy(t.wip.policy[policy]),
+          run: () => handleSetWipPolicy(policy),
+        }),
+      ),
+      { id: "zoom-in", label: t.commands.zoomIn, run: () => handleSetZoom("in") },
+      { id: "zoom-out", label: t.commands.zoomOut, run: () => handleSetZoom("out") },
+      { id: "zoom-reset", label: t.commands.zoomReset, run: () => handleSetZoom(1) },
+      { id: "zoom-fit", label: t.commands.zoomFit, run: () => handleSetZoom("fit") },
+      ...state.columns.map(
+        (column): BoardCommand => ({
+          id: `toggle-column-${column.id}`,
+          label: (column.collapsed ? t.commands.expandColumn : t.commands.collapseColumn)(column.title),
+          run: () => handleSetColumnCollapsed(column.id, !column.collapsed),
+        }),
+      ),
+      { id: "metrics", label: t.commands.metrics, run: () => setIsMetricsOpen(true) },
+      { id: "trash", label: t.commands.trash, run: () => setIsTrashOpen(true) },
+      { id: "automations", label: t.commands.automations, run: () => setIsAutomationOpen(true) },
+      {
+        id: "archive-completed",
+        label: t.commands.archiveCompleted,
+        run: () => handleArchiveTasks(getCompletedTaskIds(state)),
+      },
+      { id: "search", label: t.commands.search, hint: "/", run: () => searchInputRef.current?.focus() },
+      { id: "shortcuts", label: t.commands.shortcuts, hint: "?", run: () => setIsShortcutsOpen(true) },
+    ],
+    [
+      handleAddCell,
+      handleAddColumn,
+      handleAddSwimlane,
+      handleArchiveTasks,
+      handleCreateTask,
+      handleExportBoard,
+      handleRedo,
+      handleRepairBoard,
+      handleSetColumnCollapsed,
+      handleSetWipPolicy,
+      handleSetZoom,
+      handleToggleSwimlanes,
+      handleUndo,
+      state,
+      t,
+    ],
   );
 
+  // Widths are recomputed from the measured container so the weights track window resizes. They are
+  // in the zoomed board's own pixels, so zooming out leaves more of them to share. Collapsed columns
+  // keep a fixed strip and the rest share what is left.
+  const columnWidthsPx = useMemo(() => {
+    const expanded = shownColumns.filter((column) => !column.collapsed);
+    const widths = distributeWidths(
+      expanded.map((column) => column.width),
+      columnsContainerRect.width / zoom -
+        COLUMN_GAP_PX * Math.max(shownColumns.length - 1, 0) -
+        COLLAPSED_COLUMN_WIDTH_PX * (shownColumns.length - expanded.length) -
+        (state.swimlanes ? SWIMLANE_GUTTER_WIDTH_PX + COLUMN_GAP_PX : 0),
+      COLUMN_MIN_WIDTH_PX,
+    );
+    return shownColumns.map((column) =>
+      column.collapsed ? COLLAPSED_COLUMN_WIDTH_PX : widths[expanded.indexOf(column)],
+    );
+  }, [columnsContainerRect.width, shownColumns, state.swimlanes, zoom]);
+
   return (
     <Box
       w="100%"
@@ -656,146 +1461,406 @@ const Board = () => {
       display="flex"
       flexDirection="column"
     >
-      <Flex justify="space-between" align="center" mb={4}>
-        <Heading size="lg">작업 보드</Heading>
-        <Button
-          colorScheme="blue"
-          onClick={handleAddColumn}
-          display="inline-flex"
-          alignItems="center"
+      <Flex justify="space-between" align="center" gap={3} wrap="wrap" mb={4}>
+        <Flex align="center" gap={3} minW="0">
+          <Link href="/" aria-label={t.board.backToList}>
+            <ArrowBackIcon />
+          </Link>
+          <Heading size="lg">{boardName}</Heading>
+          <Text
+            fontSize="sm"
+            color={syncError ? { base: "red.600", _dark: "red.300" } : { base: "gray.500", _dark: "gray.400" }}
+            role="status"
+          >
+            {syncError ? t.sync.errors[syncError] : syncStatus === "saving" ? t.sync.saving : t.sync.saved}
+          </Text>
+        </Flex>
+        <Flex align="center" gap={2}>
+          <PresenceBar self={collaborator} peers={peers} onRename={renameCollaborator} />
+          <ThemeSwitcher />
+          <LanguageSwitcher />
+          <IconButton
+            variant="ghost"
+            aria-label={t.board.shortcuts}
+            title={t.board.shortcutsTitle}
+            onClick={() => setIsShortcutsOpen(true)}
+          >
+            ?
+          </IconButton>
+          <Button variant="ghost" onClick={handleUndo} disabled={!canUndo} title="Ctrl+Z">
+            {t.board.undo}
+          </Button>
+          <Button variant="ghost" onClick={handleRedo} disabled={!canRedo} title="Ctrl+Shift+Z">
+            {t.board.redo}
+          </Button>
+          <NativeSelect.Root size="sm" width="150px">
+            <NativeSelect.Field
+              value={getWipPolicy(state)}
+              onChange={(event) => handleSetWipPolicy(event.target.value as WipPolicy)}
+              aria-label={t.board.wipPolicy}
+            >
+              {(Object.keys(t.wip.policy) as WipPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {t.wip.policy[policy]}
+                </option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+          <Button variant="ghost" onClick={() => setIsMetricsOpen(true)}>
+            {t.board.metrics}
+          </Button>
+          <Button variant="ghost" onClick={() => setIsTrashOpen(true)}>
+            {t.board.trash}
+          </Button>
+          <Button variant="ghost" onClick={() => setIsAutomationOpen(true)}>
+            {t.board.automations}
+          </Button>
+          <Flex align="center" gap={1} role="group" aria-label={t.board.zoom}>
+            <IconButton
+              aria-label={t.board.zoomOut}
+              size="sm"
+              variant="ghost"
+              disabled={zoom <= MIN_BOARD_ZOOM}
+              onClick={() => handleSetZoom("out")}
+            >
+              <MinusIcon boxSize={3} />
+            </IconButton>
+            <Text fontSize="sm" minW="3em" textAlign="center" aria-live="polite">
+              {Math.round(zoom * 100)}%
+            </Text>
+            <IconButton
+              aria-label={t.board.zoomIn}
+              size="sm"
+              variant="ghost"
+              disabled={zoom >= MAX_BOARD_ZOOM}
+              onClick={() => handleSetZoom("in")}
+            >
+              <AddIcon boxSize={3} />
+            </IconButton>
+            <Button
+              size="sm"
+              variant={zoomSetting === "fit" ? "subtle" : "ghost"}
+              onClick={() => handleSetZoom(zoomSetting === "fit" ? 1 : "fit")}
+              aria-pressed={zoomSetting === "fit"}
+            >
+              {t.board.fitToScreen}
+            </Button>
+          </Flex>
+          <Button
+            variant={state.swimlanes ? "subtle" : "ghost"}
+            onClick={handleToggleSwimlanes}
+            aria-pressed={Boolean(state.swimlanes)}
+          >
+            {t.board.swimlanes}
+          </Button>
+          <Menu.Root onSelect={(details) => handleExportBoard(details.value)}>
+            <Menu.Trigger asChild>
+              <Button variant="outline">{t.board.export}</Button>
+            </Menu.Trigger>
+            <Portal>
+              <Menu.Positioner>
+                <Menu.Content>
+                  <Menu.Item value="json">{t.board.exportJson}</Menu.Item>
+                  <Menu.Item value="csv">{t.board.exportCsv}</Menu.Item>
+                  <Menu.Item value="markdown">{t.board.exportMarkdown}</Menu.Item>
+                </Menu.Content>
+              </Menu.Positioner>
+            </Portal>
+          </Menu.Root>
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            {t.board.import}
+          </Button>
+          <chakra.input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json,text/markdown,.md,.markdown,.txt"
+            display="none"
+            onChange={handleImportFile}
+          />
+          <Button
+            colorScheme="blue"
+            onClick={handleAddColumn}
+            display="inline-flex"
+            alignItems="center"
+            gap={2}
+          >
+            <AddIcon />
+            {t.board.addColumn}
+          </Button>
+        </Flex>
+      </Flex>
+
+      <BoardFilterBar
+        filter={filter}
+        result={filterResult}
+        savedFilters={savedFilters}
+        searchInputRef={searchInputRef}
+        onChange={setFilter}
+        onSave={saveFilter}
+        onDeleteSaved={deleteSavedFilter}
+      />
+      <BoardHealthBadges issues={boardIssues} onRepair={handleRepairBoard} />
+      {notice?.kind === "wip" && (
+        <Flex
+          align="center"
           gap={2}
+          mb={4}
+          px={3}
+          py={2}
+          borderRadius="md"
+          bg={
+            notice.blocked
+              ? { base: "red.50", _dark: "red.900" }
+              : { base: "orange.50", _dark: "orange.900" }
+          }
+          role="alert"
         >
-          <AddIcon />
-          컬럼 추가
-        </Button>
-      </Flex>
+          <Badge colorPalette={notice.blocked ? "red" : "orange"} variant="solid">
+            {notice.blocked ? t.notice.blocked : t.notice.wipWarning}
+          </Badge>
+          <Text fontSize="sm" flex="1">
+            {notice.message}
+          </Text>
+          <IconButton aria-label={t.common.dismiss} size="xs" variant="ghost" onClick={() => setNotice(null)}>
+            <SmallCloseIcon />
+          </IconButton>
+        </Flex>
+      )}
+      {trashNoticeEntries.length > 0 && (
+        <Flex
+          align="center"
+          gap={2}
+          mb={4}
+          px={3}
+          py={2}
+          borderRadius="md"
+          bg={{ base: "gray.100", _dark: "gray.800" }}
+          role="status"
+        >
+          <Badge variant="solid">{t.board.trash}</Badge>
+          <Text fontSize="sm" flex="1">
+            {trashNoticeEntries.length === 1
+              ? t.notice.trashed(describeTrashEntry(trashNoticeEntries[0], t))
+              : t.notice.trashedCount(trashNoticeEntries.length)}
+          </Text>
+          <Button size="xs" variant="outline" onClick={handleRestoreTrashNotice}>
+            {t.common.restore}
+          </Button>
+          <IconButton aria-label={t.common.dismiss} size="xs" variant="ghost" onClick={() => setNotice(null)}>
+            <SmallCloseIcon />
+          </IconButton>
+        </Flex>
+      )}
 
-      <DragDropContext onDragEnd={handleDragEnd}>
+      {notice?.kind === "moved" && (
         <Flex
-          gap={4}
-          align="stretch"
-          overflowX="auto"
-          overflowY="auto"
-          pb={4}
-          flex="1"
+          align="center"
+          gap={2}
+          mb={4}
+          px={3}
+          py={2}
+          borderRadius="md"
+          bg={{ base: "blue.50", _dark: "blue.900" }}
+          role="status"
         >
-          {state.columns.map((column, columnIndex) => (
-            <Box
-              key={column.id}
-              bg={{ base: "gray.100", _dark: "gray.900" }}
-              borderRadius="xl"
-              borderWidth="1px"
-              borderColor={{ base: "gray.200", _dark: "gray.700" }}
-              minW="320px"
-              maxW="340px"
-              flexShrink={0}
-              p={4}
-              display="flex"
-              flexDirection="column"
-              gap={4}
-              minH={`${COLUMN_MIN_HEIGHT}px`}
-              height="100%"
+          <Badge colorPalette="blue" variant="solid">
+            {t.notice.moved}
+          </Badge>
+          <Text fontSize="sm" flex="1">
+            {notice.message}
+          </Text>
+          <Link href={`/boards/${notice.boardId}`}>{t.notice.openBoard}</Link>
+          <IconButton aria-label={t.common.dismiss} size="xs" variant="ghost" onClick={() => setNotice(null)}>
+            <SmallCloseIcon />
+          </IconButton>
+        </Flex>
+      )}
+
+      <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <Droppable droppableId={COLUMNS_DROPPABLE_ID} type="COLUMN" direction="horizontal">
+          {(columnsProvided) => (
+            <Flex
+              ref={(node) => {
+                columnsProvided.innerRef(node);
+                columnsContainerRef.current = node;
+              }}
+              {...columnsProvided.droppableProps}
+              align="stretch"
+              overflowX="auto"
+              overflowY="auto"
+              pb={4}
+              flex="1"
+              onKeyDown={handleBoardKeyDown}
+              // Zooming each child rather than the container keeps the container's measured size unscaled.
+              css={{ "& > *": { zoom } }}
             >
-              <Flex align="center" justify="space-between" gap={3}>
-                <Box flex="1" minW="0">
-                  <InlineTitleInput
-                    value={column.title}
-                    fallback="무제 컬럼"
-                    onCommit={(next) => handleUpdateColumnTitle(column.id, next)}
-                    fontSize="lg"
-                    ariaLabel="컬럼 제목"
+              {state.swimlanes && (
+                <>
+                  <SwimlaneGutter
+                    lanes={state.swimlanes}
+                    heights={state.swimlanes.map((_, index) => shownColumns[0]?.cells[index]?.height ?? 1)}
+                    onAdd={handleAddSwimlane}
+                    onUpdate={handleUpdateSwimlane}
+                    onMove={handleMoveSwimlane}
+                    onDelete={handleDeleteSwimlane}
                   />
-                </Box>
-                <IconButton
-                  aria-label="컬럼 삭제"
-                  onClick={() => handleDeleteColumn(column.id)}
-                  variant="ghost"
-                  size="sm"
-                >
-                  <DeleteIcon />
-                </IconButton>
-              </Flex>
-
-              <Droppable droppableId={cellsDroppableId(column.id)} type="CELL">
-                {(provided) => (
-                  <Flex
-                    ref={(node) => {
-                      provided.innerRef(node);
-                      columnRefs.current[columnIndex] = node;
-                    }}
-                    {...provided.droppableProps}
-                    direction="column"
-                    gap={3}
-                    flex="1"
-                    minH="200px"
-                    position="relative"
-                  >
-                    {column.cells.map((cell, cellIndex) => (
-                      <Fragment key={cell.id}>
-                        <Draggable draggableId={cell.id} index={cellIndex}>
-                          {(draggableProvided, draggableSnapshot) => (
-                            <Box
-                              ref={draggableProvided.innerRef}
-                              {...draggableProvided.draggableProps}
-                              flex={`${cell.height} 1 0`}
-                              display="flex"
-                              flexDirection="column"
-                              minH={`${CELL_MIN_HEIGHT_PX}px`}
-                            >
-                              <CellCard
-                                cell={cell}
-                                tasks={state.tasksByCell[cell.id] ?? []}
-                                dragHandleProps={draggableProvided.dragHandleProps}
-                                isDragging={draggableSnapshot.isDragging}
-                                hasBottomNeighbor={cellIndex < column.cells.length - 1}
-                                onAddTask={handleAddTask}
-                                onRemoveTask={handleRemoveTask}
-                                onDeleteCell={() => handleDeleteCell(column.id, cell.id)}
-                                onUpdateCellTitle={handleUpdateCellTitle}
-                                onStartResize={(event) => handleResizeStart(columnIndex, cellIndex, event)}
-                              />
-                            </Box>
-                          )}
-                        </Draggable>
-                      </Fragment>
-                    ))}
-                    {provided.placeholder}
-                    {column.cells.length === 0 && (
-                      <Box
-                        flex="1"
-                        display="flex"
-                        alignItems="center"
-                        justifyContent="center"
-                        borderWidth="1px"
-                        borderRadius="lg"
-                        borderStyle="dashed"
-                        borderColor={{ base: "gray.300", _dark: "gray.600" }}
-                        py={6}
-                        textAlign="center"
-                        color={{ base: "gray.500", _dark: "gray.400" }}
+                  <Box w={`${COLUMN_GAP_PX}px`} flexShrink={0} />
+                </>
+              )}
+              {shownColumns.map((column, columnIndex) => {
+                const columnTaskCount = countColumnTasks(state, column);
+                const nextColumn = shownColumns[columnIndex + 1];
+                return (
+                  <Draggable key={column.id} draggableId={column.id} index={columnIndex}>
+                    {(columnProvided) => (
+                      <Flex
+                        ref={columnProvided.innerRef}
+                        {...columnProvided.draggableProps}
+                        style={unzoomDraggableStyle(columnProvided.draggableProps.style, zoom)}
+                        flexShrink={0}
                       >
-                        셀을 추가하거나 드롭하세요.
-                      </Box>
+                        {column.collapsed ? (
+                          <CollapsedColumn
+                            columnId={column.id}
+                            title={column.title}
+                            color={column.color}
+                            icon={column.icon}
+                            taskCount={columnTaskCount}
+                            isOverWipLimit={
+                              column.wipLimit !== undefined && columnTaskCount > column.wipLimit
+                            }
+                            dragHandleProps={columnProvided.dragHandleProps}
+                            onSetCollapsed={handleSetColumnCollapsed}
+                          />
+                        ) : (
+                          <BoardColumn
+                            column={column}
+                            tasksByCell={state.tasksByCell}
+                            swimlanes={state.swimlanes}
+                            taskCount={columnTaskCount}
+                            widthPx={columnWidthsPx[columnIndex] ?? COLUMN_MIN_WIDTH_PX}
+                            zoom={zoom}
+                            dragHandleProps={columnProvided.dragHandleProps}
+                            dropTarget={
+                              quadrantTarget && column.cells.some((cell) => cell.id === quadrantTarget.cellId)
+                                ? quadrantTarget
+                                : null
+                            }
+                            peersByItemId={peersByItemId}
+                            filterResult={filterResult}
+                            filterMode={filter.mode}
+                            selectedTaskIds={selectedTaskIds}
+                            selectionSize={selectedTasks.length}
+                            onUpdateTitle={handleUpdateColumnTitle}
+                            onSetWipLimit={handleSetColumnWipLimit}
+                            onSetCollapsed={handleSetColumnCollapsed}
+                            onSetAppearance={handleSetColumnAppearance}
+                            onMove={handleOpenMoveColumn}
+                            onDelete={handleDeleteColumn}
+                            onAddCell={handleAddCell}
+                            onAddTask={handleAddTask}
+                            onRemoveTask={handleRemoveTask}
+                            onClickTask={handleClickTask}
+                            onDeleteCell={handleDeleteCell}
+                            onMoveCell={handleOpenMoveCell}
+                            onUpdateCellTitle={handleUpdateCellTitle}
+                            onSetCellWipLimit={handleSetCellWipLimit}
+                            onSetCellCollapsed={handleSetCellCollapsed}
+                            onSetCellAppearance={handleSetCellAppearance}
+                            onStartCellResize={handleResizeStart}
+                            onCellResizeKey={handleResizeKey}
+                          />
+                        )}
+                        {nextColumn && (column.collapsed || nextColumn.collapsed) && (
+                          <Box w={`${COLUMN_GAP_PX}px`} flexShrink={0} />
+                        )}
+                        {nextColumn && !column.collapsed && !nextColumn.collapsed && (
+                          <Box
+                            w={`${COLUMN_GAP_PX}px`}
+                            flexShrink={0}
+                            display="flex"
+                            justifyContent="center"
+                            cursor="col-resize"
+                            onPointerDown={(event) => handleColumnResizeStart(column.id, event)}
+                            onKeyDown={(event) => handleColumnResizeKey(column.id, event)}
+                            tabIndex={0}
+                            role="separator"
+                            aria-orientation="vertical"
+                            aria-valuenow={pairShare(column.width, nextColumn.width)}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-label={t.column.resize}
+                            outline="none"
+                            data-group
+                          >
+                            <Box
+                              w="4px"
+                              borderRadius="full"
+                              bg="transparent"
+                              _groupHover={{ bg: "blue.300" }}
+                              _groupFocusVisible={{ bg: "blue.400" }}
+                            />
+                          </Box>
+                        )}
+                      </Flex>
                     )}
-                  </Flex>
-                )}
-              </Droppable>
-
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleAddCell(column.id)}
-                display="inline-flex"
-                alignItems="center"
-                gap={2}
-              >
-                <AddIcon boxSize={3} />
-                셀 추가
-              </Button>
-            </Box>
-          ))}
-        </Flex>
+                  </Draggable>
+                );
+              })}
+              {columnsProvided.placeholder}
+            </Flex>
+          )}
+        </Droppable>
       </DragDropContext>
+
+      <TaskDetailDrawer
+        task={detailTask}
+        events={detailEvents}
+        cellLabels={cellLabels}
+        onSave={handleSaveTask}
+        onArchive={handleArchiveDetailTask}
+        onClose={handleCloseTask}
+      />
+      <MetricsDrawer open={isMetricsOpen} state={state} onClose={() => setIsMetricsOpen(false)} />
+      <TrashDrawer
+        open={isTrashOpen}
+        state={state}
+        onRestore={handleRestoreTrash}
+        onPurge={handlePurgeTrash}
+        onRestoreArchived={handleRestoreArchivedTask}
+        onClose={() => setIsTrashOpen(false)}
+      />
+      <AutomationDrawer
+        open={isAutomationOpen}
+        state={state}
+        onSave={handleSaveAutomation}
+        onDelete={handleDeleteAutomation}
+        onClose={() => setIsAutomationOpen(false)}
+      />
+      <MoveToDialog
+        subject={moveSubject}
+        boardId={boardId}
+        state={state}
+        onMove={handleMoveItem}
+        onClose={() => setMoveSubject(null)}
+      />
+      <BulkActionBar
+        selection={selectedTasks}
+        cellTargets={[...cellLabels]}
+        onDelete={handleDeleteSelection}
+        onMove={handleMoveSelectionToCell}
+        onRename={handleRenameSelection}
+        onClear={clearSelection}
+      />
+      <CommandPalette open={isPaletteOpen} commands={commands} onClose={() => setIsPaletteOpen(false)} />
+      <KeyboardShortcutsDialog open={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
+      <BoardImportDialog
+        fileName={pendingImport?.fileName ?? ""}
+        result={pendingImport?.result ?? null}
+        onConfirm={handleConfirmImport}
+        onClose={handleCancelImport}
+      />
     </Box>
   );
 };
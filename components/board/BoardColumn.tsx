@@ -0,0 +1,314 @@
+"use client";
+
+import { memo } from "react";
+import { Badge, Box, Button, Flex, IconButton } from "@chakra-ui/react";
+import { Draggable, DraggableProvidedDragHandleProps, Droppable } from "@hello-pangea/dnd";
+import { AddIcon, ArrowForwardIcon, ChevronLeftIcon, DeleteIcon, DragHandleIcon } from "@chakra-ui/icons";
+import { BoardPeer, Cell, Column, QuadrantTarget, Swimlane, Task } from "@/types/board";
+import { AppearanceChanges } from "@/lib/boardReducer";
+import { BoardFilterMode, BoardFilterResult, haveSameCellMatches } from "@/lib/boardFilter";
+import { unzoomDraggableStyle } from "@/lib/boardZoom";
+import { useI18n } from "@/hooks/useI18n";
+import InlineTitleInput from "@/components/board/InlineTitleInput";
+import WipLimitButton from "@/components/board/WipLimitButton";
+import AppearanceMenu from "@/components/board/AppearanceMenu";
+import ItemIcon, { tintedHeaderProps } from "@/components/board/ItemIcon";
+import CellCard, { CellCardProps } from "@/components/board/CellCard";
+import {
+  CELL_MIN_HEIGHT_PX,
+  COLLAPSED_ROW_HEIGHT_PX,
+  COLUMN_HEADER_HEIGHT_PX,
+  COLUMN_MIN_HEIGHT,
+  cellsDroppableId,
+  pairShare,
+} from "@/components/board/boardLayout";
+
+// Shared by every empty cell so memoised cells see the same list from render to render.
+const EMPTY_TASKS: Task[] = [];
+
+type BoardColumnProps = {
+  column: Column;
+  tasksByCell: Record<string, Task[]>;
+  swimlanes: Swimlane[] | undefined;
+  taskCount: number;
+  widthPx: number;
+  zoom: number;
+  dragHandleProps: DraggableProvidedDragHandleProps | null | undefined;
+  // The cell drop target while a cell is dragged over this column.
+  dropTarget: QuadrantTarget | null;
+  peersByItemId: Map<string, BoardPeer>;
+  filterResult: BoardFilterResult | null;
+  filterMode: BoardFilterMode;
+  selectedTaskIds: ReadonlySet<string>;
+  selectionSize: number;
+  onUpdateTitle: (columnId: string, title: string) => void;
+  onSetWipLimit: (columnId: string, limit: number | null) => void;
+  onSetCollapsed: (columnId: string, collapsed: boolean) => void;
+  onSetAppearance: (columnId: string, changes: AppearanceChanges) => void;
+  onMove: (column: Column) => void;
+  onDelete: (columnId: string) => void;
+  onAddCell: (columnId: string) => void;
+  onAddTask: CellCardProps["onAddTask"];
+  onRemoveTask: CellCardProps["onRemoveTask"];
+  onClickTask: CellCardProps["onClickTask"];
+  onDeleteCell: CellCardProps["onDeleteCell"];
+  onMoveCell: (cell: Cell) => void;
+  onUpdateCellTitle: CellCardProps["onUpdateCellTitle"];
+  onSetCellWipLimit: CellCardProps["onSetWipLimit"];
+  onSetCellCollapsed: (cellId: string, collapsed: boolean) => void;
+  onSetCellAppearance: CellCardProps["onSetAppearance"];
+  onStartCellResize: CellCardProps["onStartResize"];
+  onCellResizeKey: CellCardProps["onResizeKey"];
+};
+
+// tasksByCell and the filter result change with every task edit anywhere on the board, so only
+// this column's cells are compared; the rest of the props are compared as memo would. The column's
+// match count is the sum of its cells' counts.
+const areBoardColumnPropsEqual = (prev: BoardColumnProps, next: BoardColumnProps) =>
+  (Object.keys(next) as Array<keyof BoardColumnProps>).every((key) => {
+    switch (key) {
+      case "tasksByCell":
+        return next.column.cells.every((cell) => prev.tasksByCell[cell.id] === next.tasksByCell[cell.id]);
+      case "filterResult":
+        return (
+          (prev.filterResult === null) === (next.filterResult === null) &&
+          next.column.cells.every((cell) =>
+            haveSameCellMatches(
+              prev.filterResult,
+              next.filterResult,
+              cell.id,
+              next.tasksByCell[cell.id] ?? EMPTY_TASKS,
+            ),
+          )
+        );
+      default:
+        return Object.is(prev[key], next[key]);
+    }
+  });
+
+// An expanded column: its header and its cells.
+const BoardColumn = memo(function BoardColumn({
+  column,
+  tasksByCell,
+  swimlanes,
+  taskCount,
+  widthPx,
+  zoom,
+  dragHandleProps,
+  dropTarget,
+  peersByItemId,
+  filterResult,
+  filterMode,
+  selectedTaskIds,
+  selectionSize,
+  onUpdateTitle,
+  onSetWipLimit,
+  onSetCollapsed,
+  onSetAppearance,
+  onMove,
+  onDelete,
+  onAddCell,
+  onAddTask,
+  onRemoveTask,
+  onClickTask,
+  onDeleteCell,
+  onMoveCell,
+  onUpdateCellTitle,
+  onSetCellWipLimit,
+  onSetCellCollapsed,
+  onSetCellAppearance,
+  onStartCellResize,
+  onCellResizeKey,
+}: BoardColumnProps) {
+  const { t } = useI18n();
+  const isOverWipLimit = column.wipLimit !== undefined && taskCount > column.wipLimit;
+  // Lanes collapse whole rows, so in swimlane mode a cell follows its lane.
+  const collapsedCells = column.cells.map((cell, cellIndex) =>
+    Boolean(swimlanes ? swimlanes[cellIndex]?.collapsed : cell.collapsed),
+  );
+
+  return (
+    <Box
+      bg={{ base: "gray.100", _dark: "gray.900" }}
+      borderRadius="xl"
+      borderWidth="1px"
+      borderColor={isOverWipLimit ? "red.400" : { base: "gray.200", _dark: "gray.700" }}
+      width={`${widthPx}px`}
+      flexShrink={0}
+      p={4}
+      display="flex"
+      flexDirection="column"
+      gap={4}
+      minH={`${COLUMN_MIN_HEIGHT}px`}
+      height="100%"
+      data-column-id={column.id}
+    >
+      <Flex
+        align="center"
+        justify="space-between"
+        gap={3}
+        h={`${COLUMN_HEADER_HEIGHT_PX}px`}
+        {...tintedHeaderProps(column.color)}
+      >
+        <IconButton aria-label={t.column.drag} variant="ghost" size="xs" cursor="grab" {...dragHandleProps}>
+          <DragHandleIcon />
+        </IconButton>
+        <IconButton
+          aria-label={t.column.collapse}
+          onClick={() => onSetCollapsed(column.id, true)}
+          variant="ghost"
+          size="xs"
+        >
+          <ChevronLeftIcon />
+        </IconButton>
+        <ItemIcon icon={column.icon} />
+        <Box flex="1" minW="0">
+          <InlineTitleInput
+            value={column.title}
+            fallback={t.defaults.untitledColumn}
+            onCommit={(next) => onUpdateTitle(column.id, next)}
+            fontSize="lg"
+            ariaLabel={t.column.title}
+          />
+        </Box>
+        {filterResult && (
+          <Badge
+            colorPalette={filterResult.countsByColumn[column.id] ? "blue" : "gray"}
+            variant="subtle"
+            aria-label={t.cell.matchCount(filterResult.countsByColumn[column.id] ?? 0)}
+          >
+            {filterResult.countsByColumn[column.id] ?? 0}
+          </Badge>
+        )}
+        <WipLimitButton
+          count={taskCount}
+          limit={column.wipLimit}
+          label={t.items.named(t.items.column, column.title)}
+          onChange={(limit) => onSetWipLimit(column.id, limit)}
+        />
+        <AppearanceMenu
+          color={column.color}
+          icon={column.icon}
+          label={t.items.named(t.items.column, column.title)}
+          onChange={(changes) => onSetAppearance(column.id, changes)}
+        />
+        <IconButton aria-label={t.column.moveTo} onClick={() => onMove(column)} variant="ghost" size="sm">
+          <ArrowForwardIcon />
+        </IconButton>
+        <IconButton
+          aria-label={t.column.delete}
+          onClick={() => onDelete(column.id)}
+          variant="ghost"
+          size="sm"
+        >
+          <DeleteIcon />
+        </IconButton>
+      </Flex>
+
+      <Droppable droppableId={cellsDroppableId(column.id)} type="CELL">
+        {(provided) => (
+          <Flex
+            ref={provided.innerRef}
+            {...provided.droppableProps}
+            direction="column"
+            gap={3}
+            flex="1"
+            minH="200px"
+            position="relative"
+          >
+            {column.cells.map((cell, cellIndex) => (
+              <Draggable
+                key={cell.id}
+                draggableId={cell.id}
+                index={cellIndex}
+                isDragDisabled={Boolean(swimlanes)}
+              >
+                {(draggableProvided, draggableSnapshot) => (
+                  <Box
+                    ref={draggableProvided.innerRef}
+                    {...draggableProvided.draggableProps}
+                    style={unzoomDraggableStyle(draggableProvided.draggableProps.style, zoom)}
+                    {...(collapsedCells[cellIndex]
+                      ? { flex: "0 0 auto", height: `${COLLAPSED_ROW_HEIGHT_PX}px` }
+                      : { flex: `${cell.height} 1 0`, minH: `${CELL_MIN_HEIGHT_PX}px` })}
+                    display="flex"
+                    flexDirection="column"
+                  >
+                    <CellCard
+                      columnId={column.id}
+                      cell={cell}
+                      tasks={tasksByCell[cell.id] ?? EMPTY_TASKS}
+                      dragHandleProps={draggableProvided.dragHandleProps}
+                      isDragging={draggableSnapshot.isDragging}
+                      isLaneCell={Boolean(swimlanes)}
+                      isCollapsed={collapsedCells[cellIndex]}
+                      columnColor={column.color}
+                      zoom={zoom}
+                      hasBottomNeighbor={
+                        cellIndex < column.cells.length - 1 &&
+                        !collapsedCells[cellIndex] &&
+                        !collapsedCells[cellIndex + 1]
+                      }
+                      resizeValue={pairShare(cell.height, column.cells[cellIndex + 1]?.height ?? cell.height)}
+                      dropQuadrant={dropTarget?.cellId === cell.id ? dropTarget.quadrant : null}
+                      peersByItemId={peersByItemId}
+                      filterResult={filterResult}
+                      filterMode={filterMode}
+                      selectedTaskIds={selectedTaskIds}
+                      selectionSize={selectionSize}
+                      onAddTask={onAddTask}
+                      onRemoveTask={onRemoveTask}
+                      onClickTask={onClickTask}
+                      onDeleteCell={onDeleteCell}
+                      onMoveCell={swimlanes ? undefined : onMoveCell}
+                      onUpdateCellTitle={onUpdateCellTitle}
+                      onSetWipLimit={onSetCellWipLimit}
+                      onSetCollapsed={swimlanes ? undefined : onSetCellCollapsed}
+                      onSetAppearance={onSetCellAppearance}
+                      onStartResize={onStartCellResize}
+                      onResizeKey={onCellResizeKey}
+                    />
+                  </Box>
+                )}
+              </Draggable>
+            ))}
+            {provided.placeholder}
+            {column.cells.length === 0 && (
+              <Box
+                flex="1"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+                borderWidth="1px"
+                borderRadius="lg"
+                borderStyle="dashed"
+                borderColor={{ base: "gray.300", _dark: "gray.600" }}
+                py={6}
+                textAlign="center"
+                color={{ base: "gray.500", _dark: "gray.400" }}
+              >
+                {t.column.emptyHint}
+              </Box>
+            )}
+          </Flex>
+        )}
+      </Droppable>
+
+      {!swimlanes && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onAddCell(column.id)}
+          display="inline-flex"
+          alignItems="center"
+          gap={2}
+        >
+          <AddIcon boxSize={3} />
+          {t.board.addCell}
+        </Button>
+      )}
+    </Box>
+  );
+}, areBoardColumnPropsEqual);
+
+export default BoardColumn;
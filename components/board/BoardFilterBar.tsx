@@ -0,0 +1,126 @@
+"use client";
+
+import { RefObject, useCallback } from "react";
+import { Button, Flex, IconButton, Input, InputGroup, NativeSelect, Text } from "@chakra-ui/react";
+import { SearchIcon, SmallCloseIcon } from "@chakra-ui/icons";
+import {
+  BoardFilter,
+  BoardFilterMode,
+  BoardFilterResult,
+  EMPTY_FILTER,
+  SavedFilter,
+} from "@/lib/boardFilter";
+import { useI18n } from "@/hooks/useI18n";
+
+type BoardFilterBarProps = {
+  filter: BoardFilter;
+  result: BoardFilterResult | null;
+  savedFilters: SavedFilter[];
+  searchInputRef?: RefObject<HTMLInputElement | null>;
+  onChange: (filter: BoardFilter) => void;
+  onSave: (name: string) => void;
+  onDeleteSaved: (filterId: string) => void;
+};
+
+const BoardFilterBar = ({
+  filter,
+  result,
+  savedFilters,
+  searchInputRef,
+  onChange,
+  onSave,
+  onDeleteSaved,
+}: BoardFilterBarProps) => {
+  const { t } = useI18n();
+  const handleSave = useCallback(() => {
+    const name = window.prompt(t.filter.namePrompt, filter.query.trim());
+    if (name !== null) {
+      onSave(name);
+    }
+  }, [filter.query, onSave, t]);
+
+  return (
+    <Flex direction="column" gap={2} mb={4}>
+      <Flex align="center" gap={2} wrap="wrap">
+        <InputGroup flex="1" minW="220px" maxW="420px" startElement={<SearchIcon />}>
+          <Input
+            ref={searchInputRef}
+            value={filter.query}
+            onChange={(event) => onChange({ ...filter, query: event.target.value })}
+            onKeyDown={(event) => {
+              if (event.key === "Escape" && filter.query) {
+                event.preventDefault();
+                onChange({ ...filter, query: "" });
+              }
+            }}
+            placeholder={t.filter.placeholder}
+            aria-label={t.filter.search}
+          />
+        </InputGroup>
+        <NativeSelect.Root width="130px">
+          <NativeSelect.Field
+            value={filter.mode}
+            onChange={(event) => onChange({ ...filter, mode: event.target.value as BoardFilterMode })}
+            aria-label={t.filter.mode}
+          >
+            <option value="dim">{t.filter.dim}</option>
+            <option value="hide">{t.filter.hide}</option>
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+        {result && (
+          <Text fontSize="sm" color={{ base: "gray.600", _dark: "gray.400" }} role="status">
+            {t.filter.matchCount(result.total)}
+          </Text>
+        )}
+        {result && (
+          <IconButton
+            aria-label={t.filter.clear}
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange(EMPTY_FILTER)}
+          >
+            <SmallCloseIcon />
+          </IconButton>
+        )}
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={!result}>
+          {t.filter.save}
+        </Button>
+      </Flex>
+
+      {savedFilters.length > 0 && (
+        <Flex align="center" gap={2} wrap="wrap" aria-label={t.filter.saved}>
+          {savedFilters.map((saved) => {
+            const isActive = saved.filter.query === filter.query && saved.filter.mode === filter.mode;
+            return (
+              <Flex key={saved.id} align="center">
+                <Button
+                  size="xs"
+                  variant={isActive ? "solid" : "subtle"}
+                  colorPalette="blue"
+                  borderEndRadius={0}
+                  onClick={() => onChange(saved.filter)}
+                  title={saved.filter.query}
+                >
+                  {saved.name}
+                </Button>
+                <IconButton
+                  aria-label={t.filter.deleteSaved(saved.name)}
+                  size="xs"
+                  variant={isActive ? "solid" : "subtle"}
+                  colorPalette="blue"
+                  borderStartRadius={0}
+                  onClick={() => onDeleteSaved(saved.id)}
+                >
+                  <SmallCloseIcon />
+                </IconButton>
+              </Flex>
+            );
+          })}
+        </Flex>
+      )}
+    </Flex>
+  );
+};
+
+export default BoardFilterBar;
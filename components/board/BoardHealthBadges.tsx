@@ -0,0 +1,52 @@
+"use client";
+
+import { Badge, Button, Flex } from "@chakra-ui/react";
+import { BoardIssue, BoardIssueKind } from "@/lib/boardValidation";
+import { useI18n } from "@/hooks/useI18n";
+
+type BoardHealthBadgesProps = {
+  issues: BoardIssue[];
+  onRepair: () => void;
+};
+
+const BoardHealthBadges = ({ issues, onRepair }: BoardHealthBadgesProps) => {
+  const { t } = useI18n();
+  if (issues.length === 0) {
+    return (
+      <Flex align="center" gap={2} mb={4}>
+        <Badge colorPalette="green" variant="subtle" data-testid="board-health-ok">
+          {t.health.ok}
+        </Badge>
+      </Flex>
+    );
+  }
+
+  const grouped = issues.reduce<Partial<Record<BoardIssueKind, BoardIssue[]>>>((groups, issue) => {
+    groups[issue.kind] = [...(groups[issue.kind] ?? []), issue];
+    return groups;
+  }, {});
+
+  return (
+    <Flex align="center" gap={2} mb={4} wrap="wrap" role="status" aria-live="polite">
+      {(Object.keys(grouped) as BoardIssueKind[]).map((kind) => {
+        const kindIssues = grouped[kind] ?? [];
+        const hasError = kindIssues.some((issue) => issue.severity === "error");
+        return (
+          <Badge
+            key={kind}
+            colorPalette={hasError ? "red" : "yellow"}
+            variant="subtle"
+            title={kindIssues.map((issue) => issue.message).join("\n")}
+          >
+            {t.health.kinds[kind]} {kindIssues.length}
+          </Badge>
+        );
+      })}
+      <Button size="xs" variant="outline" onClick={onRepair}>
+        {t.health.repair}
+      </Button>
+    </Flex>
+  );
+};
+
+export default BoardHealthBadges;
@@ -0,0 +1,73 @@
+"use client";
+
+import { Button, CloseButton, Dialog, Portal, Stack, Text } from "@chakra-ui/react";
+import { BoardImportMode, BoardImportResult } from "@/lib/boardTransfer";
+import { useI18n } from "@/hooks/useI18n";
+
+type BoardImportDialogProps = {
+  fileName: string;
+  result: BoardImportResult | null;
+  onConfirm: (mode: BoardImportMode) => void;
+  onClose: () => void;
+};
+
+const BoardImportDialog = ({ fileName, result, onConfirm, onClose }: BoardImportDialogProps) => {
+  const { t } = useI18n();
+  const taskCount = result?.ok
+    ? Object.values(result.board.tasksByCell).reduce((sum, tasks) => sum + tasks.length, 0)
+    : 0;
+
+  return (
+    <Dialog.Root open={result !== null} onOpenChange={(details) => !details.open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content>
+            <Dialog.Header>
+              <Dialog.Title>{t.transfer.title}</Dialog.Title>
+            </Dialog.Header>
+            <Dialog.Body>
+              {result?.ok ? (
+                <Stack gap={2}>
+                  <Text>{t.transfer.summary(fileName, result.board.columns.length, taskCount)}</Text>
+                  {result.repairedIssues > 0 && (
+                    <Text fontSize="sm" color={{ base: "orange.600", _dark: "orange.300" }}>
+                      {t.transfer.repaired(result.repairedIssues)}
+                    </Text>
+                  )}
+                  <Text fontSize="sm" color={{ base: "gray.600", _dark: "gray.400" }}>
+                    {t.transfer.choose}
+                  </Text>
+                </Stack>
+              ) : (
+                <Text color={{ base: "red.600", _dark: "red.300" }}>
+                  {fileName}: {result?.error}
+                </Text>
+              )}
+            </Dialog.Body>
+            <Dialog.Footer>
+              <Button variant="outline" onClick={onClose}>
+                {t.common.cancel}
+              </Button>
+              {result?.ok && (
+                <>
+                  <Button variant="outline" onClick={() => onConfirm("merge")}>
+                    {t.transfer.merge}
+                  </Button>
+                  <Button colorPalette="red" onClick={() => onConfirm("replace")}>
+                    {t.transfer.replace}
+                  </Button>
+                </>
+              )}
+            </Dialog.Footer>
+            <Dialog.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Dialog.CloseTrigger>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  );
+};
+
+export default BoardImportDialog;
@@ -0,0 +1,144 @@
+"use client";
+
+import { FormEvent, useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Box, Button, Flex, Heading, IconButton, Input, NativeSelect, Text, chakra } from "@chakra-ui/react";
+import { AddIcon, CopyIcon, DeleteIcon } from "@chakra-ui/icons";
+import InlineTitleInput from "@/components/board/InlineTitleInput";
+import LanguageSwitcher from "@/components/board/LanguageSwitcher";
+import ThemeSwitcher from "@/components/board/ThemeSwitcher";
+import { useBoardLibrary } from "@/hooks/useBoardLibrary";
+import { useI18n } from "@/hooks/useI18n";
+import { BOARD_TEMPLATES } from "@/lib/boardTemplates";
+
+const BoardList = () => {
+  const router = useRouter();
+  const { locale, t } = useI18n();
+  const { boards, isLoaded, error, createBoard, renameBoard, duplicateBoard, deleteBoard } = useBoardLibrary();
+  const [name, setName] = useState("");
+  const [templateId, setTemplateId] = useState<string>(BOARD_TEMPLATES[0].id);
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const meta = await createBoard(name, templateId);
+      if (meta) {
+        setName("");
+        router.push(`/boards/${meta.id}`);
+      }
+    },
+    [createBoard, name, router, templateId],
+  );
+
+  const handleDelete = useCallback(
+    (boardId: string, boardName: string) => {
+      if (window.confirm(t.library.confirmDelete(boardName))) {
+        deleteBoard(boardId);
+      }
+    },
+    [deleteBoard, t],
+  );
+
+  return (
+    <Box w="100%" maxW="960px" mx="auto" px={6} py={8} display="flex" flexDirection="column" gap={6}>
+      <Flex align="center" justify="space-between" gap={3}>
+        <Heading size="lg">{t.library.heading}</Heading>
+        <Flex align="center" gap={2}>
+          <ThemeSwitcher />
+          <LanguageSwitcher />
+        </Flex>
+      </Flex>
+
+      <chakra.form onSubmit={handleSubmit} display="flex" gap={2} flexWrap="wrap">
+        <Input
+          flex="1"
+          minW="200px"
+          placeholder={t.defaults.boardName}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          aria-label={t.library.newBoardName}
+        />
+        <NativeSelect.Root width="200px">
+          <NativeSelect.Field
+            value={templateId}
+            onChange={(event) => setTemplateId(event.target.value)}
+            aria-label={t.library.template}
+          >
+            {BOARD_TEMPLATES.map((template) => (
+              <option key={template.id} value={template.id}>
+                {t.templates[template.id].name} ({t.templates[template.id].description})
+              </option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+        <Button type="submit" colorScheme="blue" display="inline-flex" alignItems="center" gap={2}>
+          <AddIcon />
+          {t.library.create}
+        </Button>
+      </chakra.form>
+
+      {error && (
+        <Text color={{ base: "red.600", _dark: "red.300" }} role="alert">
+          {t.library.errors[error]}
+        </Text>
+      )}
+
+      {isLoaded && !error && boards.length === 0 && (
+        <Text color={{ base: "gray.500", _dark: "gray.400" }} textAlign="center" py={8}>
+          {t.library.empty}
+        </Text>
+      )}
+
+      <Flex direction="column" gap={3}>
+        {boards.map((board) => (
+          <Flex
+            key={board.id}
+            align="center"
+            gap={3}
+            p={4}
+            borderWidth="1px"
+            borderRadius="lg"
+            borderColor={{ base: "gray.200", _dark: "gray.700" }}
+            bg={{ base: "white", _dark: "gray.800" }}
+          >
+            <Box flex="1" minW="0">
+              <InlineTitleInput
+                value={board.name}
+                fallback={t.defaults.boardName}
+                onCommit={(next) => renameBoard(board.id, next)}
+                fontSize="lg"
+                ariaLabel={t.library.boardName}
+              />
+              <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }} px={1}>
+                {t.library.createdAt(new Date(board.createdAt).toLocaleDateString(locale))}
+              </Text>
+            </Box>
+            <Button asChild size="sm" variant="outline">
+              <Link href={`/boards/${board.id}`}>{t.library.open}</Link>
+            </Button>
+            <IconButton
+              aria-label={t.library.duplicate}
+              size="sm"
+              variant="ghost"
+              onClick={() => duplicateBoard(board.id)}
+            >
+              <CopyIcon />
+            </IconButton>
+            <IconButton
+              aria-label={t.library.delete}
+              size="sm"
+              variant="ghost"
+              onClick={() => handleDelete(board.id, board.name)}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Flex>
+        ))}
+      </Flex>
+    </Box>
+  );
+};
+
+export default BoardList;
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Flex, Spinner, Text } from "@chakra-ui/react";
+import { BoardRecord } from "@/types/board";
+import Board from "@/components/board/Board";
+import { BoardApiError, fetchBoard } from "@/lib/boardApi";
+import { useI18n } from "@/hooks/useI18n";
+
+type BoardScreenProps = {
+  boardId: string;
+};
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "ready"; record: BoardRecord }
+  | { status: "error"; notFound: boolean };
+
+const BoardScreen = ({ boardId }: BoardScreenProps) => {
+  const { t } = useI18n();
+  const [loadState, setLoadState] = useState<LoadState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadState({ status: "loading" });
+    fetchBoard(boardId).then(
+      (record) => {
+        if (!cancelled) {
+          setLoadState({ status: "ready", record });
+        }
+      },
+      (error: unknown) => {
+        if (!cancelled) {
+          setLoadState({ status: "error", notFound: error instanceof BoardApiError && error.status === 404 });
+        }
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  if (loadState.status === "loading") {
+    return (
+      <Flex justify="center" py={16}>
+        <Spinner />
+      </Flex>
+    );
+  }
+
+  if (loadState.status === "error") {
+    return (
+      <Flex direction="column" align="center" gap={3} py={16}>
+        <Text>{loadState.notFound ? t.screen.notFound : t.screen.loadFailed}</Text>
+        <Link href="/">{t.screen.backToList}</Link>
+      </Flex>
+    );
+  }
+
+  const { record } = loadState;
+  return (
+    <Board
+      key={boardId}
+      boardId={boardId}
+      title={record.meta.name}
+      initialState={record.board}
+      initialVersion={record.version}
+    />
+  );
+};
+
+export default BoardScreen;
@@ -0,0 +1,146 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { Badge, Box, Button, Flex, IconButton, Input, NativeSelect, Text, chakra } from "@chakra-ui/react";
+import { DeleteIcon, SmallCloseIcon } from "@chakra-ui/icons";
+import { SelectedTask, replaceInTitle } from "@/lib/boardSelection";
+import { useI18n } from "@/hooks/useI18n";
+
+type BulkActionBarProps = {
+  selection: SelectedTask[];
+  // Cells the selection can move to, as [cell id, "column / cell" label].
+  cellTargets: [string, string][];
+  onDelete: () => void;
+  onMove: (cellId: string) => void;
+  onRename: (find: string, replacement: string) => void;
+  onClear: () => void;
+};
+
+// Actions on every selected task at once, floating at the bottom of the screen.
+const BulkActionBar = ({
+  selection,
+  cellTargets,
+  onDelete,
+  onMove,
+  onRename,
+  onClear,
+}: BulkActionBarProps) => {
+  const { t } = useI18n();
+  const [targetCellId, setTargetCellId] = useState("");
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [find, setFind] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const isOpen = selection.length > 0;
+  const selectedCellId = cellTargets.some(([id]) => id === targetCellId) ? targetCellId : cellTargets[0]?.[0];
+  const renameCount = selection.filter(({ task }) => replaceInTitle(task.title, find, replacement)).length;
+
+  useEffect(() => {
+    if (!isOpen) {
+      setIsRenaming(false);
+      setFind("");
+      setReplacement("");
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (renameCount > 0) {
+      onRename(find, replacement);
+      setFind("");
+      setReplacement("");
+    }
+  };
+
+  return (
+    <Box
+      position="fixed"
+      bottom={4}
+      left="50%"
+      transform="translateX(-50%)"
+      zIndex="sticky"
+      maxW="calc(100vw - 2rem)"
+      bg={{ base: "white", _dark: "gray.800" }}
+      borderWidth="1px"
+      borderRadius="lg"
+      boxShadow="lg"
+      px={4}
+      py={3}
+      role="toolbar"
+      aria-label={t.selection.toolbar}
+    >
+      <Flex align="center" gap={2} wrap="wrap">
+        <Badge colorPalette="blue" variant="solid">
+          {t.selection.count(selection.length)}
+        </Badge>
+        <Button size="xs" variant="outline" colorPalette="red" onClick={onDelete}>
+          <DeleteIcon boxSize={3} />
+          {t.common.delete}
+        </Button>
+        <NativeSelect.Root size="xs" width="auto" disabled={cellTargets.length === 0}>
+          <NativeSelect.Field
+            value={selectedCellId ?? ""}
+            onChange={(event) => setTargetCellId(event.target.value)}
+            aria-label={t.selection.target}
+          >
+            {cellTargets.map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+        <Button
+          size="xs"
+          variant="outline"
+          disabled={!selectedCellId}
+          onClick={() => selectedCellId && onMove(selectedCellId)}
+        >
+          {t.selection.move}
+        </Button>
+        <Button
+          size="xs"
+          variant={isRenaming ? "subtle" : "outline"}
+          aria-expanded={isRenaming}
+          onClick={() => setIsRenaming((open) => !open)}
+        >
+          {t.selection.rename}
+        </Button>
+        <IconButton aria-label={t.selection.clear} size="xs" variant="ghost" onClick={onClear}>
+          <SmallCloseIcon />
+        </IconButton>
+      </Flex>
+      {isRenaming && (
+        <chakra.form onSubmit={handleRename} display="flex" alignItems="center" gap={2} mt={3}>
+          <Input
+            size="xs"
+            placeholder={t.selection.find}
+            value={find}
+            onChange={(event) => setFind(event.target.value)}
+            aria-label={t.selection.find}
+            autoFocus
+          />
+          <Input
+            size="xs"
+            placeholder={t.selection.replace}
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            aria-label={t.selection.replace}
+          />
+          <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }} flexShrink={0}>
+            {t.selection.matchCount(renameCount)}
+          </Text>
+          <Button type="submit" size="xs" colorPalette="blue" disabled={renameCount === 0}>
+            {t.selection.apply}
+          </Button>
+        </chakra.form>
+      )}
+    </Box>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,477 @@
+"use client";
+
+import {
+  FormEvent,
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
+  memo,
+  useCallback,
+  useMemo,
+  useState,
+} from "react";
+import { Badge, Box, Button, Flex, IconButton, Input, Text, chakra } from "@chakra-ui/react";
+import {
+  Draggable,
+  DraggableProvided,
+  DraggableProvidedDragHandleProps,
+  DraggableRubric,
+  DraggableStateSnapshot,
+  Droppable,
+} from "@hello-pangea/dnd";
+import {
+  ArrowForwardIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DeleteIcon,
+  DragHandleIcon,
+} from "@chakra-ui/icons";
+import { BoardPeer, Cell, ItemColor, Quadrant, Task } from "@/types/board";
+import { AppearanceChanges } from "@/lib/boardReducer";
+import { BoardFilterMode, BoardFilterResult, haveSameCellMatches } from "@/lib/boardFilter";
+import { unzoomDraggableStyle } from "@/lib/boardZoom";
+import { useVirtualList } from "@/hooks/useVirtualList";
+import { useI18n } from "@/hooks/useI18n";
+import TaskCard from "@/components/board/TaskCard";
+import InlineTitleInput from "@/components/board/InlineTitleInput";
+import WipLimitButton from "@/components/board/WipLimitButton";
+import AppearanceMenu from "@/components/board/AppearanceMenu";
+import ItemIcon, { tintedHeaderProps } from "@/components/board/ItemIcon";
+import { CELL_MIN_HEIGHT_PX, tasksDroppableId } from "@/components/board/boardLayout";
+
+const TASK_GAP_PX = 8;
+// Cells with more tasks than this render only the cards near the visible part of their list.
+const WINDOWED_TASK_THRESHOLD = 50;
+const ESTIMATED_TASK_HEIGHT_PX = 64;
+const TASK_OVERSCAN_PX = 480;
+
+const QUADRANT_OVERLAY_STYLES: Record<Quadrant, Record<string, string | number>> = {
+  top: { top: 0, left: 0, right: 0, height: "50%", borderTopWidth: "3px" },
+  bottom: { bottom: 0, left: 0, right: 0, height: "50%", borderBottomWidth: "3px" },
+  left: { top: 0, bottom: 0, left: 0, width: "50%", borderLeftWidth: "3px" },
+  right: { top: 0, bottom: 0, right: 0, width: "50%", borderRightWidth: "3px" },
+};
+
+// Callbacks take ids rather than being bound to one cell, so the board can pass the same functions
+// to every cell and memoised cells skip re-rendering when another part of the board changes.
+export type CellCardProps = {
+  columnId: string;
+  cell: Cell;
+  tasks: Task[];
+  dragHandleProps: DraggableProvidedDragHandleProps | null | undefined;
+  isDragging: boolean;
+  // In swimlane mode a cell belongs to its row, so it can't be dragged or deleted on its own.
+  isLaneCell: boolean;
+  // A collapsed cell, or a cell in a collapsed lane, shows only its header.
+  isCollapsed: boolean;
+  // The column's colour, which tints the cards of a cell without a colour of its own.
+  columnColor: ItemColor | undefined;
+  zoom: number;
+  hasBottomNeighbor: boolean;
+  // This cell's share of the height it splits with the cell below, in percent.
+  resizeValue: number;
+  dropQuadrant: Quadrant | null;
+  // Other people's current activity, keyed by the cell or task id it is about.
+  peersByItemId: Map<string, BoardPeer>;
+  filterResult: BoardFilterResult | null;
+  filterMode: BoardFilterMode;
+  selectedTaskIds: ReadonlySet<string>;
+  // How many selected tasks a drag of one of them carries.
+  selectionSize: number;
+  onAddTask: (cellId: string, title: string) => void;
+  onRemoveTask: (cellId: string, taskId: string) => void;
+  // Opens the task, or with Shift, Ctrl or Cmd held changes the selection.
+  onClickTask: (cellId: string, taskId: string, event: ReactMouseEvent<HTMLDivElement>) => void;
+  onDeleteCell: (columnId: string, cellId: string) => void;
+  // Opens the "move to…" dialog; absent in swimlane mode, where cells stay in their lane.
+  onMoveCell?: (cell: Cell) => void;
+  onUpdateCellTitle: (cellId: string, title: string) => void;
+  onSetWipLimit: (cellId: string, limit: number | null) => void;
+  // Absent in swimlane mode, where lanes collapse instead.
+  onSetCollapsed?: (cellId: string, collapsed: boolean) => void;
+  onSetAppearance: (cellId: string, changes: AppearanceChanges) => void;
+  onStartResize: (columnId: string, cellId: string, event: ReactPointerEvent<HTMLDivElement>) => void;
+  onResizeKey: (columnId: string, cellId: string, event: ReactKeyboardEvent<HTMLDivElement>) => void;
+};
+
+// A filter result is rebuilt whenever any task changes, so only this cell's matches are compared.
+const areCellCardPropsEqual = (prev: CellCardProps, next: CellCardProps) =>
+  (Object.keys(next) as Array<keyof CellCardProps>).every((key) =>
+    key === "filterResult"
+      ? haveSameCellMatches(prev.filterResult, next.filterResult, next.cell.id, next.tasks)
+      : Object.is(prev[key], next[key]),
+  );
+
+const CellCard = memo(function CellCard({
+  columnId,
+  cell,
+  tasks,
+  dragHandleProps,
+  isDragging,
+  isLaneCell,
+  isCollapsed,
+  columnColor,
+  zoom,
+  hasBottomNeighbor,
+  resizeValue,
+  dropQuadrant,
+  peersByItemId,
+  filterResult,
+  filterMode,
+  selectedTaskIds,
+  selectionSize,
+  onAddTask,
+  onRemoveTask,
+  onClickTask,
+  onDeleteCell,
+  onMoveCell,
+  onUpdateCellTitle,
+  onSetWipLimit,
+  onSetCollapsed,
+  onSetAppearance,
+  onStartResize,
+  onResizeKey,
+}: CellCardProps) {
+  const { t } = useI18n();
+  const [newTaskTitle, setNewTaskTitle] = useState("");
+  const dragHandle = dragHandleProps ?? {};
+  const cellPeer = peersByItemId.get(cell.id);
+  const isOverWipLimit = cell.wipLimit !== undefined && tasks.length > cell.wipLimit;
+  const cardColor = cell.color ?? columnColor;
+
+  const handleSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const value = newTaskTitle.trim() || t.defaults.newTask;
+      onAddTask(cell.id, value);
+      setNewTaskTitle("");
+    },
+    [cell.id, newTaskTitle, onAddTask, t],
+  );
+
+  // Long lists render only the cards in view. A windowed list leaves hidden cards out altogether;
+  // a full one keeps them mounted so drag indexes keep matching the task list.
+  const isWindowed = tasks.length > WINDOWED_TASK_THRESHOLD;
+  const hidesFilteredOut = isWindowed && filterResult !== null && filterMode === "hide";
+  const listedTasks = useMemo(() => {
+    const entries = tasks.map((task, index) => ({ task, index }));
+    return hidesFilteredOut && filterResult
+      ? entries.filter(({ task }) => filterResult.matchingTaskIds.has(task.id))
+      : entries;
+  }, [filterResult, hidesFilteredOut, tasks]);
+  const { scrollRef, range, getSize } = useVirtualList<HTMLDivElement>(
+    listedTasks.map(({ task }) => task.id),
+    {
+      enabled: isWindowed,
+      estimatedItemPx: ESTIMATED_TASK_HEIGHT_PX,
+      gapPx: TASK_GAP_PX,
+      overscanPx: TASK_OVERSCAN_PX,
+    },
+  );
+
+  const renderTask = (
+    task: Task,
+    taskProvided: DraggableProvided,
+    taskSnapshot: DraggableStateSnapshot,
+    isClone = false,
+  ) => {
+    const taskPeer = peersByItemId.get(task.id);
+    const isFilteredOut = filterResult !== null && !filterResult.matchingTaskIds.has(task.id);
+    const isSelected = selectedTaskIds.has(task.id);
+    const style = unzoomDraggableStyle(taskProvided.draggableProps.style, zoom);
+    return (
+      <Box
+        ref={taskProvided.innerRef}
+        {...taskProvided.draggableProps}
+        {...taskProvided.dragHandleProps}
+        // A clone is rendered outside the zoomed board, so it is zoomed on its own.
+        style={isClone ? { ...style, zoom } : style}
+        p={3}
+        borderWidth="1px"
+        borderColor={
+          taskSnapshot.isDragging
+            ? "blue.300"
+            : isSelected
+              ? "blue.500"
+              : taskPeer
+                ? `${taskPeer.color}.400`
+                : cardColor
+                  ? { base: `${cardColor}.200`, _dark: `${cardColor}.700` }
+                  : { base: "gray.200", _dark: "gray.700" }
+        }
+        bg={
+          taskSnapshot.isDragging
+            ? { base: "blue.50", _dark: "blue.700" }
+            : isSelected
+              ? { base: "blue.50", _dark: "blue.900" }
+              : cardColor
+                ? { base: `${cardColor}.50`, _dark: `${cardColor}.950` }
+                : { base: "gray.50", _dark: "gray.900" }
+        }
+        borderRadius="md"
+        boxShadow={taskSnapshot.isDragging ? "md" : "sm"}
+        cursor="pointer"
+        position="relative"
+        onClick={(event) => onClickTask(cell.id, task.id, event)}
+        data-task-id={isClone ? undefined : task.id}
+        data-virtual-key={isWindowed && !isClone ? task.id : undefined}
+        data-selected={isSelected || undefined}
+        display={isFilteredOut && filterMode === "hide" ? "none" : undefined}
+        opacity={isFilteredOut ? 0.35 : 1}
+        outline="none"
+        _focusVisible={{
+          borderColor: "blue.400",
+          boxShadow: "0 0 0 1px var(--chakra-colors-blue-400)",
+        }}
+      >
+        <TaskCard
+          task={task}
+          peer={taskPeer}
+          highlightTerms={isFilteredOut ? undefined : filterResult?.terms}
+          onRemove={() => onRemoveTask(cell.id, task.id)}
+        />
+        {taskSnapshot.isDragging && isSelected && selectionSize > 1 && (
+          <Badge
+            position="absolute"
+            top={-2}
+            right={-2}
+            colorPalette="blue"
+            variant="solid"
+            borderRadius="full"
+            aria-label={t.cell.draggingCount(selectionSize)}
+          >
+            {selectionSize}
+          </Badge>
+        )}
+      </Box>
+    );
+  };
+
+  // A windowed list may unmount the dragged card while it scrolls, so the drag shows a clone.
+  const renderTaskClone = (
+    cloneProvided: DraggableProvided,
+    cloneSnapshot: DraggableStateSnapshot,
+    rubric: DraggableRubric,
+  ) => {
+    const task = tasks.find((item) => item.id === rubric.draggableId);
+    return task ? (
+      renderTask(task, cloneProvided, cloneSnapshot, true)
+    ) : (
+      <Box
+        ref={cloneProvided.innerRef}
+        {...cloneProvided.draggableProps}
+        {...cloneProvided.dragHandleProps}
+      />
+    );
+  };
+
+  return (
+    <Flex
+      direction="column"
+      height="100%"
+      minH={isCollapsed ? undefined : `${CELL_MIN_HEIGHT_PX}px`}
+      bg={{ base: "white", _dark: "gray.800" }}
+      borderWidth="1px"
+      borderColor={
+        cellPeer
+          ? `${cellPeer.color}.400`
+          : isOverWipLimit
+            ? "red.400"
+            : { base: "gray.200", _dark: "gray.700" }
+      }
+      borderRadius="lg"
+      boxShadow={isDragging ? "lg" : "sm"}
+      transition="box-shadow 0.2s ease, transform 0.2s ease"
+      transform={isDragging ? "scale(1.02)" : "none"}
+      position="relative"
+      overflow="visible"
+      p={4}
+      gap={3}
+      data-cell-id={cell.id}
+      tabIndex={-1}
+      role="group"
+      aria-label={cell.title}
+      outline="none"
+      _focusVisible={{ boxShadow: "0 0 0 2px var(--chakra-colors-blue-400)" }}
+    >
+      <Flex align="center" justify="space-between" gap={3} {...tintedHeaderProps(cell.color)}>
+        <Flex align="center" gap={2} flex="1" minW="0">
+          {onSetCollapsed && (
+            <IconButton
+              aria-label={isCollapsed ? t.cell.expand : t.cell.collapse}
+              aria-expanded={!isCollapsed}
+              variant="ghost"
+              size="xs"
+              onClick={() => onSetCollapsed(cell.id, !isCollapsed)}
+            >
+              {isCollapsed ? <ChevronRightIcon /> : <ChevronDownIcon />}
+            </IconButton>
+          )}
+          {!isLaneCell && (
+            <IconButton
+              aria-label={t.cell.drag}
+              variant="ghost"
+              size="sm"
+              cursor="grab"
+              {...dragHandle}
+            >
+              <DragHandleIcon boxSize={4} />
+            </IconButton>
+          )}
+          <ItemIcon icon={cell.icon} />
+          <InlineTitleInput
+            value={cell.title}
+            fallback={t.defaults.untitledCell}
+            onCommit={(next) => onUpdateCellTitle(cell.id, next)}
+            ariaLabel={t.cell.title}
+          />
+          {filterResult && (
+            <Badge
+              size="sm"
+              colorPalette={filterResult.countsByCell[cell.id] ? "blue" : "gray"}
+              variant="subtle"
+              flexShrink={0}
+              aria-label={t.cell.matchCount(filterResult.countsByCell[cell.id] ?? 0)}
+            >
+              {filterResult.countsByCell[cell.id] ?? 0}
+            </Badge>
+          )}
+          <WipLimitButton
+            count={tasks.length}
+            limit={cell.wipLimit}
+            label={t.items.named(t.items.cell, cell.title)}
+            onChange={(limit) => onSetWipLimit(cell.id, limit)}
+          />
+          <AppearanceMenu
+            color={cell.color}
+            icon={cell.icon}
+            label={t.items.named(t.items.cell, cell.title)}
+            onChange={(changes) => onSetAppearance(cell.id, changes)}
+          />
+          {cellPeer?.activity && (
+            <Badge size="sm" colorPalette={cellPeer.color} variant="solid" flexShrink={0}>
+              {cellPeer.name} · {t.presence.activity[cellPeer.activity.type]}
+            </Badge>
+          )}
+        </Flex>
+        {onMoveCell && (
+          <IconButton aria-label={t.cell.moveTo} size="sm" onClick={() => onMoveCell(cell)} variant="ghost">
+            <ArrowForwardIcon boxSize={3} />
+          </IconButton>
+        )}
+        {!isLaneCell && (
+          <IconButton
+            aria-label={t.cell.delete}
+            size="sm"
+            onClick={() => onDeleteCell(columnId, cell.id)}
+            variant="ghost"
+          >
+            <DeleteIcon boxSize={3} />
+          </IconButton>
+        )}
+      </Flex>
+
+      <Droppable
+        droppableId={tasksDroppableId(cell.id)}
+        type="TASK"
+        mode={isWindowed ? "virtual" : "standard"}
+        renderClone={isWindowed ? renderTaskClone : undefined}
+      >
+        {(provided, snapshot) => (
+          <Flex
+            direction="column"
+            ref={(node: HTMLDivElement | null) => {
+              provided.innerRef(node);
+              scrollRef.current = node;
+            }}
+            {...provided.droppableProps}
+            data-virtual-list={isWindowed || undefined}
+            gap={`${TASK_GAP_PX}px`}
+            flex="1"
+            overflowY="auto"
+            minH="0"
+            pr={1}
+            display={isCollapsed ? "none" : "flex"}
+            // A windowed list has no placeholder, so it makes room for a card dragged over it itself.
+            style={
+              range
+                ? {
+                    paddingTop: range.paddingTop,
+                    paddingBottom:
+                      range.paddingBottom +
+                      (snapshot.isUsingPlaceholder && snapshot.draggingOverWith
+                        ? getSize(snapshot.draggingOverWith) + TASK_GAP_PX
+                        : 0),
+                  }
+                : undefined
+            }
+          >
+            {(range ? listedTasks.slice(range.start, range.end) : listedTasks).map(({ task, index }) => (
+              <Draggable key={task.id} draggableId={task.id} index={index}>
+                {(taskProvided, taskSnapshot) => renderTask(task, taskProvided, taskSnapshot)}
+              </Draggable>
+            ))}
+            {tasks.length === 0 && (
+              <Text fontSize="sm" color={{ base: "gray.400", _dark: "gray.500" }} textAlign="center" py={4}>
+                {t.cell.emptyHint}
+              </Text>
+            )}
+            {!isWindowed && provided.placeholder}
+          </Flex>
+        )}
+      </Droppable>
+
+      <chakra.form onSubmit={handleSubmit} mt="auto" display={isCollapsed ? "none" : "flex"} gap={2}>
+        <Input
+          size="sm"
+          placeholder={t.defaults.newTask}
+          value={newTaskTitle}
+          onChange={(event) => setNewTaskTitle(event.target.value)}
+        />
+        <Button type="submit" size="sm" colorScheme="blue">
+          {t.common.add}
+        </Button>
+      </chakra.form>
+
+      {dropQuadrant && (
+        <Box
+          position="absolute"
+          {...QUADRANT_OVERLAY_STYLES[dropQuadrant]}
+          bg="blue.400/20"
+          borderColor="blue.400"
+          borderRadius="lg"
+          pointerEvents="none"
+          zIndex={3}
+          data-drop-quadrant={dropQuadrant}
+        />
+      )}
+
+      {hasBottomNeighbor && (
+        <Box
+          position="absolute"
+          left={4}
+          right={4}
+          bottom={-3}
+          height="6px"
+          borderRadius="full"
+          bg="transparent"
+          _hover={{ bg: "blue.300" }}
+          _focusVisible={{ bg: "blue.400", outline: "none" }}
+          cursor="row-resize"
+          onPointerDown={(event) => onStartResize(columnId, cell.id, event)}
+          onKeyDown={(event) => onResizeKey(columnId, cell.id, event)}
+          tabIndex={0}
+          role="separator"
+          aria-orientation="horizontal"
+          aria-valuenow={resizeValue}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label={t.cell.resize}
+          zIndex={2}
+        />
+      )}
+    </Flex>
+  );
+}, areCellCardPropsEqual);
+
+export default CellCard;
@@ -0,0 +1,85 @@
+"use client";
+
+import { memo } from "react";
+import { Badge, Flex, IconButton, Text } from "@chakra-ui/react";
+import { ChevronRightIcon } from "@chakra-ui/icons";
+import { DraggableProvidedDragHandleProps } from "@hello-pangea/dnd";
+import { ItemColor } from "@/types/board";
+import { useI18n } from "@/hooks/useI18n";
+import ItemIcon from "@/components/board/ItemIcon";
+import { COLLAPSED_COLUMN_WIDTH_PX, COLUMN_MIN_HEIGHT } from "@/components/board/boardLayout";
+
+type CollapsedColumnProps = {
+  columnId: string;
+  title: string;
+  color: ItemColor | undefined;
+  icon: string | undefined;
+  taskCount: number;
+  isOverWipLimit: boolean;
+  dragHandleProps: DraggableProvidedDragHandleProps | null | undefined;
+  onSetCollapsed: (columnId: string, collapsed: boolean) => void;
+};
+
+// A collapsed column: a narrow strip with the title running down it and the task count.
+const CollapsedColumn = memo(function CollapsedColumn({
+  columnId,
+  title,
+  color,
+  icon,
+  taskCount,
+  isOverWipLimit,
+  dragHandleProps,
+  onSetCollapsed,
+}: CollapsedColumnProps) {
+  const { t } = useI18n();
+  return (
+    <Flex
+      direction="column"
+      align="center"
+      gap={3}
+      width={`${COLLAPSED_COLUMN_WIDTH_PX}px`}
+      flexShrink={0}
+      py={4}
+      minH={`${COLUMN_MIN_HEIGHT}px`}
+      height="100%"
+      bg={color ? { base: `${color}.100`, _dark: `${color}.900` } : { base: "gray.100", _dark: "gray.900" }}
+      borderRadius="xl"
+      borderWidth="1px"
+      borderColor={isOverWipLimit ? "red.400" : { base: "gray.200", _dark: "gray.700" }}
+      role="group"
+      aria-label={t.column.collapsedLabel(title)}
+      cursor="grab"
+      {...dragHandleProps}
+    >
+      <IconButton
+        aria-label={t.column.expand}
+        size="xs"
+        variant="ghost"
+        onClick={() => onSetCollapsed(columnId, false)}
+      >
+        <ChevronRightIcon />
+      </IconButton>
+      <Badge
+        colorPalette={isOverWipLimit ? "red" : "gray"}
+        variant="subtle"
+        aria-label={t.cell.taskCount(taskCount)}
+      >
+        {taskCount}
+      </Badge>
+      <ItemIcon icon={icon} />
+      <Text
+        fontWeight="semibold"
+        color={{ base: "gray.700", _dark: "gray.100" }}
+        css={{ writingMode: "vertical-rl" }}
+        overflow="hidden"
+        textOverflow="ellipsis"
+        whiteSpace="nowrap"
+        minH="0"
+      >
+        {title}
+      </Text>
+    </Flex>
+  );
+});
+
+export default CollapsedColumn;
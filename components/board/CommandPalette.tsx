@@ -0,0 +1,156 @@
+"use client";
+
+import { KeyboardEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Box, Dialog, Flex, Input, Portal, Text } from "@chakra-ui/react";
+import { useI18n } from "@/hooks/useI18n";
+
+export type BoardCommand = {
+  id: string;
+  label: string;
+  // Shown next to the label, e.g. the shortcut that does the same thing.
+  hint?: string;
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  open: boolean;
+  commands: BoardCommand[];
+  onClose: () => void;
+};
+
+const MAX_VISIBLE_COMMANDS = 50;
+
+// Every word of the query has to appear somewhere in the label, in any order.
+const matchesQuery = (command: BoardCommand, query: string) => {
+  const label = command.label.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => label.includes(word));
+};
+
+const optionId = (commandId: string) => `command-${commandId}`;
+
+const CommandPalette = ({ open, commands, onClose }: CommandPaletteProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }, [open]);
+
+  const matches = useMemo(
+    () => commands.filter((command) => matchesQuery(command, query.trim())).slice(0, MAX_VISIBLE_COMMANDS),
+    [commands, query],
+  );
+  const activeCommand = matches[Math.min(activeIndex, matches.length - 1)];
+
+  useEffect(() => {
+    if (activeCommand) {
+      listRef.current
+        ?.querySelector(`#${CSS.escape(optionId(activeCommand.id))}`)
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeCommand]);
+
+  const runCommand = useCallback(
+    (command: BoardCommand) => {
+      onClose();
+      command.run();
+    },
+    [onClose],
+  );
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (index) => (Math.min(index, matches.length - 1) + step + matches.length) % matches.length,
+        );
+      } else if (event.key === "Enter" && activeCommand) {
+        event.preventDefault();
+        runCommand(activeCommand);
+      }
+    },
+    [activeCommand, matches.length, runCommand],
+  );
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(details) => !details.open && onClose()}
+      initialFocusEl={() => inputRef.current}
+      placement="top"
+    >
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content>
+            <Dialog.Header pb={2}>
+              <Dialog.Title srOnly>{t.commandPalette.title}</Dialog.Title>
+              <Input
+                ref={inputRef}
+                value={query}
+                onChange={(event) => {
+                  setQuery(event.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleKeyDown}
+                placeholder={t.commandPalette.placeholder}
+                role="combobox"
+                aria-expanded="true"
+                aria-controls="command-palette-list"
+                aria-activedescendant={activeCommand ? optionId(activeCommand.id) : undefined}
+                aria-label={t.commandPalette.search}
+              />
+            </Dialog.Header>
+            <Dialog.Body pt={0}>
+              <Box ref={listRef} id="command-palette-list" role="listbox" maxH="360px" overflowY="auto">
+                {matches.map((command) => (
+                  <Flex
+                    key={command.id}
+                    id={optionId(command.id)}
+                    role="option"
+                    aria-selected={command === activeCommand}
+                    align="center"
+                    justify="space-between"
+                    gap={3}
+                    px={3}
+                    py={2}
+                    borderRadius="md"
+                    cursor="pointer"
+                    bg={command === activeCommand ? { base: "blue.50", _dark: "blue.900" } : "transparent"}
+                    onMouseEnter={() => setActiveIndex(matches.indexOf(command))}
+                    onClick={() => runCommand(command)}
+                  >
+                    <Text fontSize="sm">{command.label}</Text>
+                    {command.hint && (
+                      <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+                        {command.hint}
+                      </Text>
+                    )}
+                  </Flex>
+                ))}
+                {matches.length === 0 && (
+                  <Text fontSize="sm" color={{ base: "gray.500", _dark: "gray.400" }} py={4} textAlign="center">
+                    {t.commandPalette.empty}
+                  </Text>
+                )}
+              </Box>
+            </Dialog.Body>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  );
+};
+
+export default CommandPalette;
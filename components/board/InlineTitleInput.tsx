@@ -0,0 +1,73 @@
+"use client";
+
+import { ChangeEvent, KeyboardEvent, useCallback, useEffect, useState } from "react";
+import { chakra } from "@chakra-ui/react";
+
+type InlineTitleInputProps = {
+  value: string;
+  fallback: string;
+  onCommit: (value: string) => void;
+  fontSize?: string;
+  ariaLabel?: string;
+};
+
+const InlineTitleInput = ({ value, fallback, onCommit, fontSize, ariaLabel }: InlineTitleInputProps) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = useCallback(() => {
+    const trimmed = draft.trim();
+    onCommit(trimmed.length > 0 ? trimmed : fallback);
+  }, [draft, fallback, onCommit]);
+
+  const handleChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setDraft(event.target.value);
+  }, []);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        commit();
+        event.currentTarget.blur();
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setDraft(value);
+        event.currentTarget.blur();
+      }
+    },
+    [commit, value],
+  );
+
+  return (
+    <chakra.input
+      value={draft}
+      onChange={handleChange}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      fontSize={fontSize}
+      fontWeight="semibold"
+      color={{ base: "gray.700", _dark: "gray.100" }}
+      placeholder={fallback}
+      aria-label={ariaLabel}
+      minW="0"
+      px={1}
+      py={1}
+      border="none"
+      bg="transparent"
+      borderRadius="md"
+      _focusVisible={{
+        outline: "none",
+        boxShadow: "0 0 0 1px var(--chakra-colors-blue-400)",
+        bg: { base: "gray.50", _dark: "gray.800" },
+      }}
+      transition="background-color 0.2s ease, box-shadow 0.2s ease"
+    />
+  );
+};
+
+export default InlineTitleInput;
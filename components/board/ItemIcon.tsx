@@ -0,0 +1,18 @@
+"use client";
+
+import { Text } from "@chakra-ui/react";
+import { ItemColor } from "@/types/board";
+
+// Background for the header of a coloured column or cell. The negative margin keeps the title
+// where it is without a colour.
+export const tintedHeaderProps = (color: ItemColor | undefined) =>
+  color ? { bg: { base: `${color}.100`, _dark: `${color}.900` }, mx: -2, px: 2, borderRadius: "md" } : {};
+
+const ItemIcon = ({ icon }: { icon?: string }) =>
+  icon ? (
+    <Text as="span" fontSize="lg" lineHeight="1" flexShrink={0} aria-hidden="true">
+      {icon}
+    </Text>
+  ) : null;
+
+export default ItemIcon;
@@ -0,0 +1,108 @@
+"use client";
+
+import { Fragment } from "react";
+import { CloseButton, Dialog, Flex, Grid, Heading, Kbd, Portal, Stack, Text } from "@chakra-ui/react";
+import { Messages } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+type Shortcut = {
+  keys: string[];
+  description: string;
+};
+
+const getShortcutGroups = ({ shortcuts: s }: Messages): { title: string; shortcuts: Shortcut[] }[] => [
+  {
+    title: s.navigate.title,
+    shortcuts: [
+      { keys: ["↑", "↓"], description: s.navigate.upDown },
+      { keys: ["←", "→"], description: s.navigate.leftRight },
+      { keys: ["Enter"], description: s.navigate.open },
+    ],
+  },
+  {
+    title: s.move.title,
+    shortcuts: [
+      { keys: ["Alt", "↑ / ↓"], description: s.move.upDown },
+      { keys: ["Alt", "← / →"], description: s.move.leftRight },
+      { keys: ["Space"], description: s.move.lift },
+    ],
+  },
+  {
+    title: s.select.title,
+    shortcuts: [
+      { keys: ["Ctrl", s.keys.click], description: s.select.toggle },
+      { keys: ["Shift", s.keys.click], description: s.select.range },
+      { keys: ["Esc"], description: s.select.clear },
+    ],
+  },
+  {
+    title: s.resize.title,
+    shortcuts: [
+      { keys: ["↑ / ↓"], description: s.resize.cell },
+      { keys: ["← / →"], description: s.resize.column },
+      { keys: ["Shift", s.keys.arrows], description: s.resize.large },
+    ],
+  },
+  {
+    title: s.board.title,
+    shortcuts: [
+      { keys: ["Ctrl", "K"], description: s.board.palette },
+      { keys: ["/"], description: s.board.search },
+      { keys: ["Ctrl", "Z"], description: s.board.undo },
+      { keys: ["Ctrl", "Shift", "Z"], description: s.board.redo },
+      { keys: ["?"], description: s.board.help },
+    ],
+  },
+];
+
+type KeyboardShortcutsDialogProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+const KeyboardShortcutsDialog = ({ open, onClose }: KeyboardShortcutsDialogProps) => {
+  const { t } = useI18n();
+  return (
+    <Dialog.Root open={open} onOpenChange={(details) => !details.open && onClose()} size="lg">
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content>
+            <Dialog.Header>
+              <Dialog.Title>{t.shortcuts.title}</Dialog.Title>
+            </Dialog.Header>
+            <Dialog.Body>
+              <Stack gap={5}>
+                {getShortcutGroups(t).map((group) => (
+                  <Stack key={group.title} gap={2}>
+                    <Heading size="sm">{group.title}</Heading>
+                    <Grid templateColumns="auto 1fr" columnGap={4} rowGap={2} alignItems="center">
+                      {group.shortcuts.map((shortcut) => (
+                        <Fragment key={shortcut.description}>
+                          <Flex gap={1} wrap="wrap">
+                            {shortcut.keys.map((key) => (
+                              <Kbd key={key}>{key}</Kbd>
+                            ))}
+                          </Flex>
+                          <Text fontSize="sm">{shortcut.description}</Text>
+                        </Fragment>
+                      ))}
+                    </Grid>
+                  </Stack>
+                ))}
+                <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+                  {t.shortcuts.macNote}
+                </Text>
+              </Stack>
+            </Dialog.Body>
+            <Dialog.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Dialog.CloseTrigger>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  );
+};
+
+export default KeyboardShortcutsDialog;
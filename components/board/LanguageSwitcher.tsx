@@ -0,0 +1,28 @@
+"use client";
+
+import { NativeSelect } from "@chakra-ui/react";
+import { LOCALES, LOCALE_NAMES, isLocale } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+// Picks the interface language; the choice is remembered in this browser.
+const LanguageSwitcher = () => {
+  const { locale, t, setLocale } = useI18n();
+  return (
+    <NativeSelect.Root size="sm" width="auto">
+      <NativeSelect.Field
+        value={locale}
+        onChange={(event) => isLocale(event.target.value) && setLocale(event.target.value)}
+        aria-label={t.app.language}
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </NativeSelect.Field>
+      <NativeSelect.Indicator />
+    </NativeSelect.Root>
+  );
+};
+
+export default LanguageSwitcher;
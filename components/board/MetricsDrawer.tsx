@@ -0,0 +1,226 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Box,
+  CloseButton,
+  Drawer,
+  Flex,
+  Grid,
+  Heading,
+  Portal,
+  Stack,
+  Stat,
+  Table,
+  Text,
+  chakra,
+} from "@chakra-ui/react";
+import { BoardState } from "@/types/board";
+import {
+  CumulativeFlow,
+  DurationStats,
+  ItemTime,
+  ThroughputWeek,
+  computeBoardMetrics,
+  formatDuration,
+} from "@/lib/boardMetrics";
+import { useI18n } from "@/hooks/useI18n";
+
+const FLOW_COLORS = ["blue", "teal", "green", "orange", "purple", "pink", "cyan", "yellow", "red"];
+const FLOW_WIDTH = 560;
+const FLOW_HEIGHT = 200;
+const THROUGHPUT_BAR_MAX_PX = 120;
+
+const flowColor = (index: number) => `var(--chakra-colors-${FLOW_COLORS[index % FLOW_COLORS.length]}-400)`;
+
+// `YYYY-MM-DD` to `MM-DD` for axis labels.
+const shortDate = (dateKey: string) => dateKey.slice(5);
+
+const DurationStat = ({ label, stats }: { label: string; stats: DurationStats | null }) => {
+  const { t } = useI18n();
+  return (
+    <Stat.Root borderWidth="1px" borderRadius="md" p={3}>
+      <Stat.Label>{label}</Stat.Label>
+      <Stat.ValueText fontSize="xl">{stats ? formatDuration(stats.average, t) : "–"}</Stat.ValueText>
+      <Stat.HelpText>
+        {stats ? t.metrics.median(formatDuration(stats.median, t), stats.count) : t.metrics.noneCompleted}
+      </Stat.HelpText>
+    </Stat.Root>
+  );
+};
+
+const TimeTable = ({ caption, rows }: { caption: string; rows: ItemTime[] }) => {
+  const { t } = useI18n();
+  return (
+    <Stack gap={2}>
+      <Heading size="sm">{caption}</Heading>
+      {rows.length === 0 ? (
+        <Text fontSize="sm" color={{ base: "gray.500", _dark: "gray.400" }}>
+          {t.metrics.noRecords}
+        </Text>
+      ) : (
+        <Table.Root size="sm">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeader>{t.metrics.name}</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="end">{t.metrics.averageTime}</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="end">{t.metrics.tasks}</Table.ColumnHeader>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {rows.map((row) => (
+              <Table.Row key={row.id}>
+                <Table.Cell>{row.title}</Table.Cell>
+                <Table.Cell textAlign="end">{formatDuration(row.average, t)}</Table.Cell>
+                <Table.Cell textAlign="end">{row.taskCount}</Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table.Root>
+      )}
+    </Stack>
+  );
+};
+
+const ThroughputChart = ({ weeks }: { weeks: ThroughputWeek[] }) => {
+  const { t } = useI18n();
+  const max = Math.max(1, ...weeks.map((week) => week.count));
+  return (
+    <Flex align="flex-end" gap={2} role="img" aria-label={t.metrics.throughput}>
+      {weeks.map((week) => (
+        <Flex key={week.weekStart} direction="column" align="center" gap={1} flex="1">
+          <Text fontSize="xs">{week.count}</Text>
+          <Box
+            w="100%"
+            h={`${Math.max(2, (week.count / max) * THROUGHPUT_BAR_MAX_PX)}px`}
+            bg={week.count > 0 ? "blue.400" : { base: "gray.200", _dark: "gray.700" }}
+            borderRadius="sm"
+            title={t.metrics.week(week.weekStart, week.count)}
+          />
+          <Text fontSize="2xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+            {shortDate(week.weekStart)}
+          </Text>
+        </Flex>
+      ))}
+    </Flex>
+  );
+};
+
+// Stacked bands with the last (done) column at the bottom, as cumulative flow diagrams are read.
+const CumulativeFlowChart = ({ flow }: { flow: CumulativeFlow }) => {
+  const { t } = useI18n();
+  const bands = useMemo(() => {
+    const dayCount = flow.days.length;
+    const totals = flow.days.map((_, day) =>
+      flow.columns.reduce((sum, column) => sum + column.counts[day], 0),
+    );
+    const max = Math.max(1, ...totals);
+    const x = (day: number) => (dayCount > 1 ? (day / (dayCount - 1)) * FLOW_WIDTH : FLOW_WIDTH / 2);
+    const y = (value: number) => FLOW_HEIGHT - (value / max) * FLOW_HEIGHT;
+    const base = flow.days.map(() => 0);
+    return [...flow.columns]
+      .map((column, index) => ({ column, index }))
+      .reverse()
+      .map(({ column, index }) => {
+        const lower = [...base];
+        column.counts.forEach((count, day) => {
+          base[day] += count;
+        });
+        const top = base.map((value, day) => `${x(day)},${y(value)}`);
+        const bottom = lower.map((value, day) => `${x(day)},${y(value)}`).reverse();
+        return { id: column.columnId, index, points: [...top, ...bottom].join(" ") };
+      });
+  }, [flow]);
+
+  return (
+    <Stack gap={2}>
+      <chakra.svg
+        viewBox={`0 0 ${FLOW_WIDTH} ${FLOW_HEIGHT}`}
+        preserveAspectRatio="none"
+        w="100%"
+        h={`${FLOW_HEIGHT}px`}
+        borderWidth="1px"
+        borderRadius="md"
+        role="img"
+        aria-label={t.metrics.cumulativeFlowLabel}
+      >
+        {bands.map((band) => (
+          <polygon key={band.id} points={band.points} fill={flowColor(band.index)} fillOpacity={0.8} />
+        ))}
+      </chakra.svg>
+      <Flex justify="space-between" fontSize="2xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+        <Text>{shortDate(flow.days[0] ?? "")}</Text>
+        <Text>{shortDate(flow.days[flow.days.length - 1] ?? "")}</Text>
+      </Flex>
+      <Flex gap={3} wrap="wrap">
+        {flow.columns.map((column, index) => (
+          <Flex key={column.columnId} align="center" gap={1} fontSize="xs">
+            <Box boxSize="10px" borderRadius="sm" style={{ background: flowColor(index) }} />
+            {column.title} ({column.counts[column.counts.length - 1] ?? 0})
+          </Flex>
+        ))}
+      </Flex>
+    </Stack>
+  );
+};
+
+type MetricsDrawerProps = {
+  open: boolean;
+  state: BoardState;
+  onClose: () => void;
+};
+
+const MetricsDrawer = ({ open, state, onClose }: MetricsDrawerProps) => {
+  const { t } = useI18n();
+  const metrics = useMemo(() => (open ? computeBoardMetrics(state, Date.now()) : null), [open, state]);
+
+  return (
+    <Drawer.Root open={open} onOpenChange={(details) => !details.open && onClose()} size="lg">
+      <Portal>
+        <Drawer.Backdrop />
+        <Drawer.Positioner>
+          <Drawer.Content>
+            <Drawer.Header>
+              <Drawer.Title>{t.metrics.title}</Drawer.Title>
+            </Drawer.Header>
+            <Drawer.Body>
+              {metrics && (
+                <Stack gap={6}>
+                  <Text fontSize="sm" color={{ base: "gray.500", _dark: "gray.400" }}>
+                    {t.metrics.note}
+                  </Text>
+                  <Grid templateColumns="repeat(3, 1fr)" gap={3}>
+                    <Stat.Root borderWidth="1px" borderRadius="md" p={3}>
+                      <Stat.Label>{t.metrics.completed}</Stat.Label>
+                      <Stat.ValueText fontSize="xl">{metrics.completedCount}</Stat.ValueText>
+                      <Stat.HelpText>{t.metrics.tasks}</Stat.HelpText>
+                    </Stat.Root>
+                    <DurationStat label={t.metrics.leadTime} stats={metrics.leadTime} />
+                    <DurationStat label={t.metrics.cycleTime} stats={metrics.cycleTime} />
+                  </Grid>
+                  <Stack gap={2}>
+                    <Heading size="sm">{t.metrics.throughput}</Heading>
+                    <ThroughputChart weeks={metrics.throughput} />
+                  </Stack>
+                  <Stack gap={2}>
+                    <Heading size="sm">
+                      {t.metrics.cumulativeFlow(metrics.cumulativeFlow.days.length)}
+                    </Heading>
+                    <CumulativeFlowChart flow={metrics.cumulativeFlow} />
+                  </Stack>
+                  <TimeTable caption={t.metrics.columnTimes} rows={metrics.columnTimes} />
+                  <TimeTable caption={t.metrics.cellTimes} rows={metrics.cellTimes} />
+                </Stack>
+              )}
+            </Drawer.Body>
+            <Drawer.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Drawer.CloseTrigger>
+          </Drawer.Content>
+        </Drawer.Positioner>
+      </Portal>
+    </Drawer.Root>
+  );
+};
+
+export default MetricsDrawer;
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button, CloseButton, Dialog, NativeSelect, Portal, Stack, Text, chakra } from "@chakra-ui/react";
+import { BoardMeta, BoardParcel, BoardState, Column } from "@/types/board";
+import { fetchBoard, fetchBoards } from "@/lib/boardApi";
+import { useI18n } from "@/hooks/useI18n";
+
+// The column or cell being moved.
+export type MoveSubject = { kind: BoardParcel["kind"]; id: string; title: string };
+
+export type MoveDestination = { boardId: string; columnId?: string; index: number };
+
+const FieldLabel = chakra("label", {
+  base: { fontSize: "sm", fontWeight: "medium", display: "flex", flexDirection: "column", gap: 1 },
+});
+
+type MoveToDialogProps = {
+  subject: MoveSubject | null;
+  boardId: string;
+  state: BoardState;
+  onMove: (subject: MoveSubject, destination: MoveDestination) => Promise<void>;
+  onClose: () => void;
+};
+
+const MoveToDialog = ({ subject, boardId, state, onMove, onClose }: MoveToDialogProps) => {
+  const { t } = useI18n();
+  const [boards, setBoards] = useState<BoardMeta[]>([]);
+  const [targetBoardId, setTargetBoardId] = useState(boardId);
+  // Columns of another board, fetched when it is picked; this board's come from `state`.
+  const [remoteColumns, setRemoteColumns] = useState<Column[] | null>(null);
+  const [columnId, setColumnId] = useState("");
+  const [index, setIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+
+  useEffect(() => {
+    if (!subject) {
+      return;
+    }
+    setTargetBoardId(boardId);
+    setColumnId("");
+    setIndex(null);
+    setError(null);
+    let cancelled = false;
+    fetchBoards().then(
+      (list) => !cancelled && setBoards(list),
+      () => !cancelled && setBoards([]),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, subject]);
+
+  useEffect(() => {
+    setRemoteColumns(null);
+    setColumnId("");
+    setIndex(null);
+    if (targetBoardId === boardId) {
+      return;
+    }
+    let cancelled = false;
+    fetchBoard(targetBoardId).then(
+      (record) => !cancelled && setRemoteColumns(record.board.columns),
+      () => !cancelled && setError(t.moveTo.loadFailed),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, t, targetBoardId]);
+
+  const isSameBoard = targetBoardId === boardId;
+  const columns = isSameBoard ? state.columns : remoteColumns;
+  const targetColumn = columns?.find((column) => column.id === columnId) ?? columns?.[0];
+
+  // Positions the item can take. Within one board the item itself doesn't count, so a column (or a
+  // cell staying in its column) has one position fewer to choose from.
+  const positionCount = useMemo(() => {
+    if (!columns || !subject) {
+      return 0;
+    }
+    if (subject.kind === "column") {
+      return columns.length + (isSameBoard ? 0 : 1);
+    }
+    const cells = targetColumn?.cells ?? [];
+    return cells.length + (cells.some((cell) => cell.id === subject.id) ? 0 : 1);
+  }, [columns, isSameBoard, subject, targetColumn]);
+  const selectedIndex = index !== null && index < positionCount ? index : positionCount - 1;
+
+  const handleSubmit = async () => {
+    if (!subject || positionCount === 0) {
+      return;
+    }
+    setIsMoving(true);
+    setError(null);
+    try {
+      await onMove(subject, {
+        boardId: targetBoardId,
+        columnId: subject.kind === "cell" ? targetColumn?.id : undefined,
+        index: selectedIndex,
+      });
+      onClose();
+    } catch (moveError) {
+      setError(moveError instanceof Error ? moveError.message : t.moveTo.failed);
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={subject !== null} onOpenChange={(details) => !details.open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content>
+            <Dialog.Header>
+              <Dialog.Title>
+                {subject && t.moveTo.title(subject.kind, subject.title)}
+              </Dialog.Title>
+            </Dialog.Header>
+            <Dialog.Body>
+              <Stack gap={3}>
+                <FieldLabel>
+                  {t.moveTo.board}
+                  <NativeSelect.Root size="sm">
+                    <NativeSelect.Field
+                      value={targetBoardId}
+                      onChange={(event) => setTargetBoardId(event.target.value)}
+                    >
+                      <option value={boardId}>{t.moveTo.currentBoard}</option>
+                      {boards
+                        .filter((board) => board.id !== boardId)
+                        .map((board) => (
+                          <option key={board.id} value={board.id}>
+                            {board.name}
+                          </option>
+                        ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                </FieldLabel>
+                {subject?.kind === "cell" && (
+                  <FieldLabel>
+                    {t.moveTo.column}
+                    <NativeSelect.Root size="sm" disabled={!columns || columns.length === 0}>
+                      <NativeSelect.Field
+                        value={targetColumn?.id ?? ""}
+                        onChange={(event) => {
+                          setColumnId(event.target.value);
+                          setIndex(null);
+                        }}
+                      >
+                        {columns?.length === 0 && <option value="">{t.moveTo.noColumns}</option>}
+                        {columns?.map((column) => (
+                          <option key={column.id} value={column.id}>
+                            {column.title}
+                          </option>
+                        ))}
+                      </NativeSelect.Field>
+                      <NativeSelect.Indicator />
+                    </NativeSelect.Root>
+                  </FieldLabel>
+                )}
+                <FieldLabel>
+                  {t.moveTo.position}
+                  <NativeSelect.Root size="sm" disabled={positionCount === 0}>
+                    <NativeSelect.Field
+                      value={String(selectedIndex)}
+                      onChange={(event) => setIndex(Number(event.target.value))}
+                    >
+                      {Array.from({ length: positionCount }, (_, position) => (
+                        <option key={position} value={position}>
+                          {t.moveTo.nth(position + 1)}
+                        </option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                </FieldLabel>
+                {!isSameBoard && (
+                  <Text fontSize="sm" color={{ base: "gray.600", _dark: "gray.400" }}>
+                    {t.moveTo.crossBoardNote}
+                  </Text>
+                )}
+                {error && (
+                  <Text fontSize="sm" color={{ base: "red.600", _dark: "red.300" }} role="alert">
+                    {error}
+                  </Text>
+                )}
+              </Stack>
+            </Dialog.Body>
+            <Dialog.Footer>
+              <Button variant="outline" onClick={onClose}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                colorPalette="blue"
+                loading={isMoving}
+                disabled={positionCount === 0}
+                onClick={handleSubmit}
+              >
+                {t.moveTo.submit}
+              </Button>
+            </Dialog.Footer>
+            <Dialog.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Dialog.CloseTrigger>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  );
+};
+
+export default MoveToDialog;
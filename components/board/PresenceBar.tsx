@@ -0,0 +1,69 @@
+"use client";
+
+import { Box, Flex, Text } from "@chakra-ui/react";
+import { BoardPeer } from "@/types/board";
+import { Collaborator } from "@/lib/collaborator";
+import InlineTitleInput from "@/components/board/InlineTitleInput";
+import { useI18n } from "@/hooks/useI18n";
+
+type PresenceBarProps = {
+  self: Collaborator;
+  peers: BoardPeer[];
+  onRename: (name: string) => void;
+};
+
+const PeerAvatar = ({ name, color, title }: { name: string; color: string; title: string }) => (
+  <Box
+    w="28px"
+    h="28px"
+    borderRadius="full"
+    bg={`${color}.500`}
+    color="white"
+    fontSize="xs"
+    fontWeight="bold"
+    display="flex"
+    alignItems="center"
+    justifyContent="center"
+    borderWidth="2px"
+    borderColor={{ base: "white", _dark: "gray.800" }}
+    title={title}
+    flexShrink={0}
+  >
+    {name.slice(0, 1)}
+  </Box>
+);
+
+const PresenceBar = ({ self, peers, onRename }: PresenceBarProps) => {
+  const { t } = useI18n();
+  return (
+    <Flex align="center" gap={2} aria-label={t.presence.label}>
+      <Flex>
+        {peers.map((peer, index) => (
+          <Box key={peer.clientId} ml={index === 0 ? 0 : -2}>
+            <PeerAvatar
+              name={peer.name}
+              color={peer.color}
+              title={peer.activity ? `${peer.name} · ${t.presence.activity[peer.activity.type]}` : peer.name}
+            />
+          </Box>
+        ))}
+      </Flex>
+      {peers.length > 0 && (
+        <Text fontSize="sm" color={{ base: "gray.500", _dark: "gray.400" }}>
+          {t.presence.viewers(peers.length)}
+        </Text>
+      )}
+      <PeerAvatar name={self.name} color={self.color} title={t.presence.me} />
+      <Box w="120px">
+        <InlineTitleInput
+          value={self.name}
+          fallback={self.name}
+          onCommit={onRename}
+          ariaLabel={t.presence.myName}
+        />
+      </Box>
+    </Flex>
+  );
+};
+
+export default PresenceBar;
@@ -0,0 +1,126 @@
+"use client";
+
+import { Box, Button, Flex, IconButton, Stack } from "@chakra-ui/react";
+import {
+  AddIcon,
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DeleteIcon,
+} from "@chakra-ui/icons";
+import { Swimlane } from "@/types/board";
+import { useI18n } from "@/hooks/useI18n";
+import InlineTitleInput from "@/components/board/InlineTitleInput";
+import {
+  CELL_MIN_HEIGHT_PX,
+  COLLAPSED_ROW_HEIGHT_PX,
+  COLUMN_HEADER_HEIGHT_PX,
+  COLUMN_MIN_HEIGHT,
+  SWIMLANE_GUTTER_WIDTH_PX,
+} from "@/components/board/boardLayout";
+
+type SwimlaneGutterProps = {
+  lanes: Swimlane[];
+  // Each lane's height weight, shared by the cells of that row in every column.
+  heights: number[];
+  onAdd: () => void;
+  onUpdate: (laneId: string, changes: { title?: string; collapsed?: boolean }) => void;
+  onMove: (laneId: string, toIndex: number) => void;
+  onDelete: (laneId: string) => void;
+};
+
+// Lane titles and controls, laid out like a column so each entry lines up with its row of cells.
+const SwimlaneGutter = ({ lanes, heights, onAdd, onUpdate, onMove, onDelete }: SwimlaneGutterProps) => {
+  const { t } = useI18n();
+  return (
+    <Box
+      width={`${SWIMLANE_GUTTER_WIDTH_PX}px`}
+      flexShrink={0}
+      py={4}
+      display="flex"
+      flexDirection="column"
+      gap={4}
+      minH={`${COLUMN_MIN_HEIGHT}px`}
+      height="100%"
+      borderWidth="1px"
+      borderColor="transparent"
+    >
+      <Flex align="center" h={`${COLUMN_HEADER_HEIGHT_PX}px`}>
+        <Button size="sm" variant="outline" onClick={onAdd} display="inline-flex" alignItems="center" gap={2}>
+          <AddIcon boxSize={3} />
+          {t.board.addLane}
+        </Button>
+      </Flex>
+      <Flex direction="column" gap={3} flex="1" minH="200px">
+        {lanes.map((lane, index) => (
+          <Stack
+            key={lane.id}
+            flex={lane.collapsed ? "0 0 auto" : `${heights[index] ?? 1} 1 0`}
+            height={lane.collapsed ? `${COLLAPSED_ROW_HEIGHT_PX}px` : undefined}
+            minH={lane.collapsed ? undefined : `${CELL_MIN_HEIGHT_PX}px`}
+            gap={1}
+            p={2}
+            borderLeftWidth="3px"
+            borderColor={{ base: "blue.300", _dark: "blue.500" }}
+            bg={{ base: "gray.50", _dark: "gray.900" }}
+            borderRadius="md"
+            role="group"
+            aria-label={t.lane.label(lane.title)}
+          >
+            <Flex align="center" gap={1}>
+              <IconButton
+                aria-label={lane.collapsed ? t.lane.expand : t.lane.collapse}
+                aria-expanded={!lane.collapsed}
+                size="xs"
+                variant="ghost"
+                onClick={() => onUpdate(lane.id, { collapsed: !lane.collapsed })}
+              >
+                {lane.collapsed ? <ChevronRightIcon /> : <ChevronDownIcon />}
+              </IconButton>
+              <InlineTitleInput
+                value={lane.title}
+                fallback={t.defaults.lane}
+                onCommit={(next) => onUpdate(lane.id, { title: next })}
+                ariaLabel={t.lane.title}
+              />
+            </Flex>
+            {!lane.collapsed && (
+              <Flex gap={1}>
+                <IconButton
+                  aria-label={t.lane.moveUp}
+                  size="xs"
+                  variant="ghost"
+                  disabled={index === 0}
+                  onClick={() => onMove(lane.id, index - 1)}
+                >
+                  <ArrowUpIcon />
+                </IconButton>
+                <IconButton
+                  aria-label={t.lane.moveDown}
+                  size="xs"
+                  variant="ghost"
+                  disabled={index === lanes.length - 1}
+                  onClick={() => onMove(lane.id, index + 1)}
+                >
+                  <ArrowDownIcon />
+                </IconButton>
+                <IconButton
+                  aria-label={t.lane.delete}
+                  size="xs"
+                  variant="ghost"
+                  disabled={lanes.length === 1}
+                  onClick={() => onDelete(lane.id)}
+                >
+                  <DeleteIcon boxSize={3} />
+                </IconButton>
+              </Flex>
+            )}
+          </Stack>
+        ))}
+      </Flex>
+    </Box>
+  );
+};
+
+export default SwimlaneGutter;
@@ -0,0 +1,96 @@
+"use client";
+
+import { Badge, Flex, Highlight, IconButton, Text } from "@chakra-ui/react";
+import { ArrowDownIcon, ArrowUpIcon, DeleteIcon, MinusIcon, WarningIcon } from "@chakra-ui/icons";
+import { BoardPeer, Task, TaskPriority } from "@/types/board";
+import { isOverdue } from "@/lib/taskUtils";
+import { useI18n } from "@/hooks/useI18n";
+
+const PRIORITY_ICONS: Record<TaskPriority, { icon: typeof WarningIcon; color: string }> = {
+  urgent: { icon: WarningIcon, color: "red.500" },
+  high: { icon: ArrowUpIcon, color: "orange.500" },
+  medium: { icon: MinusIcon, color: "yellow.500" },
+  low: { icon: ArrowDownIcon, color: "blue.400" },
+};
+
+type TaskCardProps = {
+  task: Task;
+  // Someone else who is dragging or editing this card right now.
+  peer?: BoardPeer;
+  // Search terms to mark in the title.
+  highlightTerms?: string[];
+  onRemove: () => void;
+};
+
+const TaskCard = ({ task, peer, highlightTerms, onRemove }: TaskCardProps) => {
+  const { t } = useI18n();
+  const priority = task.priority ? PRIORITY_ICONS[task.priority] : null;
+  const overdue = isOverdue(task.dueDate);
+  const hasMeta =
+    Boolean(task.dueDate) || (task.labels?.length ?? 0) > 0 || (task.assignees?.length ?? 0) > 0;
+
+  return (
+    <Flex direction="column" gap={2}>
+      {peer?.activity && (
+        <Badge size="sm" colorPalette={peer.color} variant="solid" alignSelf="flex-start">
+          {peer.name} · {t.presence.activity[peer.activity.type]}
+        </Badge>
+      )}
+      <Flex align="center" justify="space-between" gap={3}>
+        {priority && (
+          <priority.icon
+            boxSize={3}
+            color={priority.color}
+            aria-label={t.task.priority(t.priority[task.priority as TaskPriority])}
+          />
+        )}
+        <Text fontWeight="medium" flex="1">
+          {highlightTerms ? (
+            <Highlight
+              query={highlightTerms}
+              ignoreCase
+              matchAll
+              styles={{ bg: { base: "yellow.200", _dark: "yellow.700" }, borderRadius: "sm" }}
+            >
+              {task.title}
+            </Highlight>
+          ) : (
+            task.title
+          )}
+        </Text>
+        <IconButton
+          aria-label={t.task.delete}
+          size="xs"
+          variant="ghost"
+          onClick={(event) => {
+            event.stopPropagation();
+            onRemove();
+          }}
+        >
+          <DeleteIcon boxSize={3} />
+        </IconButton>
+      </Flex>
+      {hasMeta && (
+        <Flex gap={1} wrap="wrap">
+          {task.dueDate && (
+            <Badge size="sm" colorPalette={overdue ? "red" : "gray"} variant={overdue ? "solid" : "subtle"}>
+              {task.dueDate.slice(5)}
+            </Badge>
+          )}
+          {task.labels?.map((label) => (
+            <Badge key={label.id} size="sm" colorPalette={label.color} variant="subtle">
+              {label.name}
+            </Badge>
+          ))}
+          {task.assignees?.map((assignee) => (
+            <Badge key={assignee} size="sm" variant="outline">
+              @{assignee}
+            </Badge>
+          ))}
+        </Flex>
+      )}
+    </Flex>
+  );
+};
+
+export default TaskCard;
@@ -0,0 +1,269 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  CloseButton,
+  Drawer,
+  Flex,
+  Input,
+  NativeSelect,
+  Portal,
+  Stack,
+  Text,
+  Textarea,
+  chakra,
+} from "@chakra-ui/react";
+import { Task, TaskChanges, TaskEvent, TaskLabel, TaskPriority } from "@/types/board";
+import { LABEL_COLORS, TASK_PRIORITIES, parseAssignees } from "@/lib/taskUtils";
+import { createId } from "@/lib/boardUtils";
+import { describeTaskEvent } from "@/lib/taskHistory";
+import { Locale } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+type TaskDetailDrawerProps = {
+  task: Task | null;
+  // The task's history, oldest first, and labels for the cells it names.
+  events: TaskEvent[];
+  cellLabels: Map<string, string>;
+  onSave: (changes: TaskChanges) => void;
+  onArchive: () => void;
+  onClose: () => void;
+};
+
+type TaskDraft = {
+  title: string;
+  description: string;
+  assignees: string;
+  dueDate: string;
+  priority: TaskPriority | "";
+  labels: TaskLabel[];
+};
+
+const toDraft = (task: Task | null): TaskDraft => ({
+  title: task?.title ?? "",
+  description: task?.description ?? "",
+  assignees: task?.assignees?.join(", ") ?? "",
+  dueDate: task?.dueDate ?? "",
+  priority: task?.priority ?? "",
+  labels: task?.labels ?? [],
+});
+
+const formatTimestamp = (value: string, locale: Locale) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString(locale);
+};
+
+const FieldLabel = chakra("label", {
+  base: { fontSize: "sm", fontWeight: "medium", display: "flex", flexDirection: "column", gap: 1 },
+});
+
+const TaskDetailDrawer = ({
+  task,
+  events,
+  cellLabels,
+  onSave,
+  onArchive,
+  onClose,
+}: TaskDetailDrawerProps) => {
+  const { locale, t } = useI18n();
+  const [draft, setDraft] = useState<TaskDraft>(() => toDraft(task));
+  const [labelName, setLabelName] = useState("");
+  const [labelColor, setLabelColor] = useState(LABEL_COLORS[0]);
+
+  useEffect(() => {
+    setDraft(toDraft(task));
+  }, [task]);
+
+  const updateDraft = useCallback(<K extends keyof TaskDraft>(key: K, value: TaskDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const handleAddLabel = useCallback(() => {
+    const name = labelName.trim();
+    if (!name) {
+      return;
+    }
+    setDraft((prev) => ({ ...prev, labels: [...prev.labels, { id: createId(), name, color: labelColor }] }));
+    setLabelName("");
+  }, [labelColor, labelName]);
+
+  const handleSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      onSave({
+        title: draft.title.trim() || task?.title || t.defaults.newTask,
+        description: draft.description,
+        assignees: parseAssignees(draft.assignees),
+        dueDate: draft.dueDate || undefined,
+        priority: draft.priority || undefined,
+        labels: draft.labels,
+      });
+      onClose();
+    },
+    [draft, onClose, onSave, t, task?.title],
+  );
+
+  return (
+    <Drawer.Root open={task !== null} onOpenChange={(details) => !details.open && onClose()} size="md">
+      <Portal>
+        <Drawer.Backdrop />
+        <Drawer.Positioner>
+          <Drawer.Content>
+            <chakra.form onSubmit={handleSubmit} display="flex" flexDirection="column" height="100%">
+              <Drawer.Header>
+                <Drawer.Title>{t.taskDetail.title}</Drawer.Title>
+              </Drawer.Header>
+              <Drawer.Body>
+                <Stack gap={4}>
+                  <FieldLabel>
+                    {t.taskDetail.name}
+                    <Input value={draft.title} onChange={(event) => updateDraft("title", event.target.value)} />
+                  </FieldLabel>
+                  <FieldLabel>
+                    {t.taskDetail.description}
+                    <Textarea
+                      value={draft.description}
+                      onChange={(event) => updateDraft("description", event.target.value)}
+                      rows={6}
+                      fontFamily="mono"
+                    />
+                  </FieldLabel>
+                  <FieldLabel>
+                    {t.taskDetail.assignees}
+                    <Input
+                      value={draft.assignees}
+                      onChange={(event) => updateDraft("assignees", event.target.value)}
+                    />
+                  </FieldLabel>
+                  <Flex gap={3}>
+                    <FieldLabel flex="1">
+                      {t.taskDetail.dueDate}
+                      <Input
+                        type="date"
+                        value={draft.dueDate}
+                        onChange={(event) => updateDraft("dueDate", event.target.value)}
+                      />
+                    </FieldLabel>
+                    <FieldLabel flex="1">
+                      {t.taskDetail.priority}
+                      <NativeSelect.Root>
+                        <NativeSelect.Field
+                          value={draft.priority}
+                          onChange={(event) => updateDraft("priority", event.target.value as TaskPriority | "")}
+                        >
+                          <option value="">{t.taskDetail.noPriority}</option>
+                          {TASK_PRIORITIES.map((priority) => (
+                            <option key={priority} value={priority}>
+                              {t.priority[priority]}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                    </FieldLabel>
+                  </Flex>
+                  <Stack gap={2}>
+                    <Text fontSize="sm" fontWeight="medium">
+                      {t.taskDetail.labels}
+                    </Text>
+                    <Flex gap={2} wrap="wrap">
+                      {draft.labels.map((label) => (
+                        <Badge key={label.id} colorPalette={label.color} variant="subtle" gap={1}>
+                          {label.name}
+                          <CloseButton
+                            size="2xs"
+                            aria-label={t.taskDetail.removeLabel(label.name)}
+                            onClick={() =>
+                              updateDraft(
+                                "labels",
+                                draft.labels.filter((item) => item.id !== label.id),
+                              )
+                            }
+                          />
+                        </Badge>
+                      ))}
+                    </Flex>
+                    <Flex gap={2}>
+                      <Input
+                        size="sm"
+                        placeholder={t.taskDetail.newLabel}
+                        value={labelName}
+                        onChange={(event) => setLabelName(event.target.value)}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") {
+                            event.preventDefault();
+                            handleAddLabel();
+                          }
+                        }}
+                      />
+                      <NativeSelect.Root size="sm" width="120px">
+                        <NativeSelect.Field
+                          value={labelColor}
+                          onChange={(event) => setLabelColor(event.target.value)}
+                          aria-label={t.taskDetail.labelColor}
+                        >
+                          {LABEL_COLORS.map((color) => (
+                            <option key={color} value={color}>
+                              {color}
+                            </option>
+                          ))}
+                        </NativeSelect.Field>
+                        <NativeSelect.Indicator />
+                      </NativeSelect.Root>
+                      <Button size="sm" variant="outline" onClick={handleAddLabel}>
+                        {t.common.add}
+                      </Button>
+                    </Flex>
+                  </Stack>
+                  {task && (
+                    <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+                      {t.taskDetail.createdAt(formatTimestamp(task.createdAt, locale))} ·{" "}
+                      {t.taskDetail.updatedAt(formatTimestamp(task.updatedAt, locale))}
+                      {task.completedAt &&
+                        ` · ${t.taskDetail.completedAt(formatTimestamp(task.completedAt, locale))}`}
+                    </Text>
+                  )}
+                  {events.length > 0 && (
+                    <Stack gap={2}>
+                      <Text fontSize="sm" fontWeight="medium">
+                        {t.taskDetail.activity}
+                      </Text>
+                      <Stack as="ol" gap={1} listStyleType="none">
+                        {[...events].reverse().map((event, index) => (
+                          <Flex as="li" key={`${event.at}-${index}`} gap={3} fontSize="xs">
+                            <Text color={{ base: "gray.500", _dark: "gray.400" }} flexShrink={0}>
+                              {formatTimestamp(event.at, locale)}
+                            </Text>
+                            <Text>{describeTaskEvent(event, cellLabels, t)}</Text>
+                          </Flex>
+                        ))}
+                      </Stack>
+                    </Stack>
+                  )}
+                </Stack>
+              </Drawer.Body>
+              <Drawer.Footer>
+                <Button variant="ghost" marginEnd="auto" onClick={onArchive}>
+                  {t.taskDetail.archive}
+                </Button>
+                <Button variant="outline" onClick={onClose}>
+                  {t.common.cancel}
+                </Button>
+                <Button type="submit" colorPalette="blue">
+                  {t.common.save}
+                </Button>
+              </Drawer.Footer>
+            </chakra.form>
+            <Drawer.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Drawer.CloseTrigger>
+          </Drawer.Content>
+        </Drawer.Positioner>
+      </Portal>
+    </Drawer.Root>
+  );
+};
+
+export default TaskDetailDrawer;
@@ -0,0 +1,30 @@
+"use client";
+
+import { NativeSelect } from "@chakra-ui/react";
+import { THEME_PREFERENCES, isThemePreference } from "@/lib/theme";
+import { useI18n } from "@/hooks/useI18n";
+import { useTheme } from "@/hooks/useTheme";
+
+// Picks light, dark or the system's theme; the choice is remembered in this browser.
+const ThemeSwitcher = () => {
+  const { t } = useI18n();
+  const { preference, setPreference } = useTheme();
+  return (
+    <NativeSelect.Root size="sm" width="auto">
+      <NativeSelect.Field
+        value={preference}
+        onChange={(event) => isThemePreference(event.target.value) && setPreference(event.target.value)}
+        aria-label={t.theme.label}
+      >
+        {THEME_PREFERENCES.map((option) => (
+          <option key={option} value={option}>
+            {t.theme.options[option]}
+          </option>
+        ))}
+      </NativeSelect.Field>
+      <NativeSelect.Indicator />
+    </NativeSelect.Root>
+  );
+};
+
+export default ThemeSwitcher;
@@ -0,0 +1,224 @@
+"use client";
+
+import { ReactNode, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  CloseButton,
+  Drawer,
+  Flex,
+  NativeSelect,
+  Portal,
+  Stack,
+  Tabs,
+  Text,
+} from "@chakra-ui/react";
+import { BoardState } from "@/types/board";
+import { getCellLabels } from "@/lib/taskHistory";
+import {
+  TRASH_RETENTION_DAYS,
+  canRestoreInPlace,
+  countTrashedTasks,
+  describeTrashEntry,
+  getDaysUntilPurge,
+  isRestoreBlocked,
+} from "@/lib/boardTrash";
+import { Locale } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+type RestoreTarget = { id: string; label: string };
+
+type RestorableRowProps = {
+  title: string;
+  details: string;
+  // Where the item can go instead when its original place is gone; null when it can go back there.
+  targets: RestoreTarget[] | null;
+  onRestore: (targetId?: string) => void;
+  extraAction?: ReactNode;
+};
+
+const RestorableRow = ({ title, details, targets, onRestore, extraAction }: RestorableRowProps) => {
+  const { t } = useI18n();
+  const [targetId, setTargetId] = useState("");
+  const selectedId = targets?.some((target) => target.id === targetId) ? targetId : targets?.[0]?.id;
+
+  return (
+    <Stack as="li" gap={2} borderWidth="1px" borderRadius="md" p={3}>
+      <Box>
+        <Text fontWeight="medium">{title}</Text>
+        <Text fontSize="xs" color={{ base: "gray.500", _dark: "gray.400" }}>
+          {details}
+        </Text>
+      </Box>
+      {targets && (
+        <NativeSelect.Root size="sm" disabled={targets.length === 0}>
+          <NativeSelect.Field
+            value={selectedId ?? ""}
+            onChange={(event) => setTargetId(event.target.value)}
+            aria-label={t.trash.restoreTarget(title)}
+          >
+            {targets.length === 0 && <option value="">{t.trash.noTargets}</option>}
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.label}
+              </option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+      )}
+      <Flex gap={2} justify="flex-end">
+        {extraAction}
+        <Button
+          size="xs"
+          colorPalette="blue"
+          disabled={targets !== null && !selectedId}
+          onClick={() => onRestore(targets ? selectedId : undefined)}
+        >
+          {targets ? t.trash.restoreToTarget : t.common.restore}
+        </Button>
+      </Flex>
+    </Stack>
+  );
+};
+
+const formatDate = (value: string, locale: Locale) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString(locale);
+};
+
+type TrashDrawerProps = {
+  open: boolean;
+  state: BoardState;
+  onRestore: (trashId: string, targetId?: string) => void;
+  onPurge: (trashIds: string[]) => void;
+  onRestoreArchived: (taskId: string, targetCellId?: string) => void;
+  onClose: () => void;
+};
+
+const TrashDrawer = ({ open, state, onRestore, onPurge, onRestoreArchived, onClose }: TrashDrawerProps) => {
+  const { locale, t } = useI18n();
+  const trash = useMemo(() => [...(state.trash ?? [])].reverse(), [state.trash]);
+  const archive = useMemo(() => [...(state.archive ?? [])].reverse(), [state.archive]);
+  const cellLabels = useMemo(() => getCellLabels(state), [state]);
+  const cellTargets = useMemo(
+    () => [...cellLabels].map(([id, label]): RestoreTarget => ({ id, label })),
+    [cellLabels],
+  );
+  const columnTargets = useMemo(
+    () => state.columns.map((column): RestoreTarget => ({ id: column.id, label: column.title })),
+    [state.columns],
+  );
+  const now = Date.now();
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(t.trash.confirmEmpty(trash.length))) {
+      onPurge(trash.map((entry) => entry.id));
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={(details) => !details.open && onClose()} size="md">
+      <Portal>
+        <Drawer.Backdrop />
+        <Drawer.Positioner>
+          <Drawer.Content>
+            <Drawer.Header>
+              <Drawer.Title>{t.trash.title}</Drawer.Title>
+            </Drawer.Header>
+            <Drawer.Body>
+              <Tabs.Root defaultValue="trash" variant="line">
+                <Tabs.List>
+                  <Tabs.Trigger value="trash">{t.trash.trashTab(trash.length)}</Tabs.Trigger>
+                  <Tabs.Trigger value="archive">{t.trash.archiveTab(archive.length)}</Tabs.Trigger>
+                </Tabs.List>
+                <Tabs.Content value="trash">
+                  <Stack gap={3}>
+                    <Flex align="center" justify="space-between" gap={2}>
+                      <Text fontSize="sm" color={{ base: "gray.500", _dark: "gray.400" }}>
+                        {t.trash.retention(TRASH_RETENTION_DAYS)}
+                      </Text>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        colorPalette="red"
+                        disabled={trash.length === 0}
+                        onClick={handleEmptyTrash}
+                      >
+                        {t.trash.empty}
+                      </Button>
+                    </Flex>
+                    {trash.length === 0 ? (
+                      <Text fontSize="sm">{t.trash.isEmpty}</Text>
+                    ) : (
+                      <Stack as="ul" gap={2} listStyleType="none">
+                        {trash.map((entry) => (
+                          <RestorableRow
+                            key={entry.id}
+                            title={describeTrashEntry(entry, t)}
+                            details={[
+                              t.trash.deletedAt(formatDate(entry.deletedAt, locale)),
+                              entry.kind === "task" ? null : t.trash.taskCount(countTrashedTasks(entry)),
+                              t.trash.purgeIn(getDaysUntilPurge(entry, now)),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                            targets={
+                              isRestoreBlocked(state, entry)
+                                ? []
+                                : canRestoreInPlace(state, entry)
+                                  ? null
+                                  : entry.kind === "cell"
+                                    ? columnTargets
+                                    : cellTargets
+                            }
+                            onRestore={(targetId) => onRestore(entry.id, targetId)}
+                            extraAction={
+                              <Button
+                                size="xs"
+                                variant="ghost"
+                                colorPalette="red"
+                                onClick={() => onPurge([entry.id])}
+                              >
+                                {t.trash.deleteForever}
+                              </Button>
+                            }
+                          />
+                        ))}
+                      </Stack>
+                    )}
+                  </Stack>
+                </Tabs.Content>
+                <Tabs.Content value="archive">
+                  {archive.length === 0 ? (
+                    <Text fontSize="sm">{t.trash.archiveEmpty}</Text>
+                  ) : (
+                    <Stack as="ul" gap={2} listStyleType="none">
+                      {archive.map((item) => (
+                        <RestorableRow
+                          key={item.task.id}
+                          title={item.task.title}
+                          details={[
+                            cellLabels.get(item.cellId) ?? t.common.deletedCell,
+                            t.trash.archivedAt(formatDate(item.archivedAt, locale)),
+                          ].join(" · ")}
+                          targets={canRestoreInPlace(state, item) ? null : cellTargets}
+                          onRestore={(targetId) => onRestoreArchived(item.task.id, targetId)}
+                        />
+                      ))}
+                    </Stack>
+                  )}
+                </Tabs.Content>
+              </Tabs.Root>
+            </Drawer.Body>
+            <Drawer.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Drawer.CloseTrigger>
+          </Drawer.Content>
+        </Drawer.Positioner>
+      </Portal>
+    </Drawer.Root>
+  );
+};
+
+export default TrashDrawer;
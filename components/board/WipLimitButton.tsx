@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback } from "react";
+import { Button } from "@chakra-ui/react";
+import { parseWipLimitInput } from "@/lib/boardWip";
+import { useI18n } from "@/hooks/useI18n";
+
+type WipLimitButtonProps = {
+  count: number;
+  limit?: number;
+  // What the limit applies to, e.g. `셀 "진행 중"`, for the prompt and the accessible name.
+  label: string;
+  onChange: (limit: number | null) => void;
+};
+
+// Shows "count/limit" and asks for a new limit when clicked.
+const WipLimitButton = ({ count, limit, label, onChange }: WipLimitButtonProps) => {
+  const { t } = useI18n();
+  const isOver = limit !== undefined && count > limit;
+  const isFull = limit !== undefined && count === limit;
+
+  const handleClick = useCallback(() => {
+    const raw = window.prompt(t.wip.prompt(label), limit ? String(limit) : "");
+    if (raw === null) {
+      return;
+    }
+    const next = parseWipLimitInput(raw);
+    if (next === undefined) {
+      window.alert(t.wip.invalid);
+      return;
+    }
+    onChange(next);
+  }, [label, limit, onChange, t]);
+
+  return (
+    <Button
+      size="2xs"
+      variant={isOver ? "solid" : limit === undefined ? "ghost" : "subtle"}
+      colorPalette={isOver ? "red" : isFull ? "orange" : "gray"}
+      flexShrink={0}
+      onClick={handleClick}
+      aria-label={
+        limit === undefined
+          ? t.wip.setLabel(label, count)
+          : t.wip.countLabel(label, count, limit, isOver)
+      }
+      title={limit === undefined ? t.wip.set : t.wip.change}
+    >
+      {limit === undefined ? "WIP" : `${count}/${limit}`}
+    </Button>
+  );
+};
+
+export default WipLimitButton;
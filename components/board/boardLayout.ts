@@ -0,0 +1,16 @@
+export const COLUMN_MIN_HEIGHT = 420;
+export const CELL_MIN_HEIGHT_PX = 96;
+export const COLLAPSED_ROW_HEIGHT_PX = 72;
+export const COLUMN_HEADER_HEIGHT_PX = 40;
+export const SWIMLANE_GUTTER_WIDTH_PX = 180;
+export const COLLAPSED_COLUMN_WIDTH_PX = 56;
+
+// aria-valuenow for a separator: the first item's share of the pair, in percent.
+export const pairShare = (first: number, second: number) => Math.round((first / (first + second)) * 100);
+
+export const COLUMNS_DROPPABLE_ID = "columns";
+export const cellsDroppableId = (columnId: string) => `cells-${columnId}`;
+export const tasksDroppableId = (cellId: string) => `tasks-${cellId}`;
+
+export const parseCellsDroppableId = (id: string) => (id.startsWith("cells-") ? id.slice(6) : null);
+export const parseTasksDroppableId = (id: string) => (id.startsWith("tasks-") ? id.slice(6) : null);
@@ -0,0 +1,58 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { createId } from "@/lib/boardUtils";
+import {
+  BoardFilter,
+  SavedFilter,
+  applyFilterParams,
+  loadSavedFilters,
+  parseFilterParams,
+  storeSavedFilters,
+} from "@/lib/boardFilter";
+
+// The active filter, mirrored into the URL, plus the filters saved in this browser.
+export function useBoardFilter() {
+  const searchParams = useSearchParams();
+  const [filter, setFilter] = useState<BoardFilter>(() =>
+    parseFilterParams(new URLSearchParams(searchParams)),
+  );
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+
+  // replaceState keeps typing from adding history entries or refetching the page.
+  useEffect(() => {
+    const search = applyFilterParams(new URLSearchParams(window.location.search), filter).toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(null, "", url);
+    }
+  }, [filter]);
+
+  const updateSavedFilters = useCallback((update: (filters: SavedFilter[]) => SavedFilter[]) => {
+    setSavedFilters((prev) => {
+      const next = update(prev);
+      storeSavedFilters(next);
+      return next;
+    });
+  }, []);
+
+  const saveFilter = useCallback(
+    (name: string) => {
+      const trimmed = name.trim();
+      if (trimmed) {
+        updateSavedFilters((prev) => [...prev, { id: createId(), name: trimmed, filter }]);
+      }
+    },
+    [filter, updateSavedFilters],
+  );
+
+  const deleteSavedFilter = useCallback(
+    (filterId: string) => {
+      updateSavedFilters((prev) => prev.filter((saved) => saved.id !== filterId));
+    },
+    [updateSavedFilters],
+  );
+
+  return { filter, setFilter, savedFilters, saveFilter, deleteSavedFilter };
+}
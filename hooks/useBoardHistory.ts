@@ -0,0 +1,141 @@
+"use client";
+
+import { SetStateAction, useCallback, useState } from "react";
+import { BoardState } from "@/types/board";
+
+// Snapshots share unchanged columns and task lists with their neighbours, so the
+// entry limit is what bounds memory.
+const DEFAULT_HISTORY_LIMIT = 100;
+
+type HistoryState = {
+  past: BoardState[];
+  present: BoardState;
+  future: BoardState[];
+  batchBase: BoardState | null;
+};
+
+const pushBounded = (entries: BoardState[], entry: BoardState, limit: number) => {
+  const next = [...entries, entry];
+  return next.length > limit ? next.slice(next.length - limit) : next;
+};
+
+export function useBoardHistory(createInitial: () => BoardState, limit: number = DEFAULT_HISTORY_LIMIT) {
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    past: [],
+    present: createInitial(),
+    future: [],
+    batchBase: null,
+  }));
+
+  const setState = useCallback(
+    (action: SetStateAction<BoardState>) => {
+      setHistory((prev) => {
+        const next = typeof action === "function" ? action(prev.present) : action;
+        if (next === prev.present) {
+          return prev;
+        }
+        if (prev.batchBase) {
+          return { ...prev, present: next };
+        }
+        return {
+          past: pushBounded(prev.past, prev.present, limit),
+          present: next,
+          future: [],
+          batchBase: null,
+        };
+      });
+    },
+    [limit],
+  );
+
+  // Replaces the board without recording an entry, e.g. when restoring from storage.
+  const resetState = useCallback((board: BoardState) => {
+    setHistory({ past: [], present: board, future: [], batchBase: null });
+  }, []);
+
+  // Swaps the present board and keeps the entries, e.g. to line up with the server's copy.
+  const replacePresent = useCallback((board: BoardState) => {
+    setHistory((prev) => (prev.present === board ? prev : { ...prev, present: board }));
+  }, []);
+
+  // Applies someone else's change to every entry, so undo only reverts this user's edits.
+  const rebase = useCallback((update: (board: BoardState) => BoardState) => {
+    setHistory((prev) => ({
+      past: prev.past.map(update),
+      present: update(prev.present),
+      future: prev.future.map(update),
+      batchBase: prev.batchBase && update(prev.batchBase),
+    }));
+  }, []);
+
+  // Between beginBatch and endBatch every update collapses into a single entry.
+  const beginBatch = useCallback(() => {
+    setHistory((prev) => (prev.batchBase ? prev : { ...prev, batchBase: prev.present }));
+  }, []);
+
+  const endBatch = useCallback(() => {
+    setHistory((prev) => {
+      if (!prev.batchBase) {
+        return prev;
+      }
+      if (prev.batchBase === prev.present) {
+        return { ...prev, batchBase: null };
+      }
+      return {
+        past: pushBounded(prev.past, prev.batchBase, limit),
+        present: prev.present,
+        future: [],
+        batchBase: null,
+      };
+    });
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      const previous = prev.past[prev.past.length - 1];
+      if (!previous || prev.batchBase) {
+        return prev;
+      }
+      return {
+        past: prev.past.slice(0, -1),
+        present: previous,
+        future: [prev.present, ...prev.future],
+        batchBase: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      const [next, ...future] = prev.future;
+      if (!next || prev.batchBase) {
+        return prev;
+      }
+      return {
+        past: pushBounded(prev.past, prev.present, limit),
+        present: next,
+        future,
+        batchBase: null,
+      };
+    });
+  }, [limit]);
+
+  const isBatching = history.batchBase !== null;
+
+  return {
+    state: history.present,
+    setState,
+    resetState,
+    replacePresent,
+    rebase,
+    beginBatch,
+    endBatch,
+    undo,
+    redo,
+    // The boards undo and redo would switch to, or null when they would do nothing.
+    undoState: isBatching ? null : (history.past[history.past.length - 1] ?? null),
+    redoState: isBatching ? null : (history.future[0] ?? null),
+    canUndo: !isBatching && history.past.length > 0,
+    canRedo: !isBatching && history.future.length > 0,
+  };
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { BoardMeta } from "@/types/board";
+import { createId } from "@/lib/boardUtils";
+import {
+  createBoardRemote,
+  deleteBoardRemote,
+  fetchBoard,
+  fetchBoards,
+  renameBoardRemote,
+} from "@/lib/boardApi";
+import { clearLocalBoard, readLocalBoards, readLocalLibrary, writeLocalLibrary } from "@/lib/boardLibrary";
+import { remapBoardIds } from "@/lib/boardTransfer";
+import { findBoardTemplate } from "@/lib/boardTemplates";
+import { Messages } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+// What went wrong, as a key into the library messages so it is shown in the current language.
+export type BoardLibraryError = keyof Messages["library"]["errors"];
+
+let localUpload: Promise<void> | null = null;
+
+// Uploads boards left in localStorage by earlier versions, removing each one once it is stored.
+// The upload is shared so a remount (or Strict Mode's double effect) cannot upload twice.
+function uploadLocalBoards(): Promise<void> {
+  localUpload ??= uploadLocalBoardsOnce().finally(() => {
+    localUpload = null;
+  });
+  return localUpload;
+}
+
+// Index entries are only removed for boards that were uploaded, so a board that fails to load or
+// to upload keeps its name and is tried again next time.
+async function uploadLocalBoardsOnce(): Promise<void> {
+  const uploadedIds = new Set<string>();
+  try {
+    for (const localBoard of readLocalBoards()) {
+      await createBoardRemote(localBoard.name, localBoard.board);
+      clearLocalBoard(localBoard);
+      if (localBoard.libraryId) {
+        uploadedIds.add(localBoard.libraryId);
+      }
+    }
+  } finally {
+    writeLocalLibrary(readLocalLibrary().filter((meta) => !uploadedIds.has(meta.id)));
+  }
+}
+
+export function useBoardLibrary() {
+  const { t } = useI18n();
+  const [boards, setBoards] = useState<BoardMeta[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<BoardLibraryError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Boards are fetched after the upload so uploaded ones are listed once, and a failed upload
+    // still shows the boards already on the server.
+    uploadLocalBoards()
+      .catch(() => {
+        if (!cancelled) {
+          setError("upload");
+        }
+      })
+      .then(fetchBoards)
+      .then((remote) => {
+        if (!cancelled) {
+          setBoards(remote);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("load");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoaded(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const runAction = useCallback(async <T,>(action: () => Promise<T>, failure: BoardLibraryError) => {
+    try {
+      const result = await action();
+      setError(null);
+      return result;
+    } catch {
+      setError(failure);
+      return null;
+    }
+  }, []);
+
+  const createBoard = useCallback(
+    async (name: string, templateId: string) => {
+      const record = await runAction(
+        () => createBoardRemote(name.trim() || t.defaults.boardName, findBoardTemplate(templateId).create(t)),
+        "create",
+      );
+      if (record) {
+        setBoards((prev) => [...prev, record.meta]);
+      }
+      return record?.meta ?? null;
+    },
+    [runAction, t],
+  );
+
+  // Renames are shown immediately and reverted if the server rejects them.
+  const renameBoard = useCallback(
+    async (boardId: string, name: string) => {
+      const nextName = name.trim();
+      const previous = boards.find((board) => board.id === boardId);
+      if (!nextName || !previous || previous.name === nextName) {
+        return;
+      }
+      setBoards((prev) => prev.map((board) => (board.id === boardId ? { ...board, name: nextName } : board)));
+      const record = await runAction(() => renameBoardRemote(boardId, nextName), "rename");
+      if (!record) {
+        setBoards((prev) => prev.map((board) => (board.id === boardId ? previous : board)));
+      }
+    },
+    [boards, runAction],
+  );
+
+  const duplicateBoard = useCallback(
+    async (boardId: string) => {
+      const source = boards.find((board) => board.id === boardId);
+      if (!source) {
+        return null;
+      }
+      const record = await runAction(async () => {
+        const original = await fetchBoard(boardId);
+        return createBoardRemote(t.defaults.boardCopy(source.name), remapBoardIds(original.board, createId));
+      }, "duplicate");
+      if (record) {
+        setBoards((prev) => {
+          const index = prev.findIndex((board) => board.id === boardId);
+          const next = [...prev];
+          next.splice(index + 1, 0, record.meta);
+          return next;
+        });
+      }
+      return record?.meta ?? null;
+    },
+    [boards, runAction, t],
+  );
+
+  const deleteBoard = useCallback(
+    async (boardId: string) => {
+      const previous = boards;
+      setBoards((prev) => prev.filter((board) => board.id !== boardId));
+      const deleted = await runAction(() => deleteBoardRemote(boardId).then(() => true), "delete");
+      if (!deleted) {
+        setBoards(previous);
+      }
+    },
+    [boards, runAction],
+  );
+
+  return { boards, isLoaded, error, createBoard, renameBoard, duplicateBoard, deleteBoard };
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BoardPeer, BoardState, PeerActivity } from "@/types/board";
+import { BoardAction, boardReducer } from "@/lib/boardReducer";
+import { createId } from "@/lib/boardUtils";
+import {
+  BoardConflictError,
+  applyBoardActionRemote,
+  boardEventsUrl,
+  fetchBoard,
+  saveBoardRemote,
+  updatePresenceRemote,
+} from "@/lib/boardApi";
+import { BoardEvent, PendingOp, enqueueOp, rebaseOps, replayOps } from "@/lib/boardSync";
+import { Collaborator, loadCollaborator, saveCollaborator } from "@/lib/collaborator";
+import { Messages } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+export type BoardSyncStatus = "saved" | "saving" | "error";
+
+// Why the last save failed, as a key into the sync messages so it is shown in the current language.
+export type BoardSyncError = keyof Messages["sync"]["errors"];
+
+type BoardSyncHandlers = {
+  // Applies someone else's change to the shown board and its undo history.
+  rebase: (update: (board: BoardState) => BoardState) => void;
+  // Shows the server's board while keeping the undo history.
+  replacePresent: (board: BoardState) => void;
+  // Shows the server's board and drops the undo history.
+  reset: (board: BoardState) => void;
+  rename: (name: string) => void;
+};
+
+// Keeps a board in step with the server and everyone else viewing it. Local actions are applied
+// optimistically and sent one at a time; the server decides their order and streams every applied
+// action back, so each client replays the same sequence. Changes that arrive while local actions
+// are still pending are applied on top and the board is lined up with the server once they land.
+export function useBoardSync(
+  boardId: string,
+  initialState: BoardState,
+  initialVersion: number,
+  handlers: BoardSyncHandlers,
+) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<BoardSyncStatus>("saved");
+  const [error, setError] = useState<BoardSyncError | null>(null);
+  const [peers, setPeers] = useState<BoardPeer[]>([]);
+  const [clientId] = useState(createId);
+  const [collaborator, setCollaborator] = useState<Collaborator>(() => loadCollaborator(t));
+  const handlersRef = useRef(handlers);
+  const collaboratorRef = useRef(collaborator);
+  const activityRef = useRef<PeerActivity | null>(null);
+  const confirmedRef = useRef({ board: initialState, version: initialVersion });
+  const queueRef = useRef<PendingOp[]>([]);
+  const inFlightRef = useRef(false);
+  // Set when the shown board may differ from the server's once pending actions are applied.
+  const divergedRef = useRef(false);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const adoptRecord = useCallback((board: BoardState, version: number) => {
+    const confirmed = confirmedRef.current;
+    if (version <= confirmed.version) {
+      return false;
+    }
+    // Skipped versions are other people's actions whose events haven't arrived yet.
+    if (version > confirmed.version + 1) {
+      divergedRef.current = true;
+    }
+    confirmedRef.current = { board, version };
+    return true;
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (inFlightRef.current) {
+      return;
+    }
+    inFlightRef.current = true;
+    setStatus("saving");
+    while (queueRef.current.length > 0) {
+      const op = queueRef.current[0];
+      try {
+        const record =
+          op.kind === "action"
+            ? await applyBoardActionRemote(boardId, op.action, clientId)
+            : await saveBoardRemote(boardId, op.board, confirmedRef.current.version, clientId);
+        queueRef.current = queueRef.current.slice(1);
+        adoptRecord(record.board, record.version);
+      } catch (syncError) {
+        if (syncError instanceof BoardConflictError) {
+          confirmedRef.current = { board: syncError.current.board, version: syncError.current.version };
+          setError("conflict");
+        } else {
+          setError("saveFailed");
+        }
+        queueRef.current = [];
+        divergedRef.current = false;
+        inFlightRef.current = false;
+        handlersRef.current.reset(confirmedRef.current.board);
+        setStatus("error");
+        return;
+      }
+    }
+    inFlightRef.current = false;
+    if (divergedRef.current) {
+      divergedRef.current = false;
+      handlersRef.current.replacePresent(confirmedRef.current.board);
+    }
+    setError(null);
+    setStatus("saved");
+  }, [adoptRecord, boardId, clientId]);
+
+  const submitAction = useCallback(
+    (action: BoardAction) => {
+      queueRef.current = enqueueOp(queueRef.current, { kind: "action", action }, inFlightRef.current ? 1 : 0);
+      void flush();
+    },
+    [flush],
+  );
+
+  // Whole-board changes (undo, import, repair) only apply if nobody changed the board meanwhile.
+  const submitBoard = useCallback(
+    (board: BoardState) => {
+      queueRef.current = [...queueRef.current, { kind: "board", board }];
+      void flush();
+    },
+    [flush],
+  );
+
+  useEffect(() => {
+    // Catches up after a reconnect, or when an event went missing.
+    const resync = async () => {
+      try {
+        const record = await fetchBoard(boardId);
+        handlersRef.current.rename(record.meta.name);
+        if (!adoptRecord(record.board, record.version)) {
+          return;
+        }
+        if (queueRef.current.length === 0) {
+          divergedRef.current = false;
+          handlersRef.current.replacePresent(record.board);
+        } else {
+          divergedRef.current = true;
+        }
+      } catch {
+        // The next event or reconnect tries again.
+      }
+    };
+
+    const handleEvent = (event: BoardEvent) => {
+      const confirmed = confirmedRef.current;
+      switch (event.type) {
+        case "action":
+          if (event.version <= confirmed.version) {
+            return;
+          }
+          if (event.version > confirmed.version + 1) {
+            void resync();
+            return;
+          }
+          confirmedRef.current = {
+            board: boardReducer(confirmed.board, event.action),
+            version: event.version,
+          };
+          if (event.clientId !== clientId) {
+            handlersRef.current.rebase((board) => boardReducer(board, event.action));
+            queueRef.current = rebaseOps(queueRef.current, event.action);
+            if (queueRef.current.length > 0) {
+              divergedRef.current = true;
+            }
+          }
+          return;
+        case "replace":
+          if (event.record.version <= confirmed.version) {
+            return;
+          }
+          confirmedRef.current = { board: event.record.board, version: event.record.version };
+          if (event.clientId !== clientId) {
+            handlersRef.current.reset(replayOps(event.record.board, queueRef.current));
+          }
+          return;
+        case "rename":
+          handlersRef.current.rename(event.name);
+          return;
+        case "delete":
+          setError("deleted");
+          setStatus("error");
+          return;
+        case "presence":
+          setPeers(event.peers.filter((peer) => peer.clientId !== clientId));
+          return;
+      }
+    };
+
+    const source = new EventSource(boardEventsUrl(boardId, { clientId, ...collaboratorRef.current }));
+    source.onopen = () => {
+      void resync();
+    };
+    source.onmessage = (message: MessageEvent<string>) => {
+      handleEvent(JSON.parse(message.data) as BoardEvent);
+    };
+    return () => {
+      source.close();
+    };
+  }, [adoptRecord, boardId, clientId]);
+
+  const sendPresence = useCallback(() => {
+    const peer: BoardPeer = { clientId, ...collaboratorRef.current, activity: activityRef.current };
+    updatePresenceRemote(boardId, peer).catch(() => undefined);
+  }, [boardId, clientId]);
+
+  const setActivity = useCallback(
+    (activity: PeerActivity | null) => {
+      if (activityRef.current?.type === activity?.type && activityRef.current?.id === activity?.id) {
+        return;
+      }
+      activityRef.current = activity;
+      sendPresence();
+    },
+    [sendPresence],
+  );
+
+  const renameCollaborator = useCallback(
+    (name: string) => {
+      const next = { ...collaboratorRef.current, name: name.trim() || collaboratorRef.current.name };
+      collaboratorRef.current = next;
+      setCollaborator(next);
+      saveCollaborator(next);
+      sendPresence();
+    },
+    [sendPresence],
+  );
+
+  return { status, error, peers, collaborator, submitAction, submitBoard, setActivity, renameCollaborator };
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { BoardZoom, loadBoardZoom, storeBoardZoom } from "@/lib/boardZoom";
+
+// The board's zoom setting in this browser, remembered per board.
+export function useBoardZoom(boardId: string) {
+  const [zoom, setZoomState] = useState<BoardZoom>(() => loadBoardZoom(boardId));
+
+  const setZoom = useCallback(
+    (next: BoardZoom) => {
+      setZoomState(next);
+      storeBoardZoom(boardId, next);
+    },
+    [boardId],
+  );
+
+  return [zoom, setZoom] as const;
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, DEFAULT_MESSAGES, Locale, Messages } from "@/lib/i18n";
+
+export type I18n = {
+  locale: Locale;
+  // The message catalog for the current locale.
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+};
+
+export const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  t: DEFAULT_MESSAGES,
+  setLocale: () => {},
+});
+
+export const useI18n = () => useContext(I18nContext);
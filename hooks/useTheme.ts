@@ -0,0 +1,16 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_THEME_PREFERENCE, ThemePreference } from "@/lib/theme";
+
+export type Theme = {
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+};
+
+export const ThemeContext = createContext<Theme>({
+  preference: DEFAULT_THEME_PREFERENCE,
+  setPreference: () => {},
+});
+
+export const useTheme = () => useContext(ThemeContext);
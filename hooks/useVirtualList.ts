@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { getItemOffsets, getVirtualRange } from "@/lib/virtualList";
+
+const REVEAL_EVENT = "virtual-list:reveal";
+
+export type VirtualListOptions = {
+  // Short lists leave this off and render every item.
+  enabled: boolean;
+  estimatedItemPx: number;
+  gapPx: number;
+  overscanPx: number;
+};
+
+// Scrolls a windowed list to the item with this data-virtual-key and focuses it once rendered.
+export function revealVirtualItem(list: Element, key: string) {
+  list.dispatchEvent(new CustomEvent<string>(REVEAL_EVENT, { detail: key }));
+}
+
+/**
+ * Windowed rendering of a long scrolling list: only the items in or near view are rendered and
+ * the rest is stood in for by padding. Rendered items, marked with data-virtual-key, are measured
+ * as they render; the others count as estimatedItemPx tall until they have been seen.
+ */
+export function useVirtualList<T extends HTMLElement>(keys: string[], options: VirtualListOptions) {
+  const { enabled, estimatedItemPx, gapPx, overscanPx } = options;
+  const scrollRef = useRef<T | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const latestRef = useRef({ keys, sizes });
+  const itemObserverRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+  // The key of an item to focus as soon as it is rendered.
+  const pendingRevealRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    latestRef.current = { keys, sizes };
+  });
+
+  useEffect(() => {
+    const node = scrollRef.current;
+    if (!enabled || !node) {
+      return;
+    }
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setViewport((prev) =>
+        prev.scrollTop === node.scrollTop && prev.height === node.clientHeight
+          ? prev
+          : { scrollTop: node.scrollTop, height: node.clientHeight },
+      );
+    };
+    // Scroll events can fire many times a frame; the window only needs to move once per frame.
+    const scheduleUpdate = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(update);
+      }
+    };
+    const handleReveal = (event: Event) => {
+      const key = (event as CustomEvent<string>).detail;
+      const index = latestRef.current.keys.indexOf(key);
+      if (index === -1) {
+        return;
+      }
+      const measured = latestRef.current.sizes;
+      const offsets = getItemOffsets(
+        latestRef.current.keys.map((item) => measured.get(item) ?? estimatedItemPx),
+        gapPx,
+      );
+      pendingRevealRef.current = key;
+      node.scrollTop = offsets[index];
+      update();
+    };
+
+    update();
+    const observer = new ResizeObserver(scheduleUpdate);
+    observer.observe(node);
+    node.addEventListener("scroll", scheduleUpdate, { passive: true });
+    node.addEventListener(REVEAL_EVENT, handleReveal);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      observer.disconnect();
+      node.removeEventListener("scroll", scheduleUpdate);
+      node.removeEventListener(REVEAL_EVENT, handleReveal);
+    };
+  }, [enabled, estimatedItemPx, gapPx]);
+
+  // Items are measured whenever their size changes, which also covers a card growing when edited.
+  useLayoutEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const observed = observedRef.current;
+    const observer = new ResizeObserver((entries) => {
+      setSizes((prev) => {
+        let next: Map<string, number> | null = null;
+        for (const entry of entries) {
+          const item = entry.target as HTMLElement;
+          const key = item.dataset.virtualKey;
+          const size = item.offsetHeight;
+          // Hidden items measure 0 and keep their last known size.
+          if (key && size > 0 && prev.get(key) !== size) {
+            next ??= new Map(prev);
+            next.set(key, size);
+          }
+        }
+        return next ?? prev;
+      });
+    });
+    itemObserverRef.current = observer;
+    return () => {
+      observer.disconnect();
+      itemObserverRef.current = null;
+      observed.clear();
+    };
+  }, [enabled]);
+
+  // Runs after every render, since scrolling changes which items are rendered.
+  useLayoutEffect(() => {
+    const node = scrollRef.current;
+    const observer = itemObserverRef.current;
+    if (!node || !observer) {
+      return;
+    }
+    const observed = observedRef.current;
+    const items = new Set(Array.from(node.querySelectorAll<HTMLElement>("[data-virtual-key]")));
+    for (const item of observed) {
+      if (!items.has(item)) {
+        observer.unobserve(item);
+        observed.delete(item);
+      }
+    }
+    for (const item of items) {
+      if (!observed.has(item)) {
+        observer.observe(item);
+        observed.add(item);
+      }
+    }
+
+    const revealKey = pendingRevealRef.current;
+    const revealed =
+      revealKey && node.querySelector<HTMLElement>(`[data-virtual-key="${CSS.escape(revealKey)}"]`);
+    if (revealed) {
+      pendingRevealRef.current = null;
+      revealed.focus();
+    }
+  });
+
+  const getSize = (key: string) => sizes.get(key) ?? estimatedItemPx;
+  const range = enabled
+    ? getVirtualRange(keys.map(getSize), gapPx, viewport.scrollTop, viewport.height, overscanPx)
+    : null;
+
+  return { scrollRef, range, getSize };
+}
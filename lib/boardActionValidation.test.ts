@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { createBlankBoard } from "@/lib/boardTemplates";
+import { findBoardActionError, findBoardStateError } from "@/lib/boardActionValidation";
+import { findInvalidTaskFields, pickTaskChanges } from "@/lib/taskUtils";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+describe("findBoardActionError", () => {
+  it("accepts well-formed actions", () => {
+    expect(
+      findBoardActionError({ type: "ADD_TASK", cellId: "a", taskId: "t1", title: "Task", now: NOW }),
+    ).toBeNull();
+    expect(findBoardActionError({ type: "DISABLE_SWIMLANES" })).toBeNull();
+    expect(
+      findBoardActionError({
+        type: "UPDATE_TASK",
+        cellId: "a",
+        taskId: "t1",
+        changes: { labels: [{ id: "l1", name: "Bug", color: "red" }], dueDate: "2026-02-01" },
+        now: NOW,
+      }),
+    ).toBeNull();
+  });
+
+  it("rejects unknown types and missing fields", () => {
+    expect(findBoardActionError({ type: "DROP_TABLE" })).toMatch(/type/);
+    expect(findBoardActionError({ type: "ADD_TASK", cellId: "x" })).toMatch(/taskId/);
+    expect(findBoardActionError({ type: "UPDATE_COLUMN_TITLE", columnId: "x" })).toMatch(/title/);
+  });
+
+  it("rejects task changes with the wrong types or fields a task edit can't change", () => {
+    const update = (changes: unknown) =>
+      findBoardActionError({ type: "UPDATE_TASK", cellId: "a", taskId: "t1", changes, now: NOW });
+    expect(update({ title: 5 })).toMatch(/changes/);
+    expect(update({ labels: "oops" })).toMatch(/changes/);
+    expect(update({ id: "other" })).toMatch(/changes/);
+  });
+});
+
+describe("findBoardStateError", () => {
+  it("accepts a board with valid history, trash, archive, rules and lanes", () => {
+    const task = { id: "t1", title: "Task", createdAt: NOW, updatedAt: NOW };
+    const board = {
+      ...createBlankBoard(),
+      taskEvents: [{ type: "created", taskId: "t1", cellId: "a", title: "Task", at: NOW }],
+      trash: [{ kind: "task", id: "x", deletedAt: NOW, task, cellId: "a", index: 0 }],
+      archive: [{ task, cellId: "a", archivedAt: NOW }],
+      swimlanes: [{ id: "l1", title: "Lane" }],
+    };
+    expect(findBoardStateError(board)).toBeNull();
+  });
+
+  it("names the list holding an entry clients couldn't show", () => {
+    const board = createBlankBoard();
+    expect(findBoardStateError({ ...board, automations: [{ enabled: true }] })).toMatch(/automations/);
+    expect(findBoardStateError({ ...board, trash: [1] })).toMatch(/trash/);
+    expect(findBoardStateError({ ...board, trash: [{ kind: "task", id: "x" }] })).toMatch(/trash/);
+    expect(findBoardStateError({ ...board, swimlanes: [{ id: "l1" }] })).toMatch(/swimlanes/);
+    expect(findBoardStateError({ ...board, taskEvents: [{ type: "moved" }] })).toMatch(/taskEvents/);
+    expect(findBoardStateError({ ...board, archive: [{ cellId: "a" }] })).toMatch(/archive/);
+    expect(findBoardStateError({ columns: [], tasksByCell: {}, wipPolicy: "never" })).toMatch(/wipPolicy/);
+  });
+});
+
+describe("pickTaskChanges", () => {
+  it("drops fields a task edit can't change and turns null into a cleared field", () => {
+    const changes = pickTaskChanges({ id: "x", title: "Renamed", dueDate: null });
+    expect(changes).toEqual({ title: "Renamed", dueDate: undefined });
+    expect(findInvalidTaskFields(changes)).toEqual([]);
+  });
+
+  it("leaves invalid values for findInvalidTaskFields to report", () => {
+    const changes = pickTaskChanges({ title: 5, labels: "oops", priority: "soon", assignees: ["Kim"] });
+    expect(findInvalidTaskFields(changes)).toEqual(["title", "labels", "priority"]);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  ArchivedTask,
+  BoardParcel,
+  BoardState,
+  Quadrant,
+  QuadrantTarget,
+  Swimlane,
+  TaskChanges,
+  TrashEntry,
+} from "@/types/board";
+import { BoardAction } from "@/lib/boardReducer";
+import { isCell, isColumn, isRecord, isTask, isTaskList } from "@/lib/boardStorage";
+import { findInvalidTaskFields, isEditableTaskField } from "@/lib/taskUtils";
+import { isTaskEvent } from "@/lib/taskHistory";
+import { isAutomationRule } from "@/lib/boardAutomation";
+import { isValidWipLimit } from "@/lib/boardWip";
+
+type FieldCheck = (value: unknown) => boolean;
+
+type FieldChecks<T> = Record<keyof T, FieldCheck>;
+
+// Every field of every variant of a union, so adding a variant or a field without a check fails to
+// compile.
+type VariantFieldChecks<Union, Tag extends keyof Union> = {
+  [Variant in Union[Tag] & string]: Record<
+    Exclude<keyof Extract<Union, Record<Tag, Variant>>, Tag>,
+    FieldCheck
+  >;
+};
+
+const QUADRANTS: Quadrant[] = ["top", "bottom", "left", "right"];
+
+const isString = (value: unknown) => typeof value === "string";
+
+const isIndex = (value: unknown) => Number.isInteger(value);
+
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+const isTimestamp = (value: unknown) => typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString);
+
+const isWeightPair = (value: unknown) =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((weight) => typeof weight === "number" && Number.isFinite(weight) && weight > 0);
+
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value);
+
+const nullable = (check: FieldCheck): FieldCheck => (value) => value === null || check(value);
+
+const listOf = (check: FieldCheck): FieldCheck => (value) => Array.isArray(value) && value.every(check);
+
+const hasFields = (value: unknown, checks: Record<string, FieldCheck>) =>
+  isRecord(value) && Object.keys(checks).every((key) => checks[key](value[key]));
+
+const findInvalidField = (value: Record<string, unknown>, checks: Record<string, FieldCheck>) =>
+  Object.keys(checks).find((key) => !checks[key](value[key]));
+
+// Checks a value tagged by `tag` against the field checks of its variant.
+const isVariant =
+  (tag: string, checksByVariant: Record<string, Record<string, FieldCheck>>): FieldCheck =>
+  (value) =>
+    isRecord(value) &&
+    typeof value[tag] === "string" &&
+    Object.hasOwn(checksByVariant, value[tag]) &&
+    hasFields(value, checksByVariant[value[tag]]);
+
+const isTasksByCell = (value: unknown) => isRecord(value) && Object.values(value).every(isTaskList);
+
+const isQuadrantTarget = (value: unknown): value is QuadrantTarget =>
+  isRecord(value) && isString(value.cellId) && QUADRANTS.some((quadrant) => quadrant === value.quadrant);
+
+const isTaskChanges = (value: unknown): value is TaskChanges =>
+  isRecord(value) &&
+  Object.keys(value).every(isEditableTaskField) &&
+  findInvalidTaskFields(value).length === 0;
+
+const isBoardParcel = (value: unknown): value is BoardParcel =>
+  isRecord(value) &&
+  Array.isArray(value.taskEvents) &&
+  value.taskEvents.every(isTaskEvent) &&
+  ((value.kind === "column" &&
+    isColumn(value.column) &&
+    isTasksByCell(value.tasksByCell)) ||
+    (value.kind === "cell" && isCell(value.cell) && isTaskList(value.tasks)));
+
+const isAutomationUpdate = (value: unknown) =>
+  isRecord(value) && isString(value.cellId) && isString(value.taskId) && isTaskChanges(value.changes);
+
+const SWIMLANE_FIELD_CHECKS: FieldChecks<Swimlane> = {
+  id: isString,
+  title: isString,
+  collapsed: optional(isBoolean),
+};
+
+const isSwimlane = (value: unknown) => hasFields(value, SWIMLANE_FIELD_CHECKS);
+
+const TRASH_FIELD_CHECKS: VariantFieldChecks<TrashEntry, "kind"> = {
+  column: {
+    id: isString,
+    deletedAt: isTimestamp,
+    column: isColumn,
+    index: isIndex,
+    tasksByCell: isTasksByCell,
+  },
+  cell: {
+    id: isString,
+    deletedAt: isTimestamp,
+    cell: isCell,
+    columnId: isString,
+    index: isIndex,
+    tasks: isTaskList,
+  },
+  task: { id: isString, deletedAt: isTimestamp, task: isTask, cellId: isString, index: isIndex },
+  swimlane: {
+    id: isString,
+    deletedAt: isTimestamp,
+    lane: isSwimlane,
+    index: isIndex,
+    cells: listOf((value) => hasFields(value, { columnId: isString, cell: isCell, tasks: isTaskList })),
+  },
+};
+
+const ARCHIVED_TASK_FIELD_CHECKS: FieldChecks<ArchivedTask> = {
+  task: isTask,
+  cellId: isString,
+  archivedAt: isTimestamp,
+};
+
+const BOARD_FIELD_CHECKS: FieldChecks<BoardState> = {
+  columns: listOf(isColumn),
+  tasksByCell: isTasksByCell,
+  wipPolicy: optional((value) => value === "block" || value === "warn"),
+  taskEvents: optional(listOf(isTaskEvent)),
+  trash: optional(listOf(isVariant("kind", TRASH_FIELD_CHECKS))),
+  archive: optional(listOf((value) => hasFields(value, ARCHIVED_TASK_FIELD_CHECKS))),
+  automations: optional(listOf(isAutomationRule)),
+  swimlanes: optional(listOf(isSwimlane)),
+};
+
+const ACTION_FIELD_CHECKS: VariantFieldChecks<BoardAction, "type"> = {
+  ADD_COLUMN: {
+    columnId: isString,
+    cellId: isString,
+    title: optional(isString),
+    cellTitle: optional(isString),
+  },
+  DELETE_COLUMN: { columnId: isString, trashId: isString, now: isTimestamp },
+  UPDATE_COLUMN_TITLE: { columnId: isString, title: isString },
+  RESIZE_COLUMNS: { columnId: isString, widths: isWeightPair },
+  MOVE_COLUMN: { columnId: isString, toIndex: isIndex },
+  ADD_CELL: { columnId: isString, cellId: isString, title: optional(isString) },
+  DELETE_CELL: { columnId: isString, cellId: isString, trashId: isString, now: isTimestamp },
+  UPDATE_CELL_TITLE: { cellId: isString, title: isString },
+  RESIZE_CELLS: { columnId: isString, cellId: isString, heights: isWeightPair },
+  SET_COLUMN_WIP_LIMIT: { columnId: isString, limit: nullable(isValidWipLimit) },
+  SET_CELL_WIP_LIMIT: { cellId: isString, limit: nullable(isValidWipLimit) },
+  SET_WIP_POLICY: { policy: (value) => value === "block" || value === "warn" },
+  SET_COLUMN_COLLAPSED: { columnId: isString, collapsed: isBoolean },
+  SET_CELL_COLLAPSED: { cellId: isString, collapsed: isBoolean },
+  SET_COLUMN_APPEARANCE: {
+    columnId: isString,
+    color: optional(nullable(isString)),
+    icon: optional(nullable(isString)),
+  },
+  SET_CELL_APPEARANCE: {
+    cellId: isString,
+    color: optional(nullable(isString)),
+    icon: optional(nullable(isString)),
+  },
+  MOVE_CELL: {
+    cellId: isString,
+    sourceColumnId: isString,
+    destinationColumnId: isString,
+    destinationIndex: isIndex,
+  },
+  DROP_CELL: {
+    cellId: isString,
+    target: isQuadrantTarget,
+    newColumnId: isString,
+    newColumnTitle: optional(isString),
+  },
+  SEND_TO_BOARD: { kind: (value) => value === "column" || value === "cell", id: isString },
+  RECEIVE_FROM_BOARD: { parcel: isBoardParcel, columnId: optional(isString), index: optional(isIndex) },
+  ADD_TASK: { cellId: isString, taskId: isString, title: isString, now: isTimestamp },
+  UPDATE_TASK: { cellId: isString, taskId: isString, changes: isTaskChanges, now: isTimestamp },
+  REMOVE_TASK: { cellId: isString, taskId: isString, trashId: isString, now: isTimestamp },
+  MOVE_TASK: {
+    taskId: isString,
+    sourceCellId: isString,
+    destinationCellId: isString,
+    destinationIndex: isIndex,
+    now: isTimestamp,
+  },
+  MOVE_TASKS: {
+    taskIds: isStringList,
+    destinationCellId: isString,
+    destinationIndex: isIndex,
+    now: isTimestamp,
+  },
+  RESTORE_TRASH: { trashId: isString, targetId: optional(isString), now: isTimestamp },
+  PURGE_TRASH: { trashIds: isStringList },
+  PURGE_EXPIRED_TRASH: { before: isTimestamp },
+  ARCHIVE_TASKS: { taskIds: isStringList, now: isTimestamp },
+  RESTORE_ARCHIVED_TASK: { taskId: isString, targetCellId: optional(isString), now: isTimestamp },
+  SAVE_AUTOMATION: { rule: isAutomationRule },
+  DELETE_AUTOMATION: { ruleId: isString },
+  APPLY_AUTOMATIONS: {
+    updates: (value) => Array.isArray(value) && value.every(isAutomationUpdate),
+    now: isTimestamp,
+  },
+  RUN_STALE_AUTOMATIONS: { now: isTimestamp },
+  ENABLE_SWIMLANES: { laneIds: isStringList },
+  DISABLE_SWIMLANES: {},
+  ADD_SWIMLANE: { laneId: isString, title: optional(isString) },
+  UPDATE_SWIMLANE: { laneId: isString, title: optional(isString), collapsed: optional(isBoolean) },
+  MOVE_SWIMLANE: { laneId: isString, toIndex: isIndex },
+  DELETE_SWIMLANE: { laneId: isString, trashId: isString, now: isTimestamp },
+};
+
+const isActionType = (value: unknown): value is BoardAction["type"] =>
+  typeof value === "string" && Object.hasOwn(ACTION_FIELD_CHECKS, value);
+
+/**
+ * Names what is wrong with an action from an untrusted source, such as the REST API, or returns
+ * null when the reducer can safely apply it.
+ */
+export function findBoardActionError(value: unknown): string | null {
+  if (!isRecord(value) || !isActionType(value.type)) {
+    return '"type" is not a board action.';
+  }
+  const field = findInvalidField(value, ACTION_FIELD_CHECKS[value.type]);
+  return field ? `"${field}" is missing or invalid for ${value.type}.` : null;
+}
+
+/**
+ * Names what is wrong with a whole board from an untrusted source, down to every entry of its
+ * history, trash, archive, rules and lanes, or returns null when clients can safely show it.
+ */
+export function findBoardStateError(value: unknown): string | null {
+  if (!isRecord(value)) {
+    return "The board is not an object.";
+  }
+  const field = findInvalidField(value, BOARD_FIELD_CHECKS);
+  return field ? `"${field}" is missing or invalid.` : null;
+}
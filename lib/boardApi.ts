@@ -0,0 +1,97 @@
+import { BoardMeta, BoardPeer, BoardRecord, BoardState } from "@/types/board";
+import { BoardAction } from "@/lib/boardReducer";
+
+export class BoardApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "BoardApiError";
+  }
+}
+
+// Thrown when a write was based on an outdated version; carries the server's current record.
+export class BoardConflictError extends BoardApiError {
+  constructor(
+    message: string,
+    readonly current: BoardRecord,
+  ) {
+    super(message, 409);
+    this.name = "BoardConflictError";
+  }
+}
+
+const boardUrl = (boardId: string) => `/api/boards/${encodeURIComponent(boardId)}`;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = typeof body?.error === "string" ? body.error : `Request failed with ${response.status}.`;
+    if (response.status === 409 && body?.current) {
+      throw new BoardConflictError(message, body.current as BoardRecord);
+    }
+    throw new BoardApiError(message, response.status);
+  }
+  return body as T;
+}
+
+export async function fetchBoards(): Promise<BoardMeta[]> {
+  const { boards } = await request<{ boards: BoardMeta[] }>("/api/boards");
+  return boards;
+}
+
+export function fetchBoard(boardId: string): Promise<BoardRecord> {
+  return request<BoardRecord>(boardUrl(boardId));
+}
+
+export function createBoardRemote(name: string, board: BoardState): Promise<BoardRecord> {
+  return request<BoardRecord>("/api/boards", { method: "POST", body: JSON.stringify({ name, board }) });
+}
+
+export function saveBoardRemote(
+  boardId: string,
+  board: BoardState,
+  version: number,
+  clientId?: string,
+): Promise<BoardRecord> {
+  return request<BoardRecord>(boardUrl(boardId), {
+    method: "PUT",
+    body: JSON.stringify({ board, version, clientId }),
+  });
+}
+
+export function applyBoardActionRemote(
+  boardId: string,
+  action: BoardAction,
+  clientId?: string,
+): Promise<BoardRecord> {
+  return request<BoardRecord>(`${boardUrl(boardId)}/actions`, {
+    method: "POST",
+    body: JSON.stringify({ action, clientId }),
+  });
+}
+
+export function updatePresenceRemote(boardId: string, peer: BoardPeer): Promise<void> {
+  return request<void>(`${boardUrl(boardId)}/presence`, { method: "POST", body: JSON.stringify(peer) });
+}
+
+export function boardEventsUrl(boardId: string, peer: Omit<BoardPeer, "activity">): string {
+  const query = new URLSearchParams({ clientId: peer.clientId, name: peer.name, color: peer.color });
+  return `${boardUrl(boardId)}/events?${query}`;
+}
+
+export function renameBoardRemote(boardId: string, name: string): Promise<BoardRecord> {
+  return request<BoardRecord>(boardUrl(boardId), { method: "PATCH", body: JSON.stringify({ name }) });
+}
+
+export function deleteBoardRemote(boardId: string): Promise<void> {
+  return request<void>(boardUrl(boardId), { method: "DELETE" });
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { AutomationRule, BoardState } from "@/types/board";
+import { findStaleAutomationUpdates } from "@/lib/boardAutomation";
+import { boardReducer } from "@/lib/boardReducer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse("2026-01-01T00:00:00.000Z");
+const at = (days: number) => new Date(START + days * DAY_MS).toISOString();
+
+const staleRule: AutomationRule = {
+  id: "r1",
+  name: "Escalate",
+  enabled: true,
+  trigger: { type: "stale-in-cell", cellId: "b", days: 3 },
+  conditions: [],
+  actions: [{ type: "set-priority", priority: "urgent" }],
+};
+
+// t1 was created in a and moved to b on day 2; t2 was created in b on day 0 and has no later events.
+const board: BoardState = {
+  columns: [
+    {
+      id: "todo",
+      title: "Todo",
+      width: 1,
+      cells: [
+        { id: "a", title: "A", height: 1 },
+        { id: "b", title: "B", height: 1 },
+      ],
+    },
+  ],
+  tasksByCell: {
+    a: [],
+    b: [
+      { id: "t1", title: "Moved", createdAt: at(0), updatedAt: at(0) },
+      { id: "t2", title: "Waiting", createdAt: at(0), updatedAt: at(0) },
+    ],
+  },
+  taskEvents: [
+    { type: "created", taskId: "t1", cellId: "a", title: "Moved", at: at(0) },
+    { type: "moved", taskId: "t1", fromCellId: "a", toCellId: "b", at: at(2) },
+  ],
+  automations: [staleRule],
+};
+
+describe("findStaleAutomationUpdates", () => {
+  const staleTaskIds = (now: number) => findStaleAutomationUpdates(board, now).map((update) => update.taskId);
+
+  it("counts from when the task last arrived in the cell", () => {
+    expect(staleTaskIds(START + 4 * DAY_MS)).toEqual(["t2"]);
+    expect(staleTaskIds(START + 5 * DAY_MS)).toEqual(["t1", "t2"]);
+  });
+
+  it("ignores disabled rules", () => {
+    const disabled = { ...board, automations: [{ ...staleRule, enabled: false }] };
+    expect(findStaleAutomationUpdates(disabled, START + 10 * DAY_MS)).toEqual([]);
+  });
+});
+
+describe("RUN_STALE_AUTOMATIONS", () => {
+  it("gives the same label id on every copy and changes nothing when checked again", () => {
+    const labelRule: AutomationRule = {
+      ...staleRule,
+      actions: [{ type: "add-label", name: "Stuck", color: "red" }],
+    };
+    const state = { ...board, automations: [labelRule] };
+    const action = { type: "RUN_STALE_AUTOMATIONS", now: at(4) } as const;
+    const once = boardReducer(state, action);
+    expect(boardReducer(state, action)).toEqual(once);
+    expect(boardReducer(once, action)).toBe(once);
+    expect(once.tasksByCell.b.map((task) => task.labels?.length ?? 0)).toEqual([0, 1]);
+  });
+});
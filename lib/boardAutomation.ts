@@ -0,0 +1,257 @@
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTrigger,
+  BoardState,
+  Task,
+  TaskChanges,
+} from "@/types/board";
+import { isRecord } from "@/lib/boardStorage";
+import { isTaskPriority } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AutomationUpdate = { cellId: string; taskId: string; changes: TaskChanges };
+
+const isAutomationTrigger = (value: unknown): value is AutomationTrigger =>
+  isRecord(value) &&
+  typeof value.cellId === "string" &&
+  (value.type === "enter-cell" ||
+    (value.type === "stale-in-cell" && typeof value.days === "number" && value.days > 0));
+
+const isAutomationCondition = (value: unknown): value is AutomationCondition =>
+  isRecord(value) &&
+  ((value.type === "has-label" && typeof value.name === "string") ||
+    (value.type === "priority-is" && isTaskPriority(value.priority)) ||
+    value.type === "unassigned");
+
+const isAutomationAction = (value: unknown): value is AutomationAction =>
+  isRecord(value) &&
+  (value.type === "stamp-completed" ||
+    (value.type === "add-assignee" && typeof value.name === "string") ||
+    (value.type === "add-label" && typeof value.name === "string" && typeof value.color === "string") ||
+    (value.type === "set-priority" && isTaskPriority(value.priority)));
+
+export const isAutomationRule = (value: unknown): value is AutomationRule =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.enabled === "boolean" &&
+  isAutomationTrigger(value.trigger) &&
+  Array.isArray(value.conditions) &&
+  value.conditions.every(isAutomationCondition) &&
+  Array.isArray(value.actions) &&
+  value.actions.every(isAutomationAction);
+
+export function describeAutomationRule(
+  rule: AutomationRule,
+  cellLabels: Map<string, string>,
+  t: Messages,
+): string {
+  const { describe } = t.automation;
+  const cell = cellLabels.get(rule.trigger.cellId) ?? t.common.deletedCell;
+  const trigger =
+    rule.trigger.type === "enter-cell"
+      ? describe.enterCell(cell)
+      : describe.staleInCell(cell, rule.trigger.days);
+  const conditions = rule.conditions.map((condition) => {
+    switch (condition.type) {
+      case "has-label":
+        return describe.hasLabel(condition.name);
+      case "priority-is":
+        return describe.priorityIs(t.priority[condition.priority]);
+      case "unassigned":
+        return describe.unassigned;
+    }
+  });
+  const actions = rule.actions.map((action) => {
+    switch (action.type) {
+      case "stamp-completed":
+        return describe.stampCompleted;
+      case "add-assignee":
+        return describe.addAssignee(action.name);
+      case "add-label":
+        return describe.addLabel(action.name);
+      case "set-priority":
+        return describe.setPriority(t.priority[action.priority]);
+    }
+  });
+  return [trigger, ...conditions].join(", ") + ` → ${actions.join(", ")}`;
+}
+
+const matchesConditions = (task: Task, conditions: AutomationCondition[]) =>
+  conditions.every((condition) => {
+    switch (condition.type) {
+      case "has-label":
+        return task.labels?.some((label) => label.name === condition.name) ?? false;
+      case "priority-is":
+        return task.priority === condition.priority;
+      case "unassigned":
+        return (task.assignees ?? []).length === 0;
+    }
+  });
+
+type ActionContext = {
+  now: string;
+  createLabelId: (rule: AutomationRule, name: string) => string;
+  // Arriving in a cell stamps the completion time afresh; a stale task keeps an earlier stamp.
+  restamp: boolean;
+};
+
+// Applies a rule's actions and returns only the fields they actually change, so running the same
+// rule twice changes nothing the second time (apart from a fresh completion stamp on arrival).
+function applyActions(task: Task, rule: AutomationRule, context: ActionContext): TaskChanges {
+  const changes: TaskChanges = {};
+  rule.actions.forEach((action) => {
+    const current = { ...task, ...changes };
+    switch (action.type) {
+      case "stamp-completed":
+        if (context.restamp || !current.completedAt) {
+          changes.completedAt = context.now;
+        }
+        return;
+      case "add-assignee":
+        if (!current.assignees?.includes(action.name)) {
+          changes.assignees = [...(current.assignees ?? []), action.name];
+        }
+        return;
+      case "add-label":
+        if (!current.labels?.some((label) => label.name === action.name)) {
+          const id = context.createLabelId(rule, action.name);
+          changes.labels = [...(current.labels ?? []), { id, name: action.name, color: action.color }];
+        }
+        return;
+      case "set-priority":
+        if (current.priority !== action.priority) {
+          changes.priority = action.priority;
+        }
+        return;
+    }
+  });
+  return changes;
+}
+
+// Runs rules in order on one task, each seeing the edits of the rules before it.
+function runRules(task: Task, rules: AutomationRule[], context: ActionContext): TaskChanges | null {
+  let changes: TaskChanges = {};
+  rules.forEach((rule) => {
+    const current = { ...task, ...changes };
+    if (matchesConditions(current, rule.conditions)) {
+      changes = { ...changes, ...applyActions(current, rule, context) };
+    }
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+const isEntryRule = (rule: AutomationRule, cellId: string) =>
+  rule.trigger.type === "enter-cell" && rule.trigger.cellId === cellId;
+
+// When each task last arrived in each cell, by task id and then cell id, from one pass over the
+// event log.
+type CellArrivals = Map<string, Map<string, string>>;
+
+function indexCellArrivals(state: BoardState): CellArrivals {
+  const arrivals: CellArrivals = new Map();
+  (state.taskEvents ?? []).forEach((event) => {
+    const cellId =
+      event.type === "moved"
+        ? event.toCellId
+        : event.type === "created" || event.type === "restored"
+          ? event.cellId
+          : null;
+    if (cellId !== null) {
+      const byCell = arrivals.get(event.taskId) ?? new Map<string, string>();
+      byCell.set(cellId, event.at);
+      arrivals.set(event.taskId, byCell);
+    }
+  });
+  return arrivals;
+}
+
+// Tasks older than the event log count from their creation.
+const getArrivedAt = (arrivals: CellArrivals, task: Task, cellId: string) =>
+  arrivals.get(task.id)?.get(cellId) ?? task.createdAt;
+
+const isStaleFor = (arrivedAt: string, trigger: AutomationTrigger, now: number) =>
+  trigger.type === "stale-in-cell" && now - Date.parse(arrivedAt) >= trigger.days * DAY_MS;
+
+/**
+ * Edits the enabled "enter cell" rules make to a task that has just been added to or moved into
+ * the cell, or null when no rule applies.
+ */
+export function getEntryAutomationUpdate(
+  state: BoardState,
+  cellId: string,
+  task: Task,
+  now: string,
+  createId: () => string,
+): AutomationUpdate | null {
+  const rules = (state.automations ?? []).filter((rule) => rule.enabled && isEntryRule(rule, cellId));
+  const changes = runRules(task, rules, { now, createLabelId: () => createId(), restamp: true });
+  return changes ? { cellId, taskId: task.id, changes } : null;
+}
+
+/**
+ * Edits the enabled "stale in cell" rules make to every task that has been in their cell too long.
+ * The result depends only on the board and the time, label ids included, so the reducer can work it
+ * out when the check is applied and every copy of the board gets the same edits.
+ */
+export function findStaleAutomationUpdates(state: BoardState, now: number): AutomationUpdate[] {
+  const rules = (state.automations ?? []).filter(
+    (rule) => rule.enabled && rule.trigger.type === "stale-in-cell",
+  );
+  if (rules.length === 0) {
+    return [];
+  }
+  const arrivals = indexCellArrivals(state);
+  return Object.entries(state.tasksByCell).flatMap(([cellId, tasks]) =>
+    tasks.flatMap((task) => {
+      const arrivedAt = getArrivedAt(arrivals, task, cellId);
+      const due = rules.filter(
+        (rule) => rule.trigger.cellId === cellId && isStaleFor(arrivedAt, rule.trigger, now),
+      );
+      const changes = runRules(task, due, {
+        now: new Date(now).toISOString(),
+        createLabelId: (rule, name) => `${rule.id}:${task.id}:${arrivedAt}:${name}`,
+        restamp: false,
+      });
+      return changes ? [{ cellId, taskId: task.id, changes }] : [];
+    }),
+  );
+}
+
+/**
+ * Dry run of one rule, enabled or not: for an "enter cell" rule, the tasks already in the cell as
+ * if they had just arrived; for a "stale" rule, the tasks it would change right now.
+ */
+export function previewAutomationRule(
+  state: BoardState,
+  rule: AutomationRule,
+  now: number,
+): Array<{ task: Task; changes: TaskChanges }> {
+  const context = {
+    now: new Date(now).toISOString(),
+    // Labels in a preview are never saved, so they need no real id.
+    createLabelId: () => "",
+    restamp: rule.trigger.type === "enter-cell",
+  };
+  const arrivals = rule.trigger.type === "stale-in-cell" ? indexCellArrivals(state) : new Map();
+  return (state.tasksByCell[rule.trigger.cellId] ?? []).flatMap((task) => {
+    if (
+      rule.trigger.type === "stale-in-cell" &&
+      !isStaleFor(getArrivedAt(arrivals, task, rule.trigger.cellId), rule.trigger, now)
+    ) {
+      return [];
+    }
+    const changes = runRules(task, [rule], context);
+    return changes ? [{ task, changes }] : [];
+  });
+}
+
+// Names the fields a preview would change, e.g. "담당자, 라벨".
+export function describeTaskChanges(changes: TaskChanges, t: Messages): string {
+  const names: Partial<Record<keyof TaskChanges, string>> = t.automation.fields;
+  return (Object.keys(changes) as Array<keyof TaskChanges>).map((key) => names[key] ?? key).join(", ");
+}
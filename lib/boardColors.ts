@@ -0,0 +1,38 @@
+import { Cell, Column, ItemColor } from "@/types/board";
+
+export const ITEM_COLORS: ItemColor[] = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "teal",
+  "blue",
+  "cyan",
+  "purple",
+  "pink",
+];
+
+export const isItemColor = (value: unknown): value is ItemColor =>
+  ITEM_COLORS.some((color) => color === value);
+
+// The first character (emoji sequences included) of what was typed, or "" for none.
+export function normalizeItemIcon(value: unknown): string {
+  if (typeof value !== "string") {
+    return "";
+  }
+  const [first] = new Intl.Segmenter().segment(value.trim());
+  return first?.segment ?? "";
+}
+
+// Drops a colour or icon the board can't show, e.g. from a hand-edited import.
+export function withValidAppearance<T extends Cell | Column>(item: T): T {
+  const next: T = { ...item };
+  if (next.color !== undefined && !isItemColor(next.color)) {
+    delete next.color;
+  }
+  if (next.icon !== undefined && (!next.icon || normalizeItemIcon(next.icon) !== next.icon)) {
+    delete next.icon;
+  }
+  return next;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { BoardState, Task } from "@/types/board";
+import { filterBoard, haveSameCellMatches } from "@/lib/boardFilter";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+const task = (id: string, title: string): Task => ({ id, title, createdAt: NOW, updatedAt: NOW });
+
+const createBoard = (tasksByCell: BoardState["tasksByCell"]): BoardState => ({
+  columns: [
+    {
+      id: "todo",
+      title: "Todo",
+      width: 1,
+      cells: [
+        { id: "a", title: "A", height: 1 },
+        { id: "b", title: "B", height: 1 },
+      ],
+    },
+  ],
+  tasksByCell,
+});
+
+describe("haveSameCellMatches", () => {
+  const filter = { query: "login", mode: "dim" } as const;
+  const a = [task("t1", "Login page"), task("t2", "Signup")];
+
+  it("ignores changes to other cells", () => {
+    const previous = filterBoard(createBoard({ a, b: [] }), filter);
+    const next = filterBoard(createBoard({ a, b: [task("t3", "Login API")] }), filter);
+    expect(haveSameCellMatches(previous, next, "a", a)).toBe(true);
+    expect(haveSameCellMatches(previous, next, "b", [task("t3", "Login API")])).toBe(false);
+  });
+
+  it("notices a task of the cell that starts or stops matching, and a new query", () => {
+    const previous = filterBoard(createBoard({ a, b: [] }), filter);
+    const renamed = [a[0], task("t2", "Login with Google")];
+    const next = filterBoard(createBoard({ a: renamed, b: [] }), filter);
+    expect(haveSameCellMatches(previous, next, "a", renamed)).toBe(false);
+    const other = filterBoard(createBoard({ a, b: [] }), { ...filter, query: "page" });
+    expect(haveSameCellMatches(previous, other, "a", a)).toBe(false);
+    expect(haveSameCellMatches(previous, null, "a", a)).toBe(false);
+  });
+});
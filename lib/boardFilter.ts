@@ -0,0 +1,134 @@
+import { BoardState, Task } from "@/types/board";
+import { isRecord } from "@/lib/boardStorage";
+
+export const SAVED_FILTERS_STORAGE_KEY = "advanced-kanban:saved-filters";
+
+export type BoardFilterMode = "dim" | "hide";
+
+export type BoardFilter = {
+  query: string;
+  // Whether non-matching cards are faded out or left out of the board.
+  mode: BoardFilterMode;
+};
+
+export type SavedFilter = {
+  id: string;
+  name: string;
+  filter: BoardFilter;
+};
+
+export type BoardFilterResult = {
+  terms: string[];
+  matchingTaskIds: Set<string>;
+  countsByCell: Record<string, number>;
+  countsByColumn: Record<string, number>;
+  total: number;
+};
+
+export const EMPTY_FILTER: BoardFilter = { query: "", mode: "dim" };
+
+export const toFilterTerms = (query: string) => query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+// A task matches when every term appears in its title or in its cell's or column's title, so
+// searching for a column name lists everything in that column.
+export function filterBoard(state: BoardState, filter: BoardFilter): BoardFilterResult | null {
+  const terms = toFilterTerms(filter.query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const result: BoardFilterResult = {
+    terms,
+    matchingTaskIds: new Set(),
+    countsByCell: {},
+    countsByColumn: {},
+    total: 0,
+  };
+  state.columns.forEach((column) => {
+    let columnCount = 0;
+    column.cells.forEach((cell) => {
+      const context = `${column.title}\n${cell.title}`.toLowerCase();
+      const matches = (state.tasksByCell[cell.id] ?? []).filter((task) => {
+        const haystack = `${context}\n${task.title.toLowerCase()}`;
+        return terms.every((term) => haystack.includes(term));
+      });
+      matches.forEach((task) => result.matchingTaskIds.add(task.id));
+      result.countsByCell[cell.id] = matches.length;
+      columnCount += matches.length;
+    });
+    result.countsByColumn[column.id] = columnCount;
+    result.total += columnCount;
+  });
+  return result;
+}
+
+/**
+ * Whether two results agree on everything a cell shows: the terms, its match count and which of
+ * its tasks match. Memoised cells and columns use it to skip re-rendering when a result is rebuilt
+ * but their own matches are unchanged.
+ */
+export function haveSameCellMatches(
+  previous: BoardFilterResult | null,
+  next: BoardFilterResult | null,
+  cellId: string,
+  tasks: Task[],
+): boolean {
+  if (previous === next) {
+    return true;
+  }
+  return (
+    previous !== null &&
+    next !== null &&
+    previous.terms.join(" ") === next.terms.join(" ") &&
+    previous.countsByCell[cellId] === next.countsByCell[cellId] &&
+    tasks.every((task) => previous.matchingTaskIds.has(task.id) === next.matchingTaskIds.has(task.id))
+  );
+}
+
+// The filter lives in the `q` and `filter` query parameters so a filtered view can be shared.
+export function parseFilterParams(params: URLSearchParams): BoardFilter {
+  return {
+    query: params.get("q") ?? "",
+    mode: params.get("filter") === "hide" ? "hide" : "dim",
+  };
+}
+
+export function applyFilterParams(params: URLSearchParams, filter: BoardFilter): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (filter.query.trim()) {
+    next.set("q", filter.query);
+  } else {
+    next.delete("q");
+  }
+  if (filter.mode === "hide") {
+    next.set("filter", "hide");
+  } else {
+    next.delete("filter");
+  }
+  return next;
+}
+
+const isSavedFilter = (value: unknown): value is SavedFilter =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  isRecord(value.filter) &&
+  typeof value.filter.query === "string" &&
+  (value.filter.mode === "dim" || value.filter.mode === "hide");
+
+export function loadSavedFilters(): SavedFilter[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(SAVED_FILTERS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isSavedFilter) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedFilters(filters: SavedFilter[]) {
+  try {
+    window.localStorage.setItem(SAVED_FILTERS_STORAGE_KEY, JSON.stringify(filters));
+  } catch {
+    // Saved filters are a convenience; without storage they last until reload.
+  }
+}
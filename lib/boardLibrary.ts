@@ -0,0 +1,72 @@
+import { BoardMeta, BoardState } from "@/types/board";
+import { BOARD_STORAGE_KEY, clearBoard, isRecord, loadBoard } from "@/lib/boardStorage";
+import { DEFAULT_MESSAGES } from "@/lib/i18n";
+
+// Boards used to live in localStorage: first as a single board under BOARD_STORAGE_KEY, then
+// as a BOARD_LIBRARY_KEY index of per-board keys. These helpers read them once so they can be
+// uploaded to the server store.
+export const BOARD_LIBRARY_KEY = "advanced-kanban:boards";
+export const DEFAULT_BOARD_NAME = DEFAULT_MESSAGES.defaults.boardName;
+
+export const boardStorageKey = (boardId: string) => `${BOARD_STORAGE_KEY}:${boardId}`;
+
+export type LocalBoard = {
+  name: string;
+  board: BoardState;
+  storageKey: string;
+  // The board's entry in the BOARD_LIBRARY_KEY index; the older single board has none.
+  libraryId?: string;
+};
+
+const isBoardMeta = (value: unknown): value is BoardMeta =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.createdAt === "string";
+
+export function readLocalLibrary(): BoardMeta[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(BOARD_LIBRARY_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isBoardMeta) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function readLocalBoards(): LocalBoard[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const boards: LocalBoard[] = readLocalLibrary().flatMap((meta) => {
+    const storageKey = boardStorageKey(meta.id);
+    const board = loadBoard(storageKey);
+    return board ? [{ name: meta.name, board, storageKey, libraryId: meta.id }] : [];
+  });
+
+  const legacyBoard = loadBoard(BOARD_STORAGE_KEY);
+  if (legacyBoard) {
+    boards.unshift({ name: DEFAULT_BOARD_NAME, board: legacyBoard, storageKey: BOARD_STORAGE_KEY });
+  }
+  return boards;
+}
+
+export function clearLocalBoard(localBoard: LocalBoard) {
+  clearBoard(localBoard.storageKey);
+}
+
+// Rewrites the index with the entries still to upload, or removes it once none are left.
+export function writeLocalLibrary(entries: BoardMeta[]) {
+  try {
+    if (entries.length > 0) {
+      window.localStorage.setItem(BOARD_LIBRARY_KEY, JSON.stringify(entries));
+    } else {
+      window.localStorage.removeItem(BOARD_LIBRARY_KEY);
+    }
+  } catch {
+    // Nothing to clean up when storage is unavailable.
+  }
+}
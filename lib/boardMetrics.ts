@@ -0,0 +1,267 @@
+import { BoardState, TaskEvent } from "@/types/board";
+import { toDateKey } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type MovedEvent = Extract<TaskEvent, { type: "moved" }>;
+
+type RemovalEvent = Extract<TaskEvent, { type: "deleted" | "archived" }>;
+
+// Events that take a task off the board; "restored" brings it back.
+const REMOVAL_EVENTS = new Set<TaskEvent["type"]>(["deleted", "archived"]);
+
+// A stretch of time a task spent in one cell; `end` is null while it is still there.
+type Stint = { cellId: string; start: number; end: number | null };
+
+type TaskTimeline = { taskId: string; createdAt: number; stints: Stint[] };
+
+export type DurationStats = { average: number; median: number; count: number };
+
+export type ItemTime = { id: string; title: string; average: number; taskCount: number };
+
+export type ThroughputWeek = { weekStart: string; count: number };
+
+export type CumulativeFlow = {
+  days: string[];
+  // In board order; counts[i] is the number of tasks in the column at the end of days[i].
+  columns: Array<{ columnId: string; title: string; counts: number[] }>;
+};
+
+export type BoardMetrics = {
+  completedCount: number;
+  leadTime: DurationStats | null;
+  cycleTime: DurationStats | null;
+  cellTimes: ItemTime[];
+  columnTimes: ItemTime[];
+  throughput: ThroughputWeek[];
+  cumulativeFlow: CumulativeFlow;
+};
+
+export type BoardMetricsOptions = { weeks?: number; days?: number };
+
+const toTime = (value: string | undefined) => {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+const toStats = (durations: number[]): DurationStats | null => {
+  if (durations.length === 0) {
+    return null;
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    average: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    count: sorted.length,
+  };
+};
+
+const startOfWeek = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  // Weeks start on Monday.
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+};
+
+// Replays the event log into per-task cell stints. Tasks that existed before the log was kept
+// start in the cell they first left (or their current cell) at their createdAt time.
+function buildTimelines(state: BoardState): TaskTimeline[] {
+  const eventsByTask = new Map<string, TaskEvent[]>();
+  (state.taskEvents ?? []).forEach((event) => {
+    eventsByTask.set(event.taskId, [...(eventsByTask.get(event.taskId) ?? []), event]);
+  });
+  const currentTasks = new Map<string, { cellId: string; createdAt: string }>();
+  Object.entries(state.tasksByCell).forEach(([cellId, tasks]) => {
+    tasks.forEach((task) => currentTasks.set(task.id, { cellId, createdAt: task.createdAt }));
+  });
+
+  const archivedCreatedAt = new Map(
+    (state.archive ?? []).map((item) => [item.task.id, item.task.createdAt]),
+  );
+
+  const timelines: TaskTimeline[] = [];
+  new Set([...eventsByTask.keys(), ...currentTasks.keys()]).forEach((taskId) => {
+    const events = [...(eventsByTask.get(taskId) ?? [])].sort(
+      (a, b) => (toTime(a.at) ?? 0) - (toTime(b.at) ?? 0),
+    );
+    const current = currentTasks.get(taskId);
+    // A task that left the board without a "deleted" or "archived" event went with its cell or
+    // column, at a time the log doesn't know, so it is left out.
+    if (!current && !events.some((event) => REMOVAL_EVENTS.has(event.type))) {
+      return;
+    }
+
+    const created = events.find((event) => event.type === "created");
+    // Without a "created" event, the first move or removal still tells where the task started.
+    const firstExit = events.find(
+      (event): event is MovedEvent | RemovalEvent => event.type === "moved" || REMOVAL_EVENTS.has(event.type),
+    );
+    const exitCellId = firstExit?.type === "moved" ? firstExit.fromCellId : firstExit?.cellId;
+    const startCellId = created?.cellId ?? exitCellId ?? current?.cellId;
+    const createdAt = toTime(
+      created?.at ?? current?.createdAt ?? archivedCreatedAt.get(taskId) ?? events[0]?.at,
+    );
+    if (!startCellId || createdAt === null) {
+      return;
+    }
+
+    const stints: Stint[] = [{ cellId: startCellId, start: createdAt, end: null }];
+    events.forEach((event) => {
+      const at = toTime(event.at);
+      const last = stints[stints.length - 1];
+      if (at === null) {
+        return;
+      }
+      if (event.type === "restored") {
+        if (last.end !== null) {
+          stints.push({ cellId: event.cellId, start: Math.max(at, last.end), end: null });
+        }
+        return;
+      }
+      if (last.end !== null || (event.type !== "moved" && !REMOVAL_EVENTS.has(event.type))) {
+        return;
+      }
+      last.end = Math.max(at, last.start);
+      if (event.type === "moved") {
+        stints.push({ cellId: event.toCellId, start: last.end, end: null });
+      }
+    });
+    timelines.push({ taskId, createdAt, stints });
+  });
+  return timelines;
+}
+
+/**
+ * Flow metrics for a board, derived from its task event log and its current layout:
+ *
+ * - a task is done while it sits in the last column, and completed when it last arrived there;
+ * - lead time runs from creation to completion, cycle time from first leaving the first column;
+ * - time in cell/column is the average total time tasks spent there, ongoing stays included
+ *   (the done column is left out since time there never ends);
+ * - throughput counts completions per week and the cumulative flow diagram counts the tasks in
+ *   each column at the end of each day.
+ */
+export function computeBoardMetrics(
+  state: BoardState,
+  now: number,
+  { weeks = 8, days = 14 }: BoardMetricsOptions = {},
+): BoardMetrics {
+  const timelines = buildTimelines(state);
+  const columnIndexByCell = new Map<string, number>();
+  state.columns.forEach((column, index) => {
+    column.cells.forEach((cell) => columnIndexByCell.set(cell.id, index));
+  });
+  const lastColumnIndex = state.columns.length - 1;
+  // With a single column there is no "done" to reach.
+  const isDone = (cellId: string) => lastColumnIndex > 0 && columnIndexByCell.get(cellId) === lastColumnIndex;
+
+  const leadTimes: number[] = [];
+  const cycleTimes: number[] = [];
+  const completions: number[] = [];
+  const cellTotals = new Map<string, number[]>();
+  const columnTotals = new Map<number, number[]>();
+
+  timelines.forEach(({ createdAt, stints }) => {
+    let doneIndex = stints.length;
+    while (doneIndex > 0 && isDone(stints[doneIndex - 1].cellId)) {
+      doneIndex -= 1;
+    }
+    // Tasks created straight into the done column never went through the workflow.
+    if (doneIndex > 0 && doneIndex < stints.length) {
+      const completedAt = stints[doneIndex].start;
+      const workStart =
+        stints.find((stint) => columnIndexByCell.get(stint.cellId) !== 0)?.start ?? completedAt;
+      completions.push(completedAt);
+      leadTimes.push(completedAt - createdAt);
+      cycleTimes.push(completedAt - Math.min(workStart, completedAt));
+    }
+
+    const perCell = new Map<string, number>();
+    const perColumn = new Map<number, number>();
+    stints.forEach((stint) => {
+      const columnIndex = columnIndexByCell.get(stint.cellId);
+      if (columnIndex === undefined || columnIndex === lastColumnIndex) {
+        return;
+      }
+      const duration = (stint.end ?? now) - stint.start;
+      perCell.set(stint.cellId, (perCell.get(stint.cellId) ?? 0) + duration);
+      perColumn.set(columnIndex, (perColumn.get(columnIndex) ?? 0) + duration);
+    });
+    perCell.forEach((total, cellId) => cellTotals.set(cellId, [...(cellTotals.get(cellId) ?? []), total]));
+    perColumn.forEach((total, index) => columnTotals.set(index, [...(columnTotals.get(index) ?? []), total]));
+  });
+
+  const toItemTime = (id: string, title: string, totals: number[] | undefined): ItemTime[] => {
+    const stats = toStats(totals ?? []);
+    return stats ? [{ id, title, average: stats.average, taskCount: stats.count }] : [];
+  };
+  const cellTimes = state.columns.flatMap((column) =>
+    column.cells.flatMap((cell) =>
+      toItemTime(cell.id, `${column.title} / ${cell.title}`, cellTotals.get(cell.id)),
+    ),
+  );
+  const columnTimes = state.columns.flatMap((column, index) =>
+    toItemTime(column.id, column.title, columnTotals.get(index)),
+  );
+
+  const currentWeek = startOfWeek(now);
+  const throughput: ThroughputWeek[] = Array.from({ length: weeks }, (_, offset) => {
+    const weekStart = new Date(currentWeek);
+    weekStart.setDate(weekStart.getDate() - 7 * (weeks - 1 - offset));
+    const key = toDateKey(weekStart);
+    const count = completions.filter((time) => toDateKey(startOfWeek(time)) === key).length;
+    return { weekStart: key, count };
+  });
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const dayStarts = Array.from({ length: days }, (_, offset) => {
+    const day = new Date(today);
+    day.setDate(day.getDate() - (days - 1 - offset));
+    return day;
+  });
+  const cumulativeFlow: CumulativeFlow = {
+    days: dayStarts.map(toDateKey),
+    columns: state.columns.map((column, columnIndex) => ({
+      columnId: column.id,
+      title: column.title,
+      counts: dayStarts.map((day) => {
+        const at = Math.min(day.getTime() + DAY_MS - 1, now);
+        return timelines.filter(({ stints }) =>
+          stints.some(
+            (stint) =>
+              stint.start <= at &&
+              (stint.end === null || stint.end > at) &&
+              columnIndexByCell.get(stint.cellId) === columnIndex,
+          ),
+        ).length;
+      }),
+    })),
+  };
+
+  return {
+    completedCount: completions.length,
+    leadTime: toStats(leadTimes),
+    cycleTime: toStats(cycleTimes),
+    cellTimes,
+    columnTimes,
+    throughput,
+    cumulativeFlow,
+  };
+}
+
+export function formatDuration(ms: number, t: Messages): string {
+  const minutes = Math.round(ms / MINUTE_MS);
+  if (minutes < 60) {
+    return t.duration.minutes(minutes);
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return t.duration.hours(hours, minutes % 60);
+  }
+  return t.duration.days(Math.floor(hours / 24), hours % 24);
+}
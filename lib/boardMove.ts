@@ -0,0 +1,41 @@
+import { BoardParcel, BoardState } from "@/types/board";
+import { Messages } from "@/lib/i18n";
+
+// Packs a column or cell, with its tasks and their history, to send to another board.
+export function packParcel(state: BoardState, kind: BoardParcel["kind"], id: string): BoardParcel | null {
+  const events = (cellIds: string[]) => {
+    const taskIds = new Set(
+      cellIds.flatMap((cellId) => (state.tasksByCell[cellId] ?? []).map((task) => task.id)),
+    );
+    return (state.taskEvents ?? []).filter((event) => taskIds.has(event.taskId));
+  };
+  if (kind === "column") {
+    const column = state.columns.find((item) => item.id === id);
+    if (!column) {
+      return null;
+    }
+    const cellIds = column.cells.map((cell) => cell.id);
+    return {
+      kind,
+      column,
+      tasksByCell: Object.fromEntries(cellIds.map((cellId) => [cellId, state.tasksByCell[cellId] ?? []])),
+      taskEvents: events(cellIds),
+    };
+  }
+  const cell = state.columns.flatMap((column) => column.cells).find((item) => item.id === id);
+  return cell ? { kind, cell, tasks: state.tasksByCell[id] ?? [], taskEvents: events([id]) } : null;
+}
+
+// Whether a board now holds everything in the parcel. A cell sent to a board in swimlane mode is
+// merged into a lane's cell, so only its tasks are looked for.
+export function isParcelDelivered(board: BoardState, parcel: BoardParcel): boolean {
+  const taskIds = new Set(Object.values(board.tasksByCell).flatMap((tasks) => tasks.map((task) => task.id)));
+  const tasks = parcel.kind === "column" ? Object.values(parcel.tasksByCell).flat() : parcel.tasks;
+  return (
+    tasks.every((task) => taskIds.has(task.id)) &&
+    (parcel.kind === "cell" || board.columns.some((column) => column.id === parcel.column.id))
+  );
+}
+
+export const describeParcel = (parcel: BoardParcel, t: Messages) =>
+  t.items.named(t.items[parcel.kind], parcel.kind === "column" ? parcel.column.title : parcel.cell.title);
@@ -0,0 +1,169 @@
+import { BoardState } from "@/types/board";
+import { BoardAction } from "@/lib/boardReducer";
+import { clamp } from "@/lib/boardUtils";
+
+export type NavDirection = "up" | "down" | "left" | "right";
+
+// What has keyboard focus on the board: a cell itself or one of its tasks.
+export type BoardFocus = { kind: "cell"; cellId: string } | { kind: "task"; cellId: string; taskId: string };
+
+const locateCell = (state: BoardState, cellId: string) => {
+  for (let columnIndex = 0; columnIndex < state.columns.length; columnIndex += 1) {
+    const cellIndex = state.columns[columnIndex].cells.findIndex((cell) => cell.id === cellId);
+    if (cellIndex !== -1) {
+      return { columnIndex, cellIndex };
+    }
+  }
+  return null;
+};
+
+const taskIndexOf = (state: BoardState, cellId: string, taskId: string) =>
+  (state.tasksByCell[cellId] ?? []).findIndex((task) => task.id === taskId);
+
+// A collapsed cell, or any cell of a collapsed lane, hides its tasks.
+const isCellCollapsed = (state: BoardState, columnIndex: number, cellIndex: number) =>
+  Boolean(
+    state.swimlanes
+      ? state.swimlanes[cellIndex]?.collapsed
+      : state.columns[columnIndex].cells[cellIndex]?.collapsed,
+  );
+
+// The nearest column in the given direction that shows cells, skipping empty and collapsed ones.
+const neighbourColumnIndex = (state: BoardState, columnIndex: number, step: number) => {
+  for (let index = columnIndex + step; index >= 0 && index < state.columns.length; index += step) {
+    if (state.columns[index].cells.length > 0 && !state.columns[index].collapsed) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+const focusInCell = (
+  state: BoardState,
+  cellId: string,
+  taskIndex: number,
+  isTaskVisible: (taskId: string) => boolean,
+): BoardFocus => {
+  const tasks = (state.tasksByCell[cellId] ?? []).filter((task) => isTaskVisible(task.id));
+  if (taskIndex < 0 || tasks.length === 0) {
+    return { kind: "cell", cellId };
+  }
+  return { kind: "task", cellId, taskId: tasks[clamp(taskIndex, 0, tasks.length - 1)].id };
+};
+
+// Up and down walk a column top to bottom, visiting each cell and then its tasks. Left and right
+// jump to the cell at the same position in the neighbouring column. Tasks hidden by a filter are
+// skipped, as are collapsed columns and the tasks of collapsed cells.
+export function getNextFocus(
+  state: BoardState,
+  focus: BoardFocus,
+  direction: NavDirection,
+  isTaskVisible: (taskId: string) => boolean = () => true,
+): BoardFocus | null {
+  const location = locateCell(state, focus.cellId);
+  if (!location) {
+    return null;
+  }
+  const taskIndex = focus.kind === "task" ? taskIndexOf(state, focus.cellId, focus.taskId) : -1;
+
+  if (direction === "left" || direction === "right") {
+    const columnIndex = neighbourColumnIndex(state, location.columnIndex, direction === "left" ? -1 : 1);
+    if (columnIndex === -1) {
+      return null;
+    }
+    const cells = state.columns[columnIndex].cells;
+    const cellIndex = Math.min(location.cellIndex, cells.length - 1);
+    const collapsed = isCellCollapsed(state, columnIndex, cellIndex);
+    return focusInCell(state, cells[cellIndex].id, collapsed ? -1 : taskIndex, isTaskVisible);
+  }
+
+  const entries = state.columns[location.columnIndex].cells.flatMap((cell, cellIndex): BoardFocus[] => [
+    { kind: "cell", cellId: cell.id },
+    ...(isCellCollapsed(state, location.columnIndex, cellIndex) ? [] : (state.tasksByCell[cell.id] ?? []))
+      .filter((task) => isTaskVisible(task.id) || task.id === (focus.kind === "task" ? focus.taskId : null))
+      .map((task): BoardFocus => ({ kind: "task", cellId: cell.id, taskId: task.id })),
+  ]);
+  const current = entries.findIndex((entry) =>
+    focus.kind === "task"
+      ? entry.kind === "task" && entry.taskId === focus.taskId
+      : entry.kind === "cell" && entry.cellId === focus.cellId,
+  );
+  return entries[current + (direction === "up" ? -1 : 1)] ?? null;
+}
+
+// Up and down move a task to the previous or next cell in reading order (column by column);
+// left and right move it to the cell at the same position in the neighbouring column.
+export function getTaskMoveAction(
+  state: BoardState,
+  cellId: string,
+  taskId: string,
+  direction: NavDirection,
+  now: string,
+): BoardAction | null {
+  const location = locateCell(state, cellId);
+  const taskIndex = taskIndexOf(state, cellId, taskId);
+  if (!location || taskIndex === -1) {
+    return null;
+  }
+
+  let destinationCellId: string | undefined;
+  if (direction === "up" || direction === "down") {
+    const cellIds = state.columns.flatMap((column) => column.cells.map((cell) => cell.id));
+    destinationCellId = cellIds[cellIds.indexOf(cellId) + (direction === "up" ? -1 : 1)];
+  } else {
+    const columnIndex = neighbourColumnIndex(state, location.columnIndex, direction === "left" ? -1 : 1);
+    const cells = columnIndex === -1 ? [] : state.columns[columnIndex].cells;
+    destinationCellId = cells[Math.min(location.cellIndex, cells.length - 1)]?.id;
+  }
+
+  if (!destinationCellId) {
+    return null;
+  }
+  return {
+    type: "MOVE_TASK",
+    taskId,
+    sourceCellId: cellId,
+    destinationCellId,
+    destinationIndex: taskIndex,
+    now,
+  };
+}
+
+// Up and down reorder a cell within its column; left and right move it to the neighbouring column.
+export function getCellMoveAction(
+  state: BoardState,
+  cellId: string,
+  direction: NavDirection,
+): BoardAction | null {
+  const location = locateCell(state, cellId);
+  if (!location) {
+    return null;
+  }
+  const sourceColumn = state.columns[location.columnIndex];
+
+  if (direction === "up" || direction === "down") {
+    const destinationIndex = location.cellIndex + (direction === "up" ? -1 : 1);
+    if (destinationIndex < 0 || destinationIndex >= sourceColumn.cells.length) {
+      return null;
+    }
+    return {
+      type: "MOVE_CELL",
+      cellId,
+      sourceColumnId: sourceColumn.id,
+      destinationColumnId: sourceColumn.id,
+      destinationIndex,
+    };
+  }
+
+  const destinationColumn = state.columns[location.columnIndex + (direction === "left" ? -1 : 1)];
+  if (!destinationColumn) {
+    return null;
+  }
+  return {
+    type: "MOVE_CELL",
+    cellId,
+    sourceColumnId: sourceColumn.id,
+    destinationColumnId: destinationColumn.id,
+    destinationIndex: location.cellIndex,
+  };
+}
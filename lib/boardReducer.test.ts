@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { BoardState, Task } from "@/types/board";
+import { boardReducer } from "@/lib/boardReducer";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+const task = (id: string): Task => ({ id, title: id, createdAt: NOW, updatedAt: NOW });
+
+// Two columns: `todo` with cells a and b, `done` with cell c.
+const createBoard = (): BoardState => ({
+  columns: [
+    {
+      id: "todo",
+      title: "Todo",
+      width: 1,
+      cells: [
+        { id: "a", title: "A", height: 1 },
+        { id: "b", title: "B", height: 2 },
+      ],
+    },
+    { id: "done", title: "Done", width: 1, cells: [{ id: "c", title: "C", height: 1 }] },
+  ],
+  tasksByCell: {
+    a: [task("t1"), task("t2"), task("t3")],
+    b: [],
+    c: [task("t4")],
+  },
+});
+
+const taskIds = (state: BoardState, cellId: string) => state.tasksByCell[cellId]?.map((item) => item.id);
+
+const cellIds = (state: BoardState, columnId: string) =>
+  state.columns.find((column) => column.id === columnId)?.cells.map((cell) => cell.id);
+
+describe("MOVE_TASK", () => {
+  const move = (state: BoardState, taskId: string, from: string, to: string, index: number) =>
+    boardReducer(state, {
+      type: "MOVE_TASK",
+      taskId,
+      sourceCellId: from,
+      destinationCellId: to,
+      destinationIndex: index,
+      now: NOW,
+    });
+
+  it("reorders within a cell without recording a move", () => {
+    const state = createBoard();
+    const next = move(state, "t1", "a", "a", 2);
+    expect(taskIds(next, "a")).toEqual(["t2", "t3", "t1"]);
+    expect(next.taskEvents).toBeUndefined();
+  });
+
+  it("moves to another cell and records the move", () => {
+    const next = move(createBoard(), "t2", "a", "c", 0);
+    expect(taskIds(next, "a")).toEqual(["t1", "t3"]);
+    expect(taskIds(next, "c")).toEqual(["t2", "t4"]);
+    expect(next.taskEvents).toEqual([
+      { type: "moved", taskId: "t2", fromCellId: "a", toCellId: "c", at: NOW },
+    ]);
+  });
+
+  it("clamps insert indices past either end", () => {
+    expect(taskIds(move(createBoard(), "t1", "a", "c", 99), "c")).toEqual(["t4", "t1"]);
+    expect(taskIds(move(createBoard(), "t3", "a", "a", -5), "a")).toEqual(["t3", "t1", "t2"]);
+  });
+
+  it("ignores a task that is not in the source cell", () => {
+    const state = createBoard();
+    expect(move(state, "t4", "a", "b", 0)).toBe(state);
+    expect(move(state, "t1", "missing", "b", 0)).toBe(state);
+  });
+
+  it("ignores a destination cell that has been deleted", () => {
+    const state = boardReducer(createBoard(), {
+      type: "DELETE_CELL",
+      columnId: "todo",
+      cellId: "b",
+      trashId: "trash-b",
+      now: NOW,
+    });
+    expect(move(state, "t1", "a", "b", 0)).toBe(state);
+  });
+});
+
+describe("ADD_TASK", () => {
+  it("ignores a cell that is not on the board", () => {
+    const state = createBoard();
+    const next = boardReducer(state, { type: "ADD_TASK", cellId: "gone", taskId: "t9", title: "T", now: NOW });
+    expect(next).toBe(state);
+  });
+});
+
+describe("MOVE_TASKS", () => {
+  it("moves tasks from several cells next to each other in the order given", () => {
+    const next = boardReducer(createBoard(), {
+      type: "MOVE_TASKS",
+      taskIds: ["t4", "t1"],
+      destinationCellId: "b",
+      destinationIndex: 0,
+      now: NOW,
+    });
+    expect(taskIds(next, "b")).toEqual(["t4", "t1"]);
+    expect(taskIds(next, "a")).toEqual(["t2", "t3"]);
+    expect(taskIds(next, "c")).toEqual([]);
+  });
+
+  it("ignores a destination that is not on the board and unknown tasks", () => {
+    const state = createBoard();
+    const action = { type: "MOVE_TASKS", destinationIndex: 0, now: NOW } as const;
+    expect(boardReducer(state, { ...action, taskIds: ["t1"], destinationCellId: "gone" })).toBe(state);
+    expect(boardReducer(state, { ...action, taskIds: ["nope"], destinationCellId: "b" })).toBe(state);
+  });
+});
+
+describe("MOVE_CELL", () => {
+  const move = (state: BoardState, cellId: string, from: string, to: string, index: number) =>
+    boardReducer(state, {
+      type: "MOVE_CELL",
+      cellId,
+      sourceColumnId: from,
+      destinationColumnId: to,
+      destinationIndex: index,
+    });
+
+  it("reorders cells within a column", () => {
+    expect(cellIds(move(createBoard(), "a", "todo", "todo", 1), "todo")).toEqual(["b", "a"]);
+  });
+
+  it("returns the same board when the cell stays where it is", () => {
+    const state = createBoard();
+    expect(move(state, "b", "todo", "todo", 1)).toBe(state);
+  });
+
+  it("clamps the insert index in another column", () => {
+    const state = createBoard();
+    const next = move(state, "a", "todo", "done", 10);
+    expect(cellIds(next, "todo")).toEqual(["b"]);
+    expect(cellIds(next, "done")).toEqual(["c", "a"]);
+    expect(next.tasksByCell).toBe(state.tasksByCell);
+  });
+
+  it("ignores unknown columns and cells", () => {
+    const state = createBoard();
+    expect(move(state, "a", "missing", "done", 0)).toBe(state);
+    expect(move(state, "a", "todo", "missing", 0)).toBe(state);
+    expect(move(state, "c", "todo", "done", 0)).toBe(state);
+  });
+});
+
+describe("DROP_CELL", () => {
+  const drop = (state: BoardState, cellId: string, targetCellId: string, quadrant: "top" | "left") =>
+    boardReducer(state, {
+      type: "DROP_CELL",
+      cellId,
+      target: { cellId: targetCellId, quadrant },
+      newColumnId: "new",
+      newColumnTitle: "New",
+    });
+
+  it("splits the target's height when dropped above it", () => {
+    const next = drop(createBoard(), "c", "b", "top");
+    const column = next.columns.find((item) => item.id === "todo");
+    expect(column?.cells.map((cell) => [cell.id, cell.height])).toEqual([
+      ["a", 1],
+      ["c", 1],
+      ["b", 1],
+    ]);
+    expect(cellIds(next, "done")).toEqual([]);
+  });
+
+  it("puts the cell in a new column when dropped beside the target", () => {
+    const next = drop(createBoard(), "b", "c", "left");
+    expect(next.columns.map((column) => column.id)).toEqual(["todo", "new", "done"]);
+    expect(cellIds(next, "new")).toEqual(["b"]);
+  });
+
+  it("ignores drops onto the cell itself or onto cells that are gone", () => {
+    const state = createBoard();
+    expect(drop(state, "a", "a", "top")).toBe(state);
+    expect(drop(state, "a", "gone", "top")).toBe(state);
+    expect(drop(state, "gone", "a", "left")).toBe(state);
+  });
+});
+
+describe("MOVE_COLUMN", () => {
+  it("moves a column and clamps the index", () => {
+    const next = boardReducer(createBoard(), { type: "MOVE_COLUMN", columnId: "todo", toIndex: 5 });
+    expect(next.columns.map((column) => column.id)).toEqual(["done", "todo"]);
+  });
+
+  it("ignores unknown columns and moves to the same place", () => {
+    const state = createBoard();
+    expect(boardReducer(state, { type: "MOVE_COLUMN", columnId: "gone", toIndex: 0 })).toBe(state);
+    expect(boardReducer(state, { type: "MOVE_COLUMN", columnId: "todo", toIndex: 0 })).toBe(state);
+  });
+});
+
+describe("RESIZE_CELLS", () => {
+  it("ignores the last cell of a column, which has no neighbour below", () => {
+    const state = createBoard();
+    const resize = (cellId: string) =>
+      boardReducer(state, { type: "RESIZE_CELLS", columnId: "todo", cellId, heights: [2, 1] });
+    expect(resize("b")).toBe(state);
+    expect(resize("a").columns[0].cells.map((cell) => cell.height)).toEqual([2, 1]);
+  });
+});
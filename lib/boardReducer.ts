@@ -0,0 +1,1043 @@
+import {
+  AutomationRule,
+  BoardParcel,
+  BoardState,
+  Cell,
+  Column,
+  ItemColor,
+  QuadrantTarget,
+  Task,
+  TaskChanges,
+  TaskEvent,
+  TrashEntry,
+  WipPolicy,
+} from "@/types/board";
+import { arrayMove, clamp } from "@/lib/boardUtils";
+import { createTask } from "@/lib/taskUtils";
+import {
+  addSwimlane,
+  enableSwimlanes,
+  fitBoardToSwimlanes,
+  moveSwimlane,
+  resizeSwimlanes,
+  swimlaneCellId,
+} from "@/lib/boardSwimlanes";
+import { DEFAULT_MESSAGES } from "@/lib/i18n";
+import { isItemColor, normalizeItemIcon } from "@/lib/boardColors";
+import { findStaleAutomationUpdates } from "@/lib/boardAutomation";
+
+// A colour or icon to set, null to clear it, or left out to keep it.
+export type AppearanceChanges = { color?: ItemColor | null; icon?: string | null };
+
+// Moves and resizes address items by id rather than position so that an action still means the
+// same thing when it is replayed on a board that other clients have changed in the meantime.
+export type BoardAction =
+  | { type: "ADD_COLUMN"; columnId: string; cellId: string; title?: string; cellTitle?: string }
+  | { type: "DELETE_COLUMN"; columnId: string; trashId: string; now: string }
+  | { type: "UPDATE_COLUMN_TITLE"; columnId: string; title: string }
+  | { type: "RESIZE_COLUMNS"; columnId: string; widths: [number, number] }
+  | { type: "MOVE_COLUMN"; columnId: string; toIndex: number }
+  | { type: "ADD_CELL"; columnId: string; cellId: string; title?: string }
+  | { type: "DELETE_CELL"; columnId: string; cellId: string; trashId: string; now: string }
+  | { type: "UPDATE_CELL_TITLE"; cellId: string; title: string }
+  | { type: "RESIZE_CELLS"; columnId: string; cellId: string; heights: [number, number] }
+  | { type: "SET_COLUMN_WIP_LIMIT"; columnId: string; limit: number | null }
+  | { type: "SET_CELL_WIP_LIMIT"; cellId: string; limit: number | null }
+  | { type: "SET_WIP_POLICY"; policy: WipPolicy }
+  | { type: "SET_COLUMN_COLLAPSED"; columnId: string; collapsed: boolean }
+  | { type: "SET_CELL_COLLAPSED"; cellId: string; collapsed: boolean }
+  | ({ type: "SET_COLUMN_APPEARANCE"; columnId: string } & AppearanceChanges)
+  | ({ type: "SET_CELL_APPEARANCE"; cellId: string } & AppearanceChanges)
+  | {
+      type: "MOVE_CELL";
+      cellId: string;
+      sourceColumnId: string;
+      destinationColumnId: string;
+      destinationIndex: number;
+    }
+  | {
+      type: "DROP_CELL";
+      cellId: string;
+      target: QuadrantTarget;
+      newColumnId: string;
+      newColumnTitle?: string;
+    }
+  // Takes a column or cell off this board, with its tasks and their history, once another board
+  // has received it. Nothing goes to the trash.
+  | { type: "SEND_TO_BOARD"; kind: BoardParcel["kind"]; id: string }
+  // Adds what another board sent: a column at `index`, or a cell at `index` in `columnId` (the
+  // first column when that one is gone).
+  | { type: "RECEIVE_FROM_BOARD"; parcel: BoardParcel; columnId?: string; index?: number }
+  | { type: "ADD_TASK"; cellId: string; taskId: string; title: string; now: string }
+  | {
+      type: "UPDATE_TASK";
+      cellId: string;
+      taskId: string;
+      changes: TaskChanges;
+      now: string;
+    }
+  | { type: "REMOVE_TASK"; cellId: string; taskId: string; trashId: string; now: string }
+  | {
+      type: "MOVE_TASK";
+      taskId: string;
+      sourceCellId: string;
+      destinationCellId: string;
+      destinationIndex: number;
+      now: string;
+    }
+  // Moves several tasks, from any cells, next to each other in the order given. destinationIndex
+  // counts only the destination's tasks that stay where they are.
+  | {
+      type: "MOVE_TASKS";
+      taskIds: string[];
+      destinationCellId: string;
+      destinationIndex: number;
+      now: string;
+    }
+  // targetId is where to put the item when its original place is gone: a cell for a task, a
+  // column for a cell. Columns always go back to their old position.
+  | { type: "RESTORE_TRASH"; trashId: string; targetId?: string; now: string }
+  | { type: "PURGE_TRASH"; trashIds: string[] }
+  | { type: "PURGE_EXPIRED_TRASH"; before: string }
+  | { type: "ARCHIVE_TASKS"; taskIds: string[]; now: string }
+  | { type: "RESTORE_ARCHIVED_TASK"; taskId: string; targetCellId?: string; now: string }
+  // Adds the rule, or replaces the one with the same id.
+  | { type: "SAVE_AUTOMATION"; rule: AutomationRule }
+  | { type: "DELETE_AUTOMATION"; ruleId: string }
+  // Task edits made by automation rules, applied as one action so they undo together.
+  | {
+      type: "APPLY_AUTOMATIONS";
+      updates: Array<{ cellId: string; taskId: string; changes: TaskChanges }>;
+      now: string;
+    }
+  // Runs the "stale in cell" rules on the board as it is when the action is applied, so clients
+  // that each check on their own clock don't apply the same edits twice.
+  | { type: "RUN_STALE_AUTOMATIONS"; now: string }
+  // laneIds holds one id per row, for as many rows as the tallest column has cells.
+  | { type: "ENABLE_SWIMLANES"; laneIds: string[] }
+  | { type: "DISABLE_SWIMLANES" }
+  | { type: "ADD_SWIMLANE"; laneId: string; title?: string }
+  | { type: "UPDATE_SWIMLANE"; laneId: string; title?: string; collapsed?: boolean }
+  | { type: "MOVE_SWIMLANE"; laneId: string; toIndex: number }
+  | { type: "DELETE_SWIMLANE"; laneId: string; trashId: string; now: string };
+
+// Titles for actions that don't name what they create. The app sends titles in the user's
+// language; these cover other clients, such as the REST API.
+export const DEFAULT_COLUMN_TITLE = DEFAULT_MESSAGES.defaults.untitledColumn;
+export const DEFAULT_CELL_TITLE = DEFAULT_MESSAGES.defaults.untitledCell;
+export const NEW_CELL_TITLE = DEFAULT_MESSAGES.defaults.newCell;
+export const DEFAULT_WIP_POLICY: WipPolicy = "block";
+export const MAX_TASK_EVENTS = 5000;
+
+const newColumnTitle = (state: BoardState) => DEFAULT_MESSAGES.defaults.newColumn(state.columns.length + 1);
+
+// In swimlane mode a cell's position is its lane, so per-column cell changes are ignored.
+const SWIMLANE_LOCKED_ACTIONS = new Set<BoardAction["type"]>([
+  "ADD_CELL",
+  "DELETE_CELL",
+  "MOVE_CELL",
+  "DROP_CELL",
+]);
+
+// The oldest events are dropped once the log is full so stored boards stay bounded.
+const appendTaskEvents = (state: BoardState, ...added: TaskEvent[]): TaskEvent[] | undefined => {
+  if (added.length === 0) {
+    return state.taskEvents;
+  }
+  const events = [...(state.taskEvents ?? []), ...added];
+  return events.length > MAX_TASK_EVENTS ? events.slice(events.length - MAX_TASK_EVENTS) : events;
+};
+
+const taskEventsFor = (
+  type: "deleted" | "archived" | "restored",
+  tasksByCell: Record<string, Task[]>,
+  at: string,
+): TaskEvent[] =>
+  Object.entries(tasksByCell).flatMap(([cellId, tasks]) =>
+    tasks.map((task): TaskEvent => ({ type, taskId: task.id, cellId, at })),
+  );
+
+const appendTrash = (state: BoardState, entry: TrashEntry) => [...(state.trash ?? []), entry];
+
+export const hasCell = (state: BoardState, cellId: string | undefined) =>
+  state.columns.some((column) => column.cells.some((cell) => cell.id === cellId));
+
+// A null limit removes the key so boards without limits keep their previous shape.
+const withWipLimit = <T extends Cell | Column>(item: T, limit: number | null): T => {
+  if ((item.wipLimit ?? null) === limit) {
+    return item;
+  }
+  const next = { ...item, wipLimit: limit ?? undefined };
+  if (limit === null) {
+    delete next.wipLimit;
+  }
+  return next;
+};
+
+const withCollapsed = <T extends Cell | Column>(item: T, collapsed: boolean): T => {
+  if (Boolean(item.collapsed) === collapsed) {
+    return item;
+  }
+  const next: T = { ...item, collapsed };
+  if (!collapsed) {
+    delete next.collapsed;
+  }
+  return next;
+};
+
+// Unknown colours and empty icons clear the setting, since actions also arrive through the API.
+const withAppearance = <T extends Cell | Column>(item: T, { color, icon }: AppearanceChanges): T => {
+  const next: T = { ...item };
+  if (color !== undefined) {
+    if (isItemColor(color)) {
+      next.color = color;
+    } else {
+      delete next.color;
+    }
+  }
+  if (icon !== undefined) {
+    const nextIcon = normalizeItemIcon(icon);
+    if (nextIcon) {
+      next.icon = nextIcon;
+    } else {
+      delete next.icon;
+    }
+  }
+  return next.color === item.color && next.icon === item.icon ? item : next;
+};
+
+const updateColumn = (
+  state: BoardState,
+  columnId: string,
+  update: (column: Column) => Column,
+): BoardState => {
+  const index = state.columns.findIndex((column) => column.id === columnId);
+  if (index === -1) {
+    return state;
+  }
+  const nextColumn = update(state.columns[index]);
+  if (nextColumn === state.columns[index]) {
+    return state;
+  }
+  const nextColumns = [...state.columns];
+  nextColumns[index] = nextColumn;
+  return {
+    ...state,
+    columns: nextColumns,
+    tasksByCell: state.tasksByCell,
+  };
+};
+
+const updateCell = (state: BoardState, cellId: string, update: (cell: Cell) => Cell): BoardState => {
+  const column = state.columns.find((item) => item.cells.some((cell) => cell.id === cellId));
+  if (!column) {
+    return state;
+  }
+  return updateColumn(state, column.id, (current) => {
+    const cells = current.cells.map((cell) => (cell.id === cellId ? update(cell) : cell));
+    return cells.every((cell, index) => cell === current.cells[index]) ? current : { ...current, cells };
+  });
+};
+
+const moveCell = (state: BoardState, action: Extract<BoardAction, { type: "MOVE_CELL" }>): BoardState => {
+  const sourceColumnIndex = state.columns.findIndex((column) => column.id === action.sourceColumnId);
+  const destinationColumnIndex = state.columns.findIndex(
+    (column) => column.id === action.destinationColumnId,
+  );
+  if (sourceColumnIndex === -1 || destinationColumnIndex === -1) {
+    return state;
+  }
+
+  const sourceIndex = state.columns[sourceColumnIndex].cells.findIndex((cell) => cell.id === action.cellId);
+  if (sourceIndex === -1) {
+    return state;
+  }
+
+  if (sourceColumnIndex === destinationColumnIndex) {
+    const column = state.columns[sourceColumnIndex];
+    const nextCells = arrayMove(column.cells, sourceIndex, action.destinationIndex);
+    if (nextCells === column.cells || nextCells.every((cell, index) => cell === column.cells[index])) {
+      return state;
+    }
+    const nextColumns = [...state.columns];
+    nextColumns[sourceColumnIndex] = { ...column, cells: nextCells };
+    return {
+      ...state,
+      columns: nextColumns,
+      tasksByCell: state.tasksByCell,
+    };
+  }
+
+  const nextColumns = state.columns.map((column) => ({ ...column, cells: [...column.cells] }));
+  const [movedCell] = nextColumns[sourceColumnIndex].cells.splice(sourceIndex, 1);
+  const targetCells = nextColumns[destinationColumnIndex].cells;
+  const insertIndex = clamp(action.destinationIndex, 0, targetCells.length);
+  targetCells.splice(insertIndex, 0, movedCell);
+  return {
+    ...state,
+    columns: nextColumns,
+    tasksByCell: state.tasksByCell,
+  };
+};
+
+const dropCell = (state: BoardState, action: Extract<BoardAction, { type: "DROP_CELL" }>): BoardState => {
+  const { cellId, target } = action;
+  const sourceColumnIndex = state.columns.findIndex((column) =>
+    column.cells.some((cell) => cell.id === cellId),
+  );
+  const targetColumnIndex = state.columns.findIndex((column) =>
+    column.cells.some((cell) => cell.id === target.cellId),
+  );
+  if (sourceColumnIndex === -1 || targetColumnIndex === -1 || cellId === target.cellId) {
+    return state;
+  }
+
+  const nextColumns = state.columns.map((column) => ({ ...column, cells: [...column.cells] }));
+  const sourceCells = nextColumns[sourceColumnIndex].cells;
+  const [movedCell] = sourceCells.splice(
+    sourceCells.findIndex((cell) => cell.id === cellId),
+    1,
+  );
+
+  if (target.quadrant === "left" || target.quadrant === "right") {
+    const newColumn: Column = {
+      id: action.newColumnId,
+      title: action.newColumnTitle ?? newColumnTitle(state),
+      width: 1,
+      cells: [{ ...movedCell, height: 1 }],
+    };
+    const insertIndex = target.quadrant === "left" ? targetColumnIndex : targetColumnIndex + 1;
+    nextColumns.splice(insertIndex, 0, newColumn);
+    return {
+      ...state,
+      columns: nextColumns,
+      tasksByCell: state.tasksByCell,
+    };
+  }
+
+  // The dropped cell takes half of the target's weight so the rest of the column keeps its layout.
+  const targetCells = nextColumns[targetColumnIndex].cells;
+  const targetIndex = targetCells.findIndex((cell) => cell.id === target.cellId);
+  const splitHeight = targetCells[targetIndex].height / 2;
+  targetCells[targetIndex] = { ...targetCells[targetIndex], height: splitHeight };
+  const insertIndex = target.quadrant === "top" ? targetIndex : targetIndex + 1;
+  targetCells.splice(insertIndex, 0, { ...movedCell, height: splitHeight });
+  return {
+    ...state,
+    columns: nextColumns,
+    tasksByCell: state.tasksByCell,
+  };
+};
+
+const moveTask = (state: BoardState, action: Extract<BoardAction, { type: "MOVE_TASK" }>): BoardState => {
+  const { sourceCellId, destinationCellId } = action;
+  const sourceTasks = state.tasksByCell[sourceCellId] ? [...state.tasksByCell[sourceCellId]] : [];
+  const sourceIndex = sourceTasks.findIndex((task) => task.id === action.taskId);
+  if (sourceIndex === -1 || !hasCell(state, destinationCellId)) {
+    return state;
+  }
+  const [movedTask] = sourceTasks.splice(sourceIndex, 1);
+
+  const nextTasksByCell = { ...state.tasksByCell };
+  if (sourceCellId === destinationCellId) {
+    const insertIndex = clamp(action.destinationIndex, 0, sourceTasks.length);
+    sourceTasks.splice(insertIndex, 0, movedTask);
+    nextTasksByCell[sourceCellId] = sourceTasks;
+    return {
+      ...state,
+      columns: state.columns,
+      tasksByCell: nextTasksByCell,
+    };
+  }
+
+  nextTasksByCell[sourceCellId] = sourceTasks;
+  const targetTasks: Task[] = [...(nextTasksByCell[destinationCellId] ?? [])];
+  const insertIndex = clamp(action.destinationIndex, 0, targetTasks.length);
+  targetTasks.splice(insertIndex, 0, movedTask);
+  nextTasksByCell[destinationCellId] = targetTasks;
+  return {
+    ...state,
+    columns: state.columns,
+    tasksByCell: nextTasksByCell,
+    taskEvents: appendTaskEvents(state, {
+      type: "moved",
+      taskId: action.taskId,
+      fromCellId: sourceCellId,
+      toCellId: destinationCellId,
+      at: action.now,
+    }),
+  };
+};
+
+const moveTasks = (state: BoardState, action: Extract<BoardAction, { type: "MOVE_TASKS" }>): BoardState => {
+  const { destinationCellId } = action;
+  const sources = new Map(
+    Object.entries(state.tasksByCell).flatMap(([cellId, tasks]) =>
+      tasks.map((task): [string, { task: Task; cellId: string }] => [task.id, { task, cellId }]),
+    ),
+  );
+  const moved = [...new Set(action.taskIds)].flatMap((taskId) => sources.get(taskId) ?? []);
+  if (moved.length === 0 || !hasCell(state, destinationCellId)) {
+    return state;
+  }
+
+  const movedIds = new Set(moved.map(({ task }) => task.id));
+  const nextTasksByCell = { ...state.tasksByCell };
+  for (const cellId of new Set([...moved.map((item) => item.cellId), destinationCellId])) {
+    nextTasksByCell[cellId] = (nextTasksByCell[cellId] ?? []).filter((task) => !movedIds.has(task.id));
+  }
+  const targetTasks = nextTasksByCell[destinationCellId];
+  targetTasks.splice(
+    clamp(action.destinationIndex, 0, targetTasks.length),
+    0,
+    ...moved.map(({ task }) => task),
+  );
+  return {
+    ...state,
+    tasksByCell: nextTasksByCell,
+    taskEvents: appendTaskEvents(
+      state,
+      ...moved
+        .filter((item) => item.cellId !== destinationCellId)
+        .map(
+          (item): TaskEvent => ({
+            type: "moved",
+            taskId: item.task.id,
+            fromCellId: item.cellId,
+            toCellId: destinationCellId,
+            at: action.now,
+          }),
+        ),
+    ),
+  };
+};
+
+// Puts a trashed item back on the board, or returns null when it has nowhere to go.
+const restoreTrashEntry = (
+  state: BoardState,
+  entry: TrashEntry,
+  targetId: string | undefined,
+  now: string,
+): BoardState | null => {
+  if (entry.kind === "column") {
+    const columns = [...state.columns];
+    columns.splice(clamp(entry.index, 0, columns.length), 0, entry.column);
+    return fitBoardToSwimlanes({
+      ...state,
+      columns,
+      tasksByCell: { ...state.tasksByCell, ...entry.tasksByCell },
+      taskEvents: appendTaskEvents(state, ...taskEventsFor("restored", entry.tasksByCell, now)),
+    });
+  }
+
+  if (entry.kind === "swimlane") {
+    return state.swimlanes ? restoreSwimlane(state, entry, now) : null;
+  }
+
+  if (entry.kind === "cell") {
+    // A single cell has no lane to go back to.
+    if (state.swimlanes) {
+      return null;
+    }
+    const original = state.columns.find((column) => column.id === entry.columnId);
+    const column = original ?? state.columns.find((item) => item.id === targetId);
+    if (!column) {
+      return null;
+    }
+    const cells = [...column.cells];
+    cells.splice(original ? clamp(entry.index, 0, cells.length) : cells.length, 0, entry.cell);
+    const next = updateColumn(state, column.id, (current) => ({ ...current, cells }));
+    const restoredTasks = { [entry.cell.id]: entry.tasks };
+    return {
+      ...next,
+      tasksByCell: { ...next.tasksByCell, ...restoredTasks },
+      taskEvents: appendTaskEvents(state, ...taskEventsFor("restored", restoredTasks, now)),
+    };
+  }
+
+  const cellId = [entry.cellId, targetId].find((id) => hasCell(state, id));
+  if (!cellId) {
+    return null;
+  }
+  const tasks = [...(state.tasksByCell[cellId] ?? [])];
+  tasks.splice(cellId === entry.cellId ? clamp(entry.index, 0, tasks.length) : tasks.length, 0, entry.task);
+  return {
+    ...state,
+    tasksByCell: { ...state.tasksByCell, [cellId]: tasks },
+    taskEvents: appendTaskEvents(state, { type: "restored", taskId: entry.task.id, cellId, at: now }),
+  };
+};
+
+// Puts a lane back at its old position with the cells it took from each column; columns added
+// since get an empty cell.
+const restoreSwimlane = (
+  state: BoardState,
+  entry: Extract<TrashEntry, { kind: "swimlane" }>,
+  now: string,
+): BoardState => {
+  const lanes = state.swimlanes ?? [];
+  const index = clamp(entry.index, 0, lanes.length);
+  const swimlanes = [...lanes];
+  swimlanes.splice(index, 0, entry.lane);
+  const restoredTasks: Record<string, Task[]> = {};
+  const columns = state.columns.map((column) => {
+    const saved = entry.cells.find((item) => item.columnId === column.id);
+    const cell = saved?.cell ?? {
+      id: swimlaneCellId(column.id, entry.lane.id),
+      title: entry.lane.title,
+      height: 1,
+    };
+    restoredTasks[cell.id] = saved?.tasks ?? [];
+    const cells = [...column.cells];
+    cells.splice(index, 0, cell);
+    return { ...column, cells };
+  });
+  return fitBoardToSwimlanes({
+    ...state,
+    swimlanes,
+    columns,
+    tasksByCell: { ...state.tasksByCell, ...restoredTasks },
+    taskEvents: appendTaskEvents(state, ...taskEventsFor("restored", restoredTasks, now)),
+  });
+};
+
+// In swimlane mode a lone cell can't leave, since its column needs a cell in every lane.
+const sendToBoard = (state: BoardState, action: Extract<BoardAction, { type: "SEND_TO_BOARD" }>) => {
+  const column =
+    action.kind === "column"
+      ? state.columns.find((item) => item.id === action.id)
+      : state.swimlanes
+        ? undefined
+        : state.columns.find((item) => item.cells.some((cell) => cell.id === action.id));
+  if (!column) {
+    return state;
+  }
+  const cellIds = action.kind === "column" ? column.cells.map((cell) => cell.id) : [action.id];
+  const tasksByCell = { ...state.tasksByCell };
+  const taskIds = new Set(cellIds.flatMap((cellId) => (tasksByCell[cellId] ?? []).map((task) => task.id)));
+  cellIds.forEach((cellId) => {
+    delete tasksByCell[cellId];
+  });
+  const columns =
+    action.kind === "column"
+      ? state.columns.filter((item) => item.id !== column.id)
+      : state.columns.map((item) =>
+          item.id === column.id
+            ? { ...item, cells: item.cells.filter((cell) => cell.id !== action.id) }
+            : item,
+        );
+  return {
+    ...state,
+    columns,
+    tasksByCell,
+    taskEvents: state.taskEvents?.filter((event) => !taskIds.has(event.taskId)),
+  };
+};
+
+// Replaying the same delivery is a no-op, so a retried request can't add the item twice.
+const receiveFromBoard = (
+  state: BoardState,
+  action: Extract<BoardAction, { type: "RECEIVE_FROM_BOARD" }>,
+): BoardState => {
+  const { parcel } = action;
+  const cells = parcel.kind === "column" ? parcel.column.cells : [parcel.cell];
+  if (cells.some((cell) => hasCell(state, cell.id))) {
+    return state;
+  }
+  let columns: Column[];
+  let tasksByCell: BoardState["tasksByCell"];
+  if (parcel.kind === "column") {
+    if (state.columns.some((column) => column.id === parcel.column.id)) {
+      return state;
+    }
+    columns = [...state.columns];
+    columns.splice(clamp(action.index ?? columns.length, 0, columns.length), 0, parcel.column);
+    tasksByCell = { ...state.tasksByCell, ...parcel.tasksByCell };
+  } else {
+    const target = state.columns.find((column) => column.id === action.columnId) ?? state.columns[0];
+    if (!target) {
+      return state;
+    }
+    columns = state.columns.map((column) => {
+      if (column.id !== target.id) {
+        return column;
+      }
+      const nextCells = [...column.cells];
+      nextCells.splice(clamp(action.index ?? nextCells.length, 0, nextCells.length), 0, parcel.cell);
+      return { ...column, cells: nextCells };
+    });
+    tasksByCell = { ...state.tasksByCell, [parcel.cell.id]: parcel.tasks };
+  }
+  const taskEvents = [...(state.taskEvents ?? []), ...parcel.taskEvents]
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .slice(-MAX_TASK_EVENTS);
+  return fitBoardToSwimlanes({
+    ...state,
+    columns,
+    tasksByCell,
+    taskEvents: taskEvents.length > 0 ? taskEvents : state.taskEvents,
+  });
+};
+
+const deleteSwimlane = (
+  state: BoardState,
+  action: Extract<BoardAction, { type: "DELETE_SWIMLANE" }>,
+): BoardState => {
+  const lanes = state.swimlanes ?? [];
+  const index = lanes.findIndex((lane) => lane.id === action.laneId);
+  // The last lane stays, since columns need at least one cell.
+  if (index === -1 || lanes.length <= 1) {
+    return state;
+  }
+  const tasksByCell = { ...state.tasksByCell };
+  const cells = state.columns.flatMap((column) => {
+    const cell = column.cells[index];
+    return cell ? [{ columnId: column.id, cell, tasks: tasksByCell[cell.id] ?? [] }] : [];
+  });
+  cells.forEach(({ cell }) => {
+    delete tasksByCell[cell.id];
+  });
+  const removedTasks = Object.fromEntries(cells.map(({ cell, tasks }) => [cell.id, tasks]));
+  return {
+    ...state,
+    swimlanes: lanes.filter((lane) => lane.id !== action.laneId),
+    columns: state.columns.map((column) => ({
+      ...column,
+      cells: column.cells.filter((_, cellIndex) => cellIndex !== index),
+    })),
+    tasksByCell,
+    trash: appendTrash(state, {
+      kind: "swimlane",
+      id: action.trashId,
+      deletedAt: action.now,
+      lane: lanes[index],
+      index,
+      cells,
+    }),
+    taskEvents: appendTaskEvents(state, ...taskEventsFor("deleted", removedTasks, action.now)),
+  };
+};
+
+const archiveTasks = (
+  state: BoardState,
+  action: Extract<BoardAction, { type: "ARCHIVE_TASKS" }>,
+): BoardState => {
+  const taskIds = new Set(action.taskIds);
+  const archived: Record<string, Task[]> = {};
+  const tasksByCell = { ...state.tasksByCell };
+  Object.entries(state.tasksByCell).forEach(([cellId, tasks]) => {
+    if (tasks.some((task) => taskIds.has(task.id))) {
+      archived[cellId] = tasks.filter((task) => taskIds.has(task.id));
+      tasksByCell[cellId] = tasks.filter((task) => !taskIds.has(task.id));
+    }
+  });
+  const entries = Object.entries(archived).flatMap(([cellId, tasks]) =>
+    tasks.map((task) => ({ task, cellId, archivedAt: action.now })),
+  );
+  if (entries.length === 0) {
+    return state;
+  }
+  return {
+    ...state,
+    tasksByCell,
+    archive: [...(state.archive ?? []), ...entries],
+    taskEvents: appendTaskEvents(state, ...taskEventsFor("archived", archived, action.now)),
+  };
+};
+
+export function boardReducer(state: BoardState, action: BoardAction): BoardState {
+  if (state.swimlanes && SWIMLANE_LOCKED_ACTIONS.has(action.type)) {
+    return state;
+  }
+  switch (action.type) {
+    case "ADD_COLUMN": {
+      const newColumn: Column = {
+        id: action.columnId,
+        title: action.title ?? newColumnTitle(state),
+        width: 1,
+        cells: [{ id: action.cellId, title: action.cellTitle ?? NEW_CELL_TITLE, height: 1 }],
+      };
+      return fitBoardToSwimlanes({
+        ...state,
+        columns: [...state.columns, newColumn],
+        tasksByCell: { ...state.tasksByCell, [action.cellId]: [] },
+      });
+    }
+
+    case "DELETE_COLUMN": {
+      const index = state.columns.findIndex((column) => column.id === action.columnId);
+      if (index === -1) {
+        return state;
+      }
+      const removedColumn = state.columns[index];
+      const nextTasks = { ...state.tasksByCell };
+      const removedTasks: Record<string, Task[]> = {};
+      removedColumn.cells.forEach((cell) => {
+        removedTasks[cell.id] = nextTasks[cell.id] ?? [];
+        delete nextTasks[cell.id];
+      });
+      return {
+        ...state,
+        columns: state.columns.filter((column) => column.id !== action.columnId),
+        tasksByCell: nextTasks,
+        trash: appendTrash(state, {
+          kind: "column",
+          id: action.trashId,
+          deletedAt: action.now,
+          column: removedColumn,
+          index,
+          tasksByCell: removedTasks,
+        }),
+        taskEvents: appendTaskEvents(state, ...taskEventsFor("deleted", removedTasks, action.now)),
+      };
+    }
+
+    case "UPDATE_COLUMN_TITLE": {
+      const title = action.title.trim() || DEFAULT_COLUMN_TITLE;
+      return updateColumn(state, action.columnId, (column) =>
+        column.title === title ? column : { ...column, title },
+      );
+    }
+
+    case "RESIZE_COLUMNS": {
+      const index = state.columns.findIndex((column) => column.id === action.columnId);
+      if (index === -1 || index + 1 >= state.columns.length) {
+        return state;
+      }
+      const nextColumns = [...state.columns];
+      nextColumns[index] = { ...nextColumns[index], width: action.widths[0] };
+      nextColumns[index + 1] = { ...nextColumns[index + 1], width: action.widths[1] };
+      return {
+        ...state,
+        columns: nextColumns,
+        tasksByCell: state.tasksByCell,
+      };
+    }
+
+    case "ADD_CELL": {
+      const cell: Cell = { id: action.cellId, title: action.title ?? NEW_CELL_TITLE, height: 1 };
+      const next = updateColumn(state, action.columnId, (column) => ({
+        ...column,
+        cells: [...column.cells, cell],
+      }));
+      if (next === state) {
+        return state;
+      }
+      return {
+        ...state,
+        columns: next.columns,
+        tasksByCell: { ...state.tasksByCell, [action.cellId]: [] },
+      };
+    }
+
+    case "DELETE_CELL": {
+      const column = state.columns.find((item) => item.id === action.columnId);
+      const index = column ? column.cells.findIndex((cell) => cell.id === action.cellId) : -1;
+      if (!column || index === -1) {
+        return state;
+      }
+      const next = updateColumn(state, action.columnId, (current) => ({
+        ...current,
+        cells: current.cells.filter((cell) => cell.id !== action.cellId),
+      }));
+      const nextTasks = { ...state.tasksByCell };
+      const tasks = nextTasks[action.cellId] ?? [];
+      delete nextTasks[action.cellId];
+      return {
+        ...state,
+        columns: next.columns,
+        tasksByCell: nextTasks,
+        trash: appendTrash(state, {
+          kind: "cell",
+          id: action.trashId,
+          deletedAt: action.now,
+          cell: column.cells[index],
+          columnId: column.id,
+          index,
+          tasks,
+        }),
+        taskEvents: appendTaskEvents(
+          state,
+          ...taskEventsFor("deleted", { [action.cellId]: tasks }, action.now),
+        ),
+      };
+    }
+
+    case "UPDATE_CELL_TITLE": {
+      const title = action.title.trim() || DEFAULT_CELL_TITLE;
+      const column = state.columns.find((item) => item.cells.some((cell) => cell.id === action.cellId));
+      if (!column) {
+        return state;
+      }
+      return updateColumn(state, column.id, (current) =>
+        current.cells.some((cell) => cell.id === action.cellId && cell.title !== title)
+          ? {
+              ...current,
+              cells: current.cells.map((cell) => (cell.id === action.cellId ? { ...cell, title } : cell)),
+            }
+          : current,
+      );
+    }
+
+    case "RESIZE_CELLS":
+      if (state.swimlanes) {
+        return resizeSwimlanes(state, action.cellId, action.heights);
+      }
+      return updateColumn(state, action.columnId, (column) => {
+        const cellIndex = column.cells.findIndex((cell) => cell.id === action.cellId);
+        if (cellIndex === -1 || cellIndex + 1 >= column.cells.length) {
+          return column;
+        }
+        return {
+          ...column,
+          cells: column.cells.map((cell, index) => {
+            if (index === cellIndex) {
+              return { ...cell, height: action.heights[0] };
+            }
+            if (index === cellIndex + 1) {
+              return { ...cell, height: action.heights[1] };
+            }
+            return cell;
+          }),
+        };
+      });
+
+    case "SET_COLUMN_WIP_LIMIT":
+      return updateColumn(state, action.columnId, (column) => withWipLimit(column, action.limit));
+
+    case "SET_CELL_WIP_LIMIT":
+      return updateCell(state, action.cellId, (cell) => withWipLimit(cell, action.limit));
+
+    case "SET_COLUMN_COLLAPSED":
+      return updateColumn(state, action.columnId, (column) => withCollapsed(column, action.collapsed));
+
+    case "SET_CELL_COLLAPSED":
+      return updateCell(state, action.cellId, (cell) => withCollapsed(cell, action.collapsed));
+
+    case "SET_COLUMN_APPEARANCE":
+      return updateColumn(state, action.columnId, (column) => withAppearance(column, action));
+
+    case "SET_CELL_APPEARANCE":
+      return updateCell(state, action.cellId, (cell) => withAppearance(cell, action));
+
+    case "SET_WIP_POLICY":
+      return (state.wipPolicy ?? DEFAULT_WIP_POLICY) === action.policy
+        ? state
+        : { ...state, wipPolicy: action.policy };
+
+    case "MOVE_CELL":
+      return moveCell(state, action);
+
+    case "MOVE_COLUMN": {
+      const fromIndex = state.columns.findIndex((column) => column.id === action.columnId);
+      const columns = fromIndex === -1 ? state.columns : arrayMove(state.columns, fromIndex, action.toIndex);
+      return columns === state.columns || fromIndex === action.toIndex ? state : { ...state, columns };
+    }
+
+    case "SEND_TO_BOARD":
+      return sendToBoard(state, action);
+
+    case "RECEIVE_FROM_BOARD":
+      return receiveFromBoard(state, action);
+
+    case "DROP_CELL":
+      return dropCell(state, action);
+
+    case "ADD_TASK": {
+      if (!hasCell(state, action.cellId)) {
+        return state;
+      }
+      const tasks = state.tasksByCell[action.cellId] ?? [];
+      return {
+        ...state,
+        columns: state.columns,
+        tasksByCell: {
+          ...state.tasksByCell,
+          [action.cellId]: [...tasks, createTask(action.taskId, action.title, action.now)],
+        },
+        taskEvents: appendTaskEvents(state, {
+          type: "created",
+          taskId: action.taskId,
+          cellId: action.cellId,
+          title: action.title,
+          at: action.now,
+        }),
+      };
+    }
+
+    case "UPDATE_TASK": {
+      const tasks = state.tasksByCell[action.cellId];
+      const current = tasks?.find((task) => task.id === action.taskId);
+      if (!tasks || !current) {
+        return state;
+      }
+      const { title } = action.changes;
+      return {
+        ...state,
+        columns: state.columns,
+        tasksByCell: {
+          ...state.tasksByCell,
+          [action.cellId]: tasks.map((task) =>
+            task.id === action.taskId ? { ...task, ...action.changes, updatedAt: action.now } : task,
+          ),
+        },
+        taskEvents:
+          title !== undefined && title !== current.title
+            ? appendTaskEvents(state, {
+                type: "renamed",
+                taskId: action.taskId,
+                from: current.title,
+                to: title,
+                at: action.now,
+              })
+            : state.taskEvents,
+      };
+    }
+
+    case "REMOVE_TASK": {
+      const tasks = state.tasksByCell[action.cellId];
+      const index = tasks ? tasks.findIndex((task) => task.id === action.taskId) : -1;
+      if (!tasks || index === -1) {
+        return state;
+      }
+      return {
+        ...state,
+        columns: state.columns,
+        tasksByCell: {
+          ...state.tasksByCell,
+          [action.cellId]: tasks.filter((task) => task.id !== action.taskId),
+        },
+        trash: appendTrash(state, {
+          kind: "task",
+          id: action.trashId,
+          deletedAt: action.now,
+          task: tasks[index],
+          cellId: action.cellId,
+          index,
+        }),
+        taskEvents: appendTaskEvents(state, {
+          type: "deleted",
+          taskId: action.taskId,
+          cellId: action.cellId,
+          at: action.now,
+        }),
+      };
+    }
+
+    case "MOVE_TASK":
+      return moveTask(state, action);
+
+    case "MOVE_TASKS":
+      return moveTasks(state, action);
+
+    case "RESTORE_TRASH": {
+      const entry = state.trash?.find((item) => item.id === action.trashId);
+      const restored = entry ? restoreTrashEntry(state, entry, action.targetId, action.now) : null;
+      if (!restored) {
+        return state;
+      }
+      return { ...restored, trash: state.trash?.filter((item) => item.id !== action.trashId) };
+    }
+
+    case "PURGE_TRASH": {
+      const trashIds = new Set(action.trashIds);
+      const trash = (state.trash ?? []).filter((item) => !trashIds.has(item.id));
+      return trash.length === (state.trash ?? []).length ? state : { ...state, trash };
+    }
+
+    case "PURGE_EXPIRED_TRASH": {
+      const before = Date.parse(action.before);
+      const trash = (state.trash ?? []).filter((item) => !(Date.parse(item.deletedAt) < before));
+      return trash.length === (state.trash ?? []).length ? state : { ...state, trash };
+    }
+
+    case "ARCHIVE_TASKS":
+      return archiveTasks(state, action);
+
+    case "RESTORE_ARCHIVED_TASK": {
+      const archived = state.archive?.find((item) => item.task.id === action.taskId);
+      const cellId = archived && [archived.cellId, action.targetCellId].find((id) => hasCell(state, id));
+      if (!archived || !cellId) {
+        return state;
+      }
+      const tasks = [...(state.tasksByCell[cellId] ?? []), archived.task];
+      return {
+        ...state,
+        tasksByCell: { ...state.tasksByCell, [cellId]: tasks },
+        archive: state.archive?.filter((item) => item !== archived),
+        taskEvents: appendTaskEvents(state, {
+          type: "restored",
+          taskId: action.taskId,
+          cellId,
+          at: action.now,
+        }),
+      };
+    }
+
+    case "SAVE_AUTOMATION": {
+      const automations = state.automations ?? [];
+      return {
+        ...state,
+        automations: automations.some((rule) => rule.id === action.rule.id)
+          ? automations.map((rule) => (rule.id === action.rule.id ? action.rule : rule))
+          : [...automations, action.rule],
+      };
+    }
+
+    case "DELETE_AUTOMATION":
+      return state.automations?.some((rule) => rule.id === action.ruleId)
+        ? { ...state, automations: state.automations.filter((rule) => rule.id !== action.ruleId) }
+        : state;
+
+    case "ENABLE_SWIMLANES":
+      return enableSwimlanes(state, action.laneIds);
+
+    case "DISABLE_SWIMLANES": {
+      if (!state.swimlanes) {
+        return state;
+      }
+      const next = { ...state };
+      delete next.swimlanes;
+      return next;
+    }
+
+    case "ADD_SWIMLANE":
+      return addSwimlane(state, action.laneId, action.title);
+
+    case "UPDATE_SWIMLANE": {
+      const lane = state.swimlanes?.find((item) => item.id === action.laneId);
+      if (!state.swimlanes || !lane) {
+        return state;
+      }
+      const next = {
+        ...lane,
+        ...(action.title !== undefined ? { title: action.title } : {}),
+        ...(action.collapsed !== undefined ? { collapsed: action.collapsed } : {}),
+      };
+      return {
+        ...state,
+        swimlanes: state.swimlanes.map((item) => (item.id === action.laneId ? next : item)),
+      };
+    }
+
+    case "MOVE_SWIMLANE":
+      return moveSwimlane(state, action.laneId, action.toIndex);
+
+    case "DELETE_SWIMLANE":
+      return deleteSwimlane(state, action);
+
+    case "APPLY_AUTOMATIONS":
+      return action.updates.reduce(
+        (next, update) => boardReducer(next, { type: "UPDATE_TASK", ...update, now: action.now }),
+        state,
+      );
+
+    case "RUN_STALE_AUTOMATIONS": {
+      const updates = findStaleAutomationUpdates(state, Date.parse(action.now));
+      return boardReducer(state, { type: "APPLY_AUTOMATIONS", updates, now: action.now });
+    }
+
+    default:
+      return state;
+  }
+}
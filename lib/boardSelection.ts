@@ -0,0 +1,52 @@
+import { BoardState, Task } from "@/types/board";
+
+export type SelectedTask = { cellId: string; task: Task };
+
+// Every task with its cell, column by column and top to bottom, the order selections keep.
+export const listTasksInBoardOrder = (state: BoardState): SelectedTask[] =>
+  state.columns.flatMap((column) =>
+    column.cells.flatMap((cell) =>
+      (state.tasksByCell[cell.id] ?? []).map((task) => ({ cellId: cell.id, task })),
+    ),
+  );
+
+// The selected tasks that are still on the board, in board order. Ids of tasks deleted or moved
+// away since they were picked, here or by someone else, are ignored.
+export const getSelectedTasks = (state: BoardState, selectedIds: ReadonlySet<string>): SelectedTask[] =>
+  selectedIds.size === 0 ? [] : listTasksInBoardOrder(state).filter(({ task }) => selectedIds.has(task.id));
+
+// The tasks from anchorId to taskId in board order, both included, for a shift-click.
+export function getTaskRange(state: BoardState, anchorId: string, taskId: string): string[] {
+  const ids = listTasksInBoardOrder(state).map(({ task }) => task.id);
+  const from = ids.indexOf(anchorId);
+  const to = ids.indexOf(taskId);
+  if (from === -1 || to === -1) {
+    return [taskId];
+  }
+  return ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+/**
+ * Turns the index a dragged task was dropped at, which counts every other task in the destination,
+ * into the MOVE_TASKS index, which only counts the tasks that aren't part of the selection.
+ */
+export function getSelectionDropIndex(
+  destinationTasks: Task[],
+  draggedId: string,
+  dropIndex: number,
+  selectedIds: ReadonlySet<string>,
+): number {
+  return destinationTasks
+    .filter((task) => task.id !== draggedId)
+    .slice(0, dropIndex)
+    .filter((task) => !selectedIds.has(task.id)).length;
+}
+
+// A find-and-replace on a task title. Null when nothing matches or the title would become empty.
+export function replaceInTitle(title: string, find: string, replacement: string): string | null {
+  if (!find || !title.includes(find)) {
+    return null;
+  }
+  const next = title.split(find).join(replacement).trim();
+  return next && next !== title ? next : null;
+}
@@ -0,0 +1,205 @@
+import { BoardState, Cell, Column, Task } from "@/types/board";
+import { findInvalidTaskFields } from "@/lib/taskUtils";
+import { isItemColor } from "@/lib/boardColors";
+
+export const BOARD_STORAGE_KEY = "advanced-kanban:board";
+export const BOARD_SCHEMA_VERSION = 3;
+
+export type StoredBoard = {
+  version: number;
+  savedAt: string;
+  board: unknown;
+};
+
+type Migration = (board: unknown) => unknown;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// migrations[n] upgrades a board saved with schema version n to version n + 1.
+const migrations: Record<number, Migration> = {
+  // Version 0 boards were written as a bare BoardState without the envelope.
+  0: (board) => board,
+  // Version 2 added a width weight to every column.
+  1: (board) => {
+    if (!isRecord(board) || !Array.isArray(board.columns)) {
+      return board;
+    }
+    return {
+      ...board,
+      columns: board.columns.map((column) =>
+        isRecord(column) && typeof column.width !== "number" ? { ...column, width: 1 } : column,
+      ),
+    };
+  },
+  // Version 3 added created/updated timestamps to every task.
+  2: (board) => {
+    if (!isRecord(board) || !isRecord(board.tasksByCell)) {
+      return board;
+    }
+    const now = new Date().toISOString();
+    const tasksByCell = Object.fromEntries(
+      Object.entries(board.tasksByCell).map(([cellId, tasks]) => [
+        cellId,
+        Array.isArray(tasks)
+          ? tasks.map((task) =>
+              isRecord(task) && typeof task.createdAt !== "string"
+                ? { ...task, createdAt: now, updatedAt: now }
+                : task,
+            )
+          : tasks,
+      ]),
+    );
+    return { ...board, tasksByCell };
+  },
+};
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === "number";
+
+const isOptionalBoolean = (value: unknown) => value === undefined || typeof value === "boolean";
+
+const isOptionalArray = (value: unknown) => value === undefined || Array.isArray(value);
+
+const isOptionalColor = (value: unknown) => value === undefined || isItemColor(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+export const isCell = (value: unknown): value is Cell =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.title === "string" &&
+  typeof value.height === "number" &&
+  isOptionalColor(value.color) &&
+  isOptionalString(value.icon) &&
+  isOptionalNumber(value.wipLimit) &&
+  isOptionalBoolean(value.collapsed);
+
+export const isColumn = (value: unknown): value is Column =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.title === "string" &&
+  typeof value.width === "number" &&
+  isOptionalColor(value.color) &&
+  isOptionalString(value.icon) &&
+  isOptionalNumber(value.wipLimit) &&
+  isOptionalBoolean(value.collapsed) &&
+  Array.isArray(value.cells) &&
+  value.cells.every(isCell);
+
+export const isTask = (value: unknown): value is Task =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.createdAt === "string" &&
+  typeof value.updatedAt === "string" &&
+  typeof value.title === "string" &&
+  findInvalidTaskFields(value).length === 0;
+
+export const isTaskList = (value: unknown): value is Task[] => Array.isArray(value) && value.every(isTask);
+
+// Checks the board's shape, but not the entries of its history, trash, archive, rules and lanes.
+// Boards from an untrusted source go through findBoardStateError as well.
+export function isBoardState(value: unknown): value is BoardState {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.columns) &&
+    isRecord(value.tasksByCell) &&
+    isOptionalArray(value.taskEvents) &&
+    isOptionalArray(value.trash) &&
+    isOptionalArray(value.archive) &&
+    isOptionalArray(value.automations) &&
+    isOptionalArray(value.swimlanes) &&
+    value.columns.every(isColumn) &&
+    Object.values(value.tasksByCell).every(isTaskList)
+  );
+}
+
+export function toEnvelope(parsed: unknown): StoredBoard | null {
+  if (isRecord(parsed) && typeof parsed.version === "number" && "board" in parsed) {
+    return {
+      version: parsed.version,
+      savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+      board: parsed.board,
+    };
+  }
+  if (isRecord(parsed) && "columns" in parsed) {
+    return { version: 0, savedAt: "", board: parsed };
+  }
+  return null;
+}
+
+// Runs the migrations without checking the result, for callers that repair loose input.
+export function upgradeBoard(stored: StoredBoard): unknown {
+  if (stored.version > BOARD_SCHEMA_VERSION) {
+    return null;
+  }
+
+  let board = stored.board;
+  for (let version = stored.version; version < BOARD_SCHEMA_VERSION; version += 1) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return null;
+    }
+    board = migrate(board);
+  }
+  return board;
+}
+
+export function migrateBoard(stored: StoredBoard): BoardState | null {
+  const board = upgradeBoard(stored);
+  return isBoardState(board) ? board : null;
+}
+
+export function serializeBoard(board: BoardState): string {
+  const stored: StoredBoard = {
+    version: BOARD_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    board,
+  };
+  return JSON.stringify(stored);
+}
+
+export function deserializeBoard(raw: string): BoardState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const envelope = toEnvelope(parsed);
+  return envelope ? migrateBoard(envelope) : null;
+}
+
+function getStorage(): Storage | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function loadBoard(key: string = BOARD_STORAGE_KEY): BoardState | null {
+  const storage = getStorage();
+  const raw = storage?.getItem(key);
+  return raw ? deserializeBoard(raw) : null;
+}
+
+export function saveBoard(board: BoardState, key: string = BOARD_STORAGE_KEY): boolean {
+  const storage = getStorage();
+  if (!storage) {
+    return false;
+  }
+  try {
+    storage.setItem(key, serializeBoard(board));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearBoard(key: string = BOARD_STORAGE_KEY) {
+  getStorage()?.removeItem(key);
+}
@@ -0,0 +1,125 @@
+import { BoardState, Cell, Column, Swimlane } from "@/types/board";
+import { arrayMove } from "@/lib/boardUtils";
+import { DEFAULT_MESSAGES } from "@/lib/i18n";
+
+export const DEFAULT_SWIMLANE_TITLE = DEFAULT_MESSAGES.defaults.lane;
+
+// Cells a lane adds to existing columns get ids derived from the column and lane, so the reducer
+// needs no id source and every client that replays the action creates the same cells.
+export const swimlaneCellId = (columnId: string, laneId: string) => `${columnId}-${laneId}`;
+
+const rowHeights = (state: BoardState, rowCount: number) =>
+  Array.from(
+    { length: rowCount },
+    (_, index) => state.columns.find((column) => column.cells[index])?.cells[index].height ?? 1,
+  );
+
+/**
+ * Gives every column exactly one cell per swimlane, with the row's shared height. Missing cells
+ * are added empty; cells past the last lane are dropped and their tasks move into the last lane's
+ * cell. Returns the same board when it already fits.
+ */
+export function fitBoardToSwimlanes(state: BoardState): BoardState {
+  const lanes = state.swimlanes;
+  if (!lanes || lanes.length === 0) {
+    return state;
+  }
+  const heights = rowHeights(state, lanes.length);
+  const tasksByCell = { ...state.tasksByCell };
+  let changed = false;
+
+  const columns = state.columns.map((column): Column => {
+    const fits =
+      column.cells.length === lanes.length &&
+      column.cells.every((cell, index) => cell.height === heights[index]);
+    if (fits) {
+      return column;
+    }
+    changed = true;
+    const cells = lanes.map((lane, index): Cell => {
+      const cell = column.cells[index];
+      if (cell) {
+        return cell.height === heights[index] ? cell : { ...cell, height: heights[index] };
+      }
+      const id = swimlaneCellId(column.id, lane.id);
+      tasksByCell[id] = tasksByCell[id] ?? [];
+      return { id, title: lane.title, height: heights[index] };
+    });
+    const lastCellId = cells[cells.length - 1].id;
+    column.cells.slice(lanes.length).forEach((extra) => {
+      tasksByCell[lastCellId] = [...(tasksByCell[lastCellId] ?? []), ...(tasksByCell[extra.id] ?? [])];
+      delete tasksByCell[extra.id];
+    });
+    return { ...column, cells };
+  });
+
+  return changed ? { ...state, columns, tasksByCell } : state;
+}
+
+// Turns the cells at each position into a lane, named after the first column's cell there.
+export function enableSwimlanes(state: BoardState, laneIds: string[]): BoardState {
+  if (state.swimlanes || laneIds.length === 0) {
+    return state;
+  }
+  const swimlanes = laneIds.map(
+    (id, index): Swimlane => ({
+      id,
+      title: state.columns.find((column) => column.cells[index])?.cells[index].title ?? DEFAULT_SWIMLANE_TITLE,
+    }),
+  );
+  return fitBoardToSwimlanes({ ...state, swimlanes });
+}
+
+export function addSwimlane(state: BoardState, laneId: string, title?: string): BoardState {
+  if (!state.swimlanes) {
+    return state;
+  }
+  const lane: Swimlane = {
+    id: laneId,
+    title: title ?? DEFAULT_MESSAGES.defaults.newLane(state.swimlanes.length + 1),
+  };
+  const columns = state.columns.map((column) => ({
+    ...column,
+    cells: [...column.cells, { id: swimlaneCellId(column.id, laneId), title: lane.title, height: 1 }],
+  }));
+  const tasksByCell = { ...state.tasksByCell };
+  columns.forEach((column) => {
+    tasksByCell[swimlaneCellId(column.id, laneId)] = [];
+  });
+  return { ...state, swimlanes: [...state.swimlanes, lane], columns, tasksByCell };
+}
+
+// Moves a lane and the matching cell of every column together.
+export function moveSwimlane(state: BoardState, laneId: string, toIndex: number): BoardState {
+  const fromIndex = state.swimlanes?.findIndex((lane) => lane.id === laneId) ?? -1;
+  if (!state.swimlanes || fromIndex === -1 || toIndex < 0 || toIndex >= state.swimlanes.length) {
+    return state;
+  }
+  if (fromIndex === toIndex) {
+    return state;
+  }
+  return {
+    ...state,
+    swimlanes: arrayMove(state.swimlanes, fromIndex, toIndex),
+    columns: state.columns.map((column) => ({ ...column, cells: arrayMove(column.cells, fromIndex, toIndex) })),
+  };
+}
+
+// Sets the height weights of two neighbouring rows in every column.
+export function resizeSwimlanes(state: BoardState, cellId: string, heights: [number, number]): BoardState {
+  const index = state.columns
+    .map((column) => column.cells.findIndex((cell) => cell.id === cellId))
+    .find((cellIndex) => cellIndex !== -1);
+  if (index === undefined || !state.swimlanes || index + 1 >= state.swimlanes.length) {
+    return state;
+  }
+  return {
+    ...state,
+    columns: state.columns.map((column) => ({
+      ...column,
+      cells: column.cells.map((cell, cellIndex) =>
+        cellIndex === index || cellIndex === index + 1 ? { ...cell, height: heights[cellIndex - index] } : cell,
+      ),
+    })),
+  };
+}
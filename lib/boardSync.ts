@@ -0,0 +1,49 @@
+import { BoardPeer, BoardRecord, BoardState } from "@/types/board";
+import { BoardAction, boardReducer } from "@/lib/boardReducer";
+
+// Events streamed to every client connected to a board. Actions carry the version they produced
+// so clients can apply them in server order and notice when they have missed one.
+export type BoardEvent =
+  | { type: "action"; version: number; action: BoardAction; clientId?: string }
+  | { type: "replace"; record: BoardRecord; clientId?: string }
+  | { type: "rename"; name: string }
+  | { type: "delete" }
+  | { type: "presence"; peers: BoardPeer[] };
+
+// A local change that the server has not confirmed yet. Whole-board replacements (undo, import,
+// repair) are sent with the version they were based on; actions are ordered by the server.
+export type PendingOp = { kind: "action"; action: BoardAction } | { kind: "board"; board: BoardState };
+
+const isSameResize = (first: BoardAction, second: BoardAction) =>
+  (first.type === "RESIZE_COLUMNS" &&
+    second.type === "RESIZE_COLUMNS" &&
+    first.columnId === second.columnId) ||
+  (first.type === "RESIZE_CELLS" && second.type === "RESIZE_CELLS" && first.cellId === second.cellId);
+
+// Resizes carry absolute weights, so a queued resize of the same pair can be replaced outright.
+// `sentCount` ops at the head of the queue are already in flight and are never touched.
+export function enqueueOp(queue: PendingOp[], op: PendingOp, sentCount: number): PendingOp[] {
+  const last = queue[queue.length - 1];
+  if (
+    queue.length > sentCount &&
+    last?.kind === "action" &&
+    op.kind === "action" &&
+    isSameResize(last.action, op.action)
+  ) {
+    return [...queue.slice(0, -1), op];
+  }
+  return [...queue, op];
+}
+
+// Replays pending ops on top of a board from the server.
+export function replayOps(board: BoardState, queue: PendingOp[]): BoardState {
+  return queue.reduce(
+    (current, op) => (op.kind === "action" ? boardReducer(current, op.action) : op.board),
+    board,
+  );
+}
+
+// Applies a remote action to queued whole-board replacements so they don't undo it when sent.
+export function rebaseOps(queue: PendingOp[], action: BoardAction): PendingOp[] {
+  return queue.map((op) => (op.kind === "board" ? { ...op, board: boardReducer(op.board, action) } : op));
+}
@@ -0,0 +1,83 @@
+import { BoardState, Column } from "@/types/board";
+import { createId } from "@/lib/boardUtils";
+import { createTask } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+// Names and seed titles come from the message catalog, so a template is created in the language of
+// whoever creates the board.
+export type BoardTemplate = {
+  id: "workflow" | "blank";
+  create: (t: Messages) => BoardState;
+};
+
+export function createInitialBoard(t: Messages): BoardState {
+  const now = new Date().toISOString();
+  const seed = t.templates.seed;
+  const columnA: Column = {
+    id: createId(),
+    title: seed.ideas,
+    width: 1,
+    cells: [
+      { id: createId(), title: seed.ideaPool, height: 1 },
+      { id: createId(), title: seed.requirements, height: 1 },
+    ],
+  };
+
+  const columnB: Column = {
+    id: createId(),
+    title: seed.inProgress,
+    width: 1,
+    cells: [
+      { id: createId(), title: seed.design, height: 1 },
+      { id: createId(), title: seed.development, height: 1 },
+      { id: createId(), title: seed.review, height: 1 },
+    ],
+  };
+
+  const columnC: Column = {
+    id: createId(),
+    title: seed.launch,
+    width: 1,
+    cells: [
+      { id: createId(), title: seed.launchPrep, height: 1 },
+      { id: createId(), title: seed.done, height: 1 },
+    ],
+  };
+
+  const tasksByCell: BoardState["tasksByCell"] = {
+    [columnA.cells[0].id]: [
+      createTask(createId(), seed.marketResearch, now),
+      createTask(createId(), seed.userInterviews, now),
+    ],
+    [columnA.cells[1].id]: [createTask(createId(), seed.defineMvp, now)],
+    [columnB.cells[0].id]: [createTask(createId(), seed.iaDesign, now)],
+    [columnB.cells[1].id]: [
+      createTask(createId(), seed.frontend, now),
+      createTask(createId(), seed.backend, now),
+    ],
+    [columnB.cells[2].id]: [createTask(createId(), seed.qaPrep, now)],
+    [columnC.cells[0].id]: [
+      createTask(createId(), seed.runbook, now),
+      createTask(createId(), seed.announcement, now),
+    ],
+    [columnC.cells[1].id]: [createTask(createId(), seed.deployed, now)],
+  };
+
+  return {
+    columns: [columnA, columnB, columnC],
+    tasksByCell,
+  };
+}
+
+export function createBlankBoard(): BoardState {
+  return { columns: [], tasksByCell: {} };
+}
+
+export const BOARD_TEMPLATES: BoardTemplate[] = [
+  { id: "workflow", create: createInitialBoard },
+  { id: "blank", create: createBlankBoard },
+];
+
+export function findBoardTemplate(templateId: string): BoardTemplate {
+  return BOARD_TEMPLATES.find((template) => template.id === templateId) ?? BOARD_TEMPLATES[0];
+}
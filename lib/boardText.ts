@@ -0,0 +1,108 @@
+import { BoardState, Column } from "@/types/board";
+import { createTask } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+const CSV_HEADER = [
+  "column",
+  "cell",
+  "position",
+  "title",
+  "priority",
+  "dueDate",
+  "assignees",
+  "labels",
+  "completedAt",
+];
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per task, walking columns → cells → tasks in board order. Position is 1-based within the cell.
+export function exportTasksCsv(board: BoardState): string {
+  const rows = [CSV_HEADER];
+  board.columns.forEach((column) => {
+    column.cells.forEach((cell) => {
+      (board.tasksByCell[cell.id] ?? []).forEach((task, index) => {
+        rows.push([
+          column.title,
+          cell.title,
+          String(index + 1),
+          task.title,
+          task.priority ?? "",
+          task.dueDate ?? "",
+          (task.assignees ?? []).join("; "),
+          (task.labels ?? []).map((label) => label.name).join("; "),
+          task.completedAt ?? "",
+        ]);
+      });
+    });
+  });
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
+
+const singleLine = (value: string) => value.replace(/\s*\n\s*/g, " ").trim();
+
+export function exportBoardMarkdown(board: BoardState): string {
+  const sections = board.columns.map((column) => {
+    const cells = column.cells.map((cell) => {
+      const tasks = (board.tasksByCell[cell.id] ?? []).map((task) => `- [ ] ${singleLine(task.title)}`);
+      return [`### ${singleLine(cell.title)}`, ...(tasks.length > 0 ? ["", ...tasks] : [])].join("\n");
+    });
+    return [`## ${singleLine(column.title)}`, ...cells].join("\n\n");
+  });
+  return `${sections.join("\n\n")}\n`;
+}
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const TASK_PATTERN = /^\s*[-*+]\s+(?:\[[ xX]\]\s+)?(.+)$/;
+
+// Reads the outline produced by exportBoardMarkdown. A task before any `###` heading lands in
+// a default cell, and a cell before any `##` heading in a default column.
+export function parseBoardMarkdown(
+  text: string,
+  createId: () => string,
+  now: string,
+  t: Messages,
+): BoardState {
+  const { untitledColumn, untitledCell } = t.defaults;
+  const columns: Column[] = [];
+  const tasksByCell: BoardState["tasksByCell"] = {};
+
+  const currentColumn = () => {
+    if (columns.length === 0) {
+      columns.push({ id: createId(), title: untitledColumn, width: 1, cells: [] });
+    }
+    return columns[columns.length - 1];
+  };
+
+  const addCell = (title: string) => {
+    const cell = { id: createId(), title, height: 1 };
+    currentColumn().cells.push(cell);
+    tasksByCell[cell.id] = [];
+    return cell;
+  };
+
+  let currentCellId: string | null = null;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const heading = HEADING_PATTERN.exec(line.trim());
+    if (heading) {
+      const [, hashes, title] = heading;
+      if (hashes.length === 2) {
+        columns.push({ id: createId(), title: title.trim() || untitledColumn, width: 1, cells: [] });
+        currentCellId = null;
+      } else if (hashes.length === 3) {
+        currentCellId = addCell(title.trim() || untitledCell).id;
+      }
+      return;
+    }
+
+    const task = TASK_PATTERN.exec(line);
+    if (task) {
+      const cellId = currentCellId ?? addCell(untitledCell).id;
+      currentCellId = cellId;
+      tasksByCell[cellId].push(createTask(createId(), task[1].trim(), now));
+    }
+  });
+
+  return { columns, tasksByCell };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseBoardJson } from "@/lib/boardTransfer";
+import { DEFAULT_MESSAGES } from "@/lib/i18n";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+let nextId = 0;
+const createId = () => `id-${(nextId += 1)}`;
+
+const exported = (task: Record<string, unknown>) =>
+  JSON.stringify({
+    format: "advanced-kanban/board",
+    version: 3,
+    board: {
+      columns: [{ id: "todo", title: "Todo", width: 1, cells: [{ id: "a", title: "A", height: 1 }] }],
+      tasksByCell: { a: [{ id: "t1", title: "Task", createdAt: NOW, updatedAt: NOW, ...task }] },
+    },
+  });
+
+describe("parseBoardJson", () => {
+  it("imports a valid board without repairs", () => {
+    const result = parseBoardJson(exported({ labels: [] }), createId, DEFAULT_MESSAGES);
+    expect(result.ok && result.repairedIssues).toBe(0);
+  });
+
+  it("drops task fields of the wrong type and counts them as repairs", () => {
+    const result = parseBoardJson(
+      exported({ labels: "x", assignees: 3, priority: "high" }),
+      createId,
+      DEFAULT_MESSAGES,
+    );
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+    const [task] = Object.values(result.board.tasksByCell)[0];
+    expect(result.repairedIssues).toBe(2);
+    expect(task.labels).toBeUndefined();
+    expect(task.assignees).toBeUndefined();
+    expect(task.priority).toBe("high");
+  });
+});
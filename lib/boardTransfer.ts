@@ -0,0 +1,233 @@
+import { BoardState, Cell, Column, Task } from "@/types/board";
+import { BOARD_SCHEMA_VERSION, isRecord, toEnvelope, upgradeBoard } from "@/lib/boardStorage";
+import { repairBoard, validateBoard } from "@/lib/boardValidation";
+import { MAX_TASK_EVENTS } from "@/lib/boardReducer";
+import { isTaskEvent, mapTaskEventIds } from "@/lib/taskHistory";
+import { isArchivedTask } from "@/lib/boardTrash";
+import { isAutomationRule } from "@/lib/boardAutomation";
+import { fitBoardToSwimlanes } from "@/lib/boardSwimlanes";
+import { withValidAppearance } from "@/lib/boardColors";
+import { findInvalidTaskFields } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+/**
+ * Exported boards are JSON documents of the form
+ *
+ *   { "format": "advanced-kanban/board", "version": 3, "exportedAt": ISO date, "board": BoardState }
+ *
+ * where `version` is the storage schema version, so files from older releases are
+ * upgraded through the same migrations as localStorage snapshots. The trash is left out of
+ * imports; archived tasks come along.
+ */
+export const BOARD_EXPORT_FORMAT = "advanced-kanban/board";
+
+export type BoardExport = {
+  format: typeof BOARD_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: BoardState;
+};
+
+export type BoardImportResult =
+  | { ok: true; board: BoardState; repairedIssues: number }
+  | { ok: false; error: string };
+
+export type BoardImportMode = "replace" | "merge";
+
+export function exportBoardJson(board: BoardState): string {
+  const payload: BoardExport = {
+    format: BOARD_EXPORT_FORMAT,
+    version: BOARD_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    board,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+const stringOr = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+
+// JSON turns NaN into null, so non-numeric weights come back as NaN and are fixed by repairBoard.
+const numberOrNaN = (value: unknown) => (typeof value === "number" ? value : Number.NaN);
+
+// Also counts the task fields it had to drop, which the import reports as repairs.
+function coerceBoard(
+  value: unknown,
+  createId: () => string,
+  t: Messages,
+): { board: BoardState; droppedFields: number } | null {
+  if (!isRecord(value) || !Array.isArray(value.columns)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  let droppedFields = 0;
+  // Optional fields holding the wrong kind of value are dropped, since the board can't show them.
+  const coerceTask = (record: Record<string, unknown>): Task => {
+    const createdAt = stringOr(record.createdAt, now);
+    const task: Record<string, unknown> = {
+      ...record,
+      id: stringOr(record.id, createId()),
+      title: record.title,
+      createdAt,
+      updatedAt: stringOr(record.updatedAt, createdAt),
+    };
+    findInvalidTaskFields(task).forEach((field) => {
+      delete task[field];
+      droppedFields += 1;
+    });
+    return task as Task;
+  };
+  const columns: Column[] = value.columns.filter(isRecord).map((column) =>
+    withValidAppearance<Column>({
+      ...column,
+      id: stringOr(column.id, createId()),
+      title: stringOr(column.title, t.defaults.untitledColumn),
+      width: numberOrNaN(column.width),
+      cells: (Array.isArray(column.cells) ? column.cells : []).filter(isRecord).map((cell) =>
+        withValidAppearance<Cell>({
+          ...cell,
+          id: stringOr(cell.id, createId()),
+          title: stringOr(cell.title, t.defaults.untitledCell),
+          height: numberOrNaN(cell.height),
+        }),
+      ),
+    }),
+  );
+
+  const rawTasks = isRecord(value.tasksByCell) ? value.tasksByCell : {};
+  const tasksByCell: BoardState["tasksByCell"] = {};
+  Object.entries(rawTasks).forEach(([cellId, tasks]) => {
+    if (!Array.isArray(tasks)) {
+      return;
+    }
+    tasksByCell[cellId] = tasks
+      .filter((task) => isRecord(task) && typeof task.title === "string")
+      .map((task) => coerceTask(task as Record<string, unknown>));
+  });
+
+  const board: BoardState = { columns, tasksByCell };
+  if (value.wipPolicy === "block" || value.wipPolicy === "warn") {
+    board.wipPolicy = value.wipPolicy;
+  }
+  if (Array.isArray(value.taskEvents)) {
+    board.taskEvents = value.taskEvents.filter(isTaskEvent);
+  }
+  if (Array.isArray(value.archive)) {
+    board.archive = value.archive
+      .filter(isArchivedTask)
+      .map((item) => ({ ...item, task: coerceTask(item.task) }));
+  }
+  if (Array.isArray(value.automations)) {
+    board.automations = value.automations.filter(isAutomationRule);
+  }
+  if (Array.isArray(value.swimlanes)) {
+    const swimlanes = value.swimlanes
+      .filter((lane) => isRecord(lane) && typeof lane.id === "string")
+      .map((lane) => ({
+        id: lane.id,
+        title: stringOr(lane.title, t.defaults.lane),
+        ...(lane.collapsed === true ? { collapsed: true } : {}),
+      }));
+    if (swimlanes.length > 0) {
+      board.swimlanes = swimlanes;
+    }
+  }
+  return { board, droppedFields };
+}
+
+// Gives every column, cell, task and label a fresh ID so an import never collides with the current board.
+export function remapBoardIds(board: BoardState, createId: () => string): BoardState {
+  // Cell and task ids go through one table so the event log keeps pointing at the same items.
+  const idMap = new Map<string, string>();
+  const remap = (id: string) => {
+    const nextId = idMap.get(id) ?? createId();
+    idMap.set(id, nextId);
+    return nextId;
+  };
+
+  const tasksByCell: BoardState["tasksByCell"] = {};
+  const columns = board.columns.map((column) => ({
+    ...column,
+    id: createId(),
+    cells: column.cells.map((cell) => {
+      const id = remap(cell.id);
+      tasksByCell[id] = (board.tasksByCell[cell.id] ?? []).map((task) => ({
+        ...task,
+        id: remap(task.id),
+        labels: task.labels?.map((label) => ({ ...label, id: createId() })),
+      }));
+      return { ...cell, id };
+    }),
+  }));
+  const remapped: BoardState = { ...board, columns, tasksByCell };
+  delete remapped.trash;
+  if (board.taskEvents) {
+    remapped.taskEvents = board.taskEvents.map((event) => mapTaskEventIds(event, remap));
+  }
+  if (board.archive) {
+    remapped.archive = board.archive.map((item) => ({
+      ...item,
+      cellId: remap(item.cellId),
+      task: { ...item.task, id: remap(item.task.id) },
+    }));
+  }
+  if (board.automations) {
+    remapped.automations = board.automations.map((rule) => ({
+      ...rule,
+      id: createId(),
+      trigger: { ...rule.trigger, cellId: remap(rule.trigger.cellId) },
+    }));
+  }
+  return remapped;
+}
+
+export function parseBoardJson(raw: string, createId: () => string, t: Messages): BoardImportResult {
+  const { errors } = t.transfer;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: errors.invalidJson };
+  }
+
+  if (isRecord(parsed) && "format" in parsed && parsed.format !== BOARD_EXPORT_FORMAT) {
+    return { ok: false, error: errors.unsupportedFormat(String(parsed.format)) };
+  }
+
+  const envelope = toEnvelope(parsed);
+  if (!envelope) {
+    return { ok: false, error: errors.missingBoard };
+  }
+  if (envelope.version > BOARD_SCHEMA_VERSION) {
+    return { ok: false, error: errors.newerVersion(envelope.version) };
+  }
+
+  const coerced = coerceBoard(upgradeBoard(envelope), createId, t);
+  if (!coerced) {
+    return { ok: false, error: errors.unrecognized };
+  }
+
+  const { board } = coerced;
+  const issues = validateBoard(board, t).length;
+  const repaired = issues > 0 ? repairBoard(board, createId) : board;
+  const repairedIssues = issues + coerced.droppedFields;
+  return { ok: true, board: remapBoardIds(repaired, createId), repairedIssues };
+}
+
+export function importBoard(current: BoardState, imported: BoardState, mode: BoardImportMode): BoardState {
+  if (mode === "replace") {
+    return imported;
+  }
+  const taskEvents = [...(current.taskEvents ?? []), ...(imported.taskEvents ?? [])];
+  const archive = [...(current.archive ?? []), ...(imported.archive ?? [])];
+  const automations = [...(current.automations ?? []), ...(imported.automations ?? [])];
+  // Imported columns take on the current board's lanes, if it has any.
+  return fitBoardToSwimlanes({
+    ...current,
+    columns: [...current.columns, ...imported.columns],
+    tasksByCell: { ...current.tasksByCell, ...imported.tasksByCell },
+    ...(taskEvents.length > 0 ? { taskEvents: taskEvents.slice(-MAX_TASK_EVENTS) } : {}),
+    ...(archive.length > 0 ? { archive } : {}),
+    ...(automations.length > 0 ? { automations } : {}),
+  });
+}
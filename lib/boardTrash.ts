@@ -0,0 +1,89 @@
+import { ArchivedTask, BoardState, TrashEntry } from "@/types/board";
+import { isRecord } from "@/lib/boardStorage";
+import { hasCell } from "@/lib/boardReducer";
+import { Messages } from "@/lib/i18n";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The cutoff for PURGE_EXPIRED_TRASH: entries deleted before it have outlived the retention period.
+export const getTrashPurgeCutoff = (now: number) =>
+  new Date(now - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+
+export function getDaysUntilPurge(entry: TrashEntry, now: number): number {
+  const deletedAt = Date.parse(entry.deletedAt);
+  if (Number.isNaN(deletedAt)) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((deletedAt + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS));
+}
+
+const getEntryTitle = (entry: TrashEntry) => {
+  switch (entry.kind) {
+    case "column":
+      return entry.column.title;
+    case "cell":
+      return entry.cell.title;
+    case "task":
+      return entry.task.title;
+    case "swimlane":
+      return entry.lane.title;
+  }
+};
+
+export const describeTrashEntry = (entry: TrashEntry, t: Messages) =>
+  t.items.named(t.items[entry.kind], getEntryTitle(entry));
+
+export function countTrashedTasks(entry: TrashEntry): number {
+  switch (entry.kind) {
+    case "column":
+      return Object.values(entry.tasksByCell).reduce((total, tasks) => total + tasks.length, 0);
+    case "cell":
+      return entry.tasks.length;
+    case "task":
+      return 1;
+    case "swimlane":
+      return entry.cells.reduce((total, item) => total + item.tasks.length, 0);
+  }
+}
+
+const hasColumn = (state: BoardState, columnId: string) =>
+  state.columns.some((column) => column.id === columnId);
+
+// Whether an entry can go back where it came from; otherwise the user has to pick a new place.
+// Columns always can, since they go back into the board itself.
+export function canRestoreInPlace(state: BoardState, entry: TrashEntry | ArchivedTask): boolean {
+  if (!("kind" in entry)) {
+    return hasCell(state, entry.cellId);
+  }
+  switch (entry.kind) {
+    case "column":
+    case "swimlane":
+      return true;
+    case "cell":
+      return hasColumn(state, entry.columnId);
+    case "task":
+      return hasCell(state, entry.cellId);
+  }
+}
+
+// Lanes only exist in swimlane mode, and a lone cell can't be put back while it is on.
+export const isRestoreBlocked = (state: BoardState, entry: TrashEntry) =>
+  entry.kind === "swimlane" ? !state.swimlanes : entry.kind === "cell" && Boolean(state.swimlanes);
+
+export const isArchivedTask = (value: unknown): value is ArchivedTask =>
+  isRecord(value) &&
+  typeof value.cellId === "string" &&
+  typeof value.archivedAt === "string" &&
+  isRecord(value.task) &&
+  typeof value.task.id === "string" &&
+  typeof value.task.title === "string";
+
+// Tasks in the last column are treated as done, as in the flow metrics.
+export function getCompletedTaskIds(state: BoardState): string[] {
+  const doneColumn = state.columns.length > 1 ? state.columns[state.columns.length - 1] : undefined;
+  return (doneColumn?.cells ?? []).flatMap((cell) =>
+    (state.tasksByCell[cell.id] ?? []).map((task) => task.id),
+  );
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { arrayMove } from "@/lib/boardUtils";
+
+describe("arrayMove", () => {
+  it("moves an item and clamps the target index", () => {
+    expect(arrayMove(["a", "b", "c"], 0, 2)).toEqual(["b", "c", "a"]);
+    expect(arrayMove(["a", "b", "c"], 2, -1)).toEqual(["c", "a", "b"]);
+    expect(arrayMove(["a", "b", "c"], 0, 10)).toEqual(["b", "c", "a"]);
+  });
+
+  it("returns the same array when the source index is out of range", () => {
+    const items = ["a", "b"];
+    expect(arrayMove(items, 5, 0)).toBe(items);
+  });
+});
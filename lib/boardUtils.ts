@@ -1,3 +1,10 @@
+import { Quadrant } from "@/types/board";
+
+export const createId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2, 10);
+
 export function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
@@ -12,3 +19,50 @@ export function arrayMove<T>(items: T[], from: number, to: number): T[] {
   next.splice(boundedIndex, 0, moved);
   return next;
 }
+
+type RectLike = Pick<DOMRectReadOnly, "left" | "top" | "width" | "height">;
+
+export function isPointInRect(rect: RectLike, x: number, y: number): boolean {
+  return x >= rect.left && x <= rect.left + rect.width && y >= rect.top && y <= rect.top + rect.height;
+}
+
+// Picks the edge closest to the point, which splits the rect along its diagonals.
+export function getQuadrant(rect: RectLike, x: number, y: number): Quadrant {
+  const relX = rect.width > 0 ? clamp((x - rect.left) / rect.width, 0, 1) : 0.5;
+  const relY = rect.height > 0 ? clamp((y - rect.top) / rect.height, 0, 1) : 0.5;
+  const distances: Array<[Quadrant, number]> = [
+    ["top", relY],
+    ["bottom", 1 - relY],
+    ["left", relX],
+    ["right", 1 - relX],
+  ];
+  return distances.reduce((closest, entry) => (entry[1] < closest[1] ? entry : closest))[0];
+}
+
+// Moves the boundary between two neighbours by deltaPx and splits their combined weight
+// accordingly, keeping each side at least minPx wide (or tall).
+export function resizePairWeights(
+  firstPx: number,
+  totalPx: number,
+  totalWeight: number,
+  deltaPx: number,
+  minPx: number,
+): [number, number] {
+  const boundedMinPx = Math.min(minPx, totalPx / 2);
+  const nextFirstPx = clamp(firstPx + deltaPx, boundedMinPx, totalPx - boundedMinPx);
+  const firstWeight = totalWeight * (nextFirstPx / totalPx);
+  return [firstWeight, totalWeight - firstWeight];
+}
+
+// Converts per-column width weights into pixel widths that fill the available space.
+export function distributeWidths(
+  weights: number[],
+  availablePx: number,
+  minPx: number,
+): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (availablePx <= 0 || totalWeight <= 0) {
+    return weights.map(() => minPx);
+  }
+  return weights.map((weight) => Math.max(minPx, (availablePx * weight) / totalWeight));
+}
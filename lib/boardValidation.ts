@@ -0,0 +1,187 @@
+import { BoardState, Cell, Column, Task } from "@/types/board";
+import { isValidWipLimit } from "@/lib/boardWip";
+import { fitBoardToSwimlanes } from "@/lib/boardSwimlanes";
+import { Messages } from "@/lib/i18n";
+
+export type BoardIssueKind =
+  | "orphanedTasks"
+  | "missingTaskList"
+  | "invalidHeight"
+  | "invalidWidth"
+  | "duplicateId"
+  | "emptyColumn"
+  | "invalidWipLimit"
+  | "swimlaneMismatch";
+
+export type BoardIssue = {
+  kind: BoardIssueKind;
+  severity: "error" | "warning";
+  id: string;
+  message: string;
+};
+
+const isValidWeight = (value: number) => Number.isFinite(value) && value > 0;
+
+const hasInvalidWipLimit = <T extends Cell | Column>(item: T): item is T & { wipLimit: number } =>
+  item.wipLimit !== undefined && !isValidWipLimit(item.wipLimit);
+
+// Drops a limit that is not a positive integer rather than guessing what was meant.
+const withoutInvalidWipLimit = <T extends Cell | Column>(item: T): T => {
+  if (!hasInvalidWipLimit(item)) {
+    return item;
+  }
+  const next: T = { ...item };
+  delete next.wipLimit;
+  return next;
+};
+
+export function validateBoard(state: BoardState, t: Messages): BoardIssue[] {
+  const { health } = t;
+  const issues: BoardIssue[] = [];
+  const seenIds = new Set<string>();
+  const cellIds = new Set<string>();
+
+  const trackId = (id: string, kind: string) => {
+    if (seenIds.has(id)) {
+      issues.push({ kind: "duplicateId", severity: "error", id, message: health.duplicateId(kind, id) });
+    }
+    seenIds.add(id);
+  };
+
+  state.columns.forEach((column) => {
+    trackId(column.id, t.items.column);
+    if (!isValidWeight(column.width)) {
+      issues.push({
+        kind: "invalidWidth",
+        severity: "error",
+        id: column.id,
+        message: health.invalidWidth(column.title, column.width),
+      });
+    }
+    if (hasInvalidWipLimit(column)) {
+      issues.push({
+        kind: "invalidWipLimit",
+        severity: "warning",
+        id: column.id,
+        message: health.invalidColumnWipLimit(column.title, column.wipLimit),
+      });
+    }
+    if (column.cells.length === 0) {
+      issues.push({
+        kind: "emptyColumn",
+        severity: "warning",
+        id: column.id,
+        message: health.emptyColumn(column.title),
+      });
+    }
+
+    column.cells.forEach((cell) => {
+      trackId(cell.id, t.items.cell);
+      cellIds.add(cell.id);
+      if (!isValidWeight(cell.height)) {
+        issues.push({
+          kind: "invalidHeight",
+          severity: "error",
+          id: cell.id,
+          message: health.invalidHeight(cell.title, cell.height),
+        });
+      }
+      if (hasInvalidWipLimit(cell)) {
+        issues.push({
+          kind: "invalidWipLimit",
+          severity: "warning",
+          id: cell.id,
+          message: health.invalidCellWipLimit(cell.title, cell.wipLimit),
+        });
+      }
+      if (!state.tasksByCell[cell.id]) {
+        issues.push({
+          kind: "missingTaskList",
+          severity: "warning",
+          id: cell.id,
+          message: health.missingTaskList(cell.title),
+        });
+      }
+    });
+  });
+
+  Object.entries(state.tasksByCell).forEach(([cellId, tasks]) => {
+    if (!cellIds.has(cellId)) {
+      issues.push({
+        kind: "orphanedTasks",
+        severity: tasks.length > 0 ? "error" : "warning",
+        id: cellId,
+        message: health.orphanedTasks(cellId, tasks.length),
+      });
+    }
+    tasks.forEach((task) => trackId(task.id, t.items.task));
+  });
+
+  if (state.swimlanes) {
+    const lanes = state.swimlanes;
+    state.columns
+      .filter(
+        (column) =>
+          column.cells.length !== lanes.length ||
+          column.cells.some((cell, index) => cell.height !== state.columns[0].cells[index]?.height),
+      )
+      .forEach((column) => {
+        issues.push({
+          kind: "swimlaneMismatch",
+          severity: "warning",
+          id: column.id,
+          message: health.swimlaneMismatch(column.title, lanes.length),
+        });
+      });
+  }
+
+  return issues;
+}
+
+// Normalises a board so validateBoard reports no issues. Tasks left under unknown
+// cells are moved into the first cell rather than dropped.
+export function repairBoard(state: BoardState, createId: () => string): BoardState {
+  const seenIds = new Set<string>();
+  const uniqueId = (id: string) => {
+    const nextId = seenIds.has(id) ? createId() : id;
+    seenIds.add(nextId);
+    return nextId;
+  };
+
+  const tasksByCell: BoardState["tasksByCell"] = {};
+  const columns: Column[] = [];
+  state.columns.forEach((column) => {
+    if (column.cells.length === 0) {
+      return;
+    }
+    const cells = column.cells.map((cell) => {
+      const id = uniqueId(cell.id);
+      // A renamed duplicate must not inherit the task list of the cell it collided with.
+      tasksByCell[id] = id === cell.id ? [...(state.tasksByCell[cell.id] ?? [])] : [];
+      return { ...withoutInvalidWipLimit(cell), id, height: isValidWeight(cell.height) ? cell.height : 1 };
+    });
+    columns.push({
+      ...withoutInvalidWipLimit(column),
+      id: uniqueId(column.id),
+      width: isValidWeight(column.width) ? column.width : 1,
+      cells,
+    });
+  });
+
+  const firstCellId = columns[0]?.cells[0]?.id;
+  const orphanedTasks: Task[] = Object.entries(state.tasksByCell)
+    .filter(([cellId]) => !(cellId in tasksByCell))
+    .flatMap(([, tasks]) => tasks);
+  if (firstCellId && orphanedTasks.length > 0) {
+    tasksByCell[firstCellId] = [...tasksByCell[firstCellId], ...orphanedTasks];
+  }
+
+  Object.keys(tasksByCell).forEach((cellId) => {
+    tasksByCell[cellId] = tasksByCell[cellId].map((task) => {
+      const id = uniqueId(task.id);
+      return id === task.id ? task : { ...task, id };
+    });
+  });
+
+  return fitBoardToSwimlanes({ ...state, columns, tasksByCell });
+}
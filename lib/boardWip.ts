@@ -0,0 +1,72 @@
+import { BoardState, Column, WipPolicy } from "@/types/board";
+import { DEFAULT_WIP_POLICY } from "@/lib/boardReducer";
+import { Messages } from "@/lib/i18n";
+
+export type WipViolation = {
+  scope: "cell" | "column";
+  title: string;
+  limit: number;
+  // The task count the destination would reach after the move.
+  count: number;
+};
+
+export const getWipPolicy = (state: BoardState): WipPolicy => state.wipPolicy ?? DEFAULT_WIP_POLICY;
+
+export const isValidWipLimit = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+// Reads a limit typed by the user: blank clears it, anything else must be a positive integer.
+export function parseWipLimitInput(raw: string): number | null | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const limit = Number(trimmed);
+  return isValidWipLimit(limit) ? limit : undefined;
+}
+
+export const countColumnTasks = (state: BoardState, column: Column) =>
+  column.cells.reduce((total, cell) => total + (state.tasksByCell[cell.id]?.length ?? 0), 0);
+
+// Checks whether one more task arriving in the destination cell, from sourceCellId or from
+// nowhere for a new task, would go past the cell's or its column's limit. Moves within the same
+// cell or column never add to that cell's or column's count.
+export const findWipViolation = (state: BoardState, destinationCellId: string, sourceCellId?: string) =>
+  findBulkWipViolation(state, destinationCellId, [sourceCellId]);
+
+// The same check for several tasks arriving at once, each from the cell at its place in
+// sourceCellIds.
+export function findBulkWipViolation(
+  state: BoardState,
+  destinationCellId: string,
+  sourceCellIds: (string | undefined)[],
+): WipViolation | null {
+  const cellArrivals = sourceCellIds.filter((cellId) => cellId !== destinationCellId).length;
+  if (cellArrivals === 0) {
+    return null;
+  }
+  const column = state.columns.find((item) => item.cells.some((cell) => cell.id === destinationCellId));
+  const cell = column?.cells.find((item) => item.id === destinationCellId);
+  if (!column || !cell) {
+    return null;
+  }
+
+  const cellCount = (state.tasksByCell[cell.id]?.length ?? 0) + cellArrivals;
+  if (cell.wipLimit !== undefined && cellCount > cell.wipLimit) {
+    return { scope: "cell", title: cell.title, limit: cell.wipLimit, count: cellCount };
+  }
+
+  const columnArrivals = sourceCellIds.filter(
+    (cellId) => cellId === undefined || !column.cells.some((item) => item.id === cellId),
+  ).length;
+  const columnCount = countColumnTasks(state, column) + columnArrivals;
+  if (columnArrivals > 0 && column.wipLimit !== undefined && columnCount > column.wipLimit) {
+    return { scope: "column", title: column.title, limit: column.wipLimit, count: columnCount };
+  }
+  return null;
+}
+
+export function describeWipViolation(violation: WipViolation, t: Messages) {
+  const target = t.items.named(t.items[violation.scope], violation.title);
+  return t.wip.violation(target, violation.limit, violation.count);
+}
@@ -0,0 +1,92 @@
+import { DraggableStyle } from "@hello-pangea/dnd";
+import { clamp } from "@/lib/boardUtils";
+import { isRecord } from "@/lib/boardStorage";
+
+export const BOARD_ZOOM_STORAGE_KEY = "advanced-kanban:board-zoom";
+export const BOARD_ZOOM_LEVELS = [0.5, 0.67, 0.8, 0.9, 1, 1.1, 1.25, 1.5];
+export const MIN_BOARD_ZOOM = BOARD_ZOOM_LEVELS[0];
+export const MAX_BOARD_ZOOM = BOARD_ZOOM_LEVELS[BOARD_ZOOM_LEVELS.length - 1];
+
+// A fixed scale, or "fit" to scale the board down until every column fits the screen's width.
+export type BoardZoom = number | "fit";
+
+const isBoardZoom = (value: unknown): value is BoardZoom =>
+  value === "fit" || (typeof value === "number" && value >= MIN_BOARD_ZOOM && value <= MAX_BOARD_ZOOM);
+
+// Zoom is a per-browser view setting, stored per board and never synced.
+function loadZoomSettings(): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(BOARD_ZOOM_STORAGE_KEY) ?? "{}");
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadBoardZoom(boardId: string): BoardZoom {
+  const zoom = loadZoomSettings()[boardId];
+  return isBoardZoom(zoom) ? zoom : 1;
+}
+
+export function storeBoardZoom(boardId: string, zoom: BoardZoom) {
+  const settings = loadZoomSettings();
+  if (zoom === 1) {
+    delete settings[boardId];
+  } else {
+    settings[boardId] = zoom;
+  }
+  try {
+    window.localStorage.setItem(BOARD_ZOOM_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Without storage the zoom lasts until reload.
+  }
+}
+
+// The next preset level above or below the current scale.
+export function stepBoardZoom(zoom: number, direction: 1 | -1): number {
+  const next =
+    direction > 0
+      ? BOARD_ZOOM_LEVELS.find((level) => level > zoom + 0.001)
+      : [...BOARD_ZOOM_LEVELS].reverse().find((level) => level < zoom - 0.001);
+  return next ?? zoom;
+}
+
+// The scale that fits a board of naturalWidthPx into availablePx; boards never grow past 100%.
+export function getFitZoom(naturalWidthPx: number, availablePx: number): number {
+  if (naturalWidthPx <= 0 || availablePx <= 0) {
+    return 1;
+  }
+  return clamp(availablePx / naturalWidthPx, MIN_BOARD_ZOOM, 1);
+}
+
+const scaleTranslate = (transform: string | undefined, zoom: number) =>
+  transform?.replace(
+    /translate\((-?[\d.]+)px, (-?[\d.]+)px\)/,
+    (_, x: string, y: string) => `translate(${Number(x) / zoom}px, ${Number(y) / zoom}px)`,
+  );
+
+/**
+ * The drag library positions items in screen pixels, but inside a zoomed board every length is
+ * multiplied by the zoom again. Dividing the offsets and the fixed position of the dragged item
+ * by the zoom keeps it under the pointer.
+ */
+export function unzoomDraggableStyle(
+  style: DraggableStyle | undefined,
+  zoom: number,
+): DraggableStyle | undefined {
+  if (!style || zoom === 1) {
+    return style;
+  }
+  const transform = scaleTranslate(style.transform, zoom);
+  if (!("position" in style)) {
+    return { ...style, transform };
+  }
+  return {
+    ...style,
+    transform,
+    top: style.top / zoom,
+    left: style.left / zoom,
+    width: style.width / zoom,
+    height: style.height / zoom,
+  };
+}
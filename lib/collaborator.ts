@@ -0,0 +1,42 @@
+import { isRecord } from "@/lib/boardStorage";
+import { LABEL_COLORS } from "@/lib/taskUtils";
+import { Messages } from "@/lib/i18n";
+
+export const COLLABORATOR_STORAGE_KEY = "advanced-kanban:collaborator";
+
+// How this browser appears to other people on a board. There are no accounts, so the name is
+// picked at random the first time and can be changed from the board header.
+export type Collaborator = {
+  name: string;
+  color: string;
+};
+
+const PEER_COLORS = LABEL_COLORS.filter((color) => color !== "gray");
+
+const randomItem = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+function createCollaborator(t: Messages): Collaborator {
+  return { name: t.defaults.guest(Math.floor(1000 + Math.random() * 9000)), color: randomItem(PEER_COLORS) };
+}
+
+export function loadCollaborator(t: Messages): Collaborator {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(COLLABORATOR_STORAGE_KEY) ?? "null");
+    if (isRecord(parsed) && typeof parsed.name === "string" && typeof parsed.color === "string") {
+      return { name: parsed.name, color: parsed.color };
+    }
+  } catch {
+    // Fall through to a fresh identity.
+  }
+  const collaborator = createCollaborator(t);
+  saveCollaborator(collaborator);
+  return collaborator;
+}
+
+export function saveCollaborator(collaborator: Collaborator) {
+  try {
+    window.localStorage.setItem(COLLABORATOR_STORAGE_KEY, JSON.stringify(collaborator));
+  } catch {
+    // Without storage the identity only lasts for this page.
+  }
+}
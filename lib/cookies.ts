@@ -0,0 +1,6 @@
+// Preferences are kept for a year and sent with every page request, so the server can render them.
+const PREFERENCE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export function writePreferenceCookie(name: string, value: string) {
+  document.cookie = `${name}=${value}; path=/; max-age=${PREFERENCE_COOKIE_MAX_AGE}; samesite=lax`;
+}
@@ -0,0 +1,15 @@
+export function downloadTextFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function timestampedFileName(prefix: string, extension: string, date: Date = new Date()) {
+  const stamp = date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `${prefix}-${stamp}.${extension}`;
+}
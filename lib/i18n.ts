@@ -0,0 +1,47 @@
+import { Messages, ko } from "@/lib/messages/ko";
+import { en } from "@/lib/messages/en";
+import { writePreferenceCookie } from "@/lib/cookies";
+
+export type { Messages };
+
+export type Locale = "ko" | "en";
+
+export const LOCALES: Locale[] = ["ko", "en"];
+export const DEFAULT_LOCALE: Locale = "ko";
+
+// A cookie rather than localStorage so the server can render <html lang> and the first paint in
+// the chosen language.
+export const LOCALE_COOKIE = "advanced-kanban-locale";
+
+// Each language is listed under its own name, whatever the current locale is.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ko: "한국어",
+  en: "English",
+};
+
+const CATALOGS: Record<Locale, Messages> = { ko, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale === value);
+
+export const getMessages = (locale: Locale): Messages => CATALOGS[locale];
+
+// For text produced where no locale is known, such as titles filled in by the reducer.
+export const DEFAULT_MESSAGES = getMessages(DEFAULT_LOCALE);
+
+// The first supported language in an Accept-Language header, ignoring region subtags.
+export function matchLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return { language: tag.split("-")[0].toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranked.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+export function storeLocale(locale: Locale) {
+  writePreferenceCookie(LOCALE_COOKIE, locale);
+}
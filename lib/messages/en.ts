@@ -0,0 +1,517 @@
+import type { Messages } from "@/lib/messages/ko";
+
+const plural = (count: number, one: string, other = `${one}s`) => `${count} ${count === 1 ? one : other}`;
+
+export const en: Messages = {
+  app: {
+    description: "An advanced kanban board with quadrant drops and resizable columns and cells",
+    language: "Language",
+  },
+  theme: {
+    label: "Theme",
+    options: {
+      light: "Light",
+      dark: "Dark",
+      system: "System",
+    },
+  },
+  common: {
+    add: "Add",
+    cancel: "Cancel",
+    delete: "Delete",
+    restore: "Restore",
+    save: "Save",
+    dismiss: "Dismiss",
+    deletedCell: "Deleted cell",
+  },
+  defaults: {
+    boardName: "Work board",
+    boardCopy: (name) => `${name} copy`,
+    untitledColumn: "Untitled column",
+    untitledCell: "Untitled cell",
+    newColumn: (position) => `New column ${position}`,
+    newCell: "New cell",
+    newTask: "New task",
+    lane: "Lane",
+    newLane: (position) => `Lane ${position}`,
+    newRule: "New rule",
+    guest: (number) => `Guest ${number}`,
+    anonymous: "Anonymous",
+  },
+  templates: {
+    workflow: { name: "Basic workflow", description: "Ideas / In progress / Launch" },
+    blank: { name: "Blank board", description: "Start without columns" },
+    seed: {
+      ideas: "Ideas",
+      ideaPool: "Idea pool",
+      requirements: "Requirements",
+      inProgress: "In progress",
+      design: "Design",
+      development: "Development",
+      review: "Review",
+      launch: "Launch",
+      launchPrep: "Launch prep",
+      done: "Done",
+      marketResearch: "Market research",
+      userInterviews: "User interviews",
+      defineMvp: "Define the MVP",
+      iaDesign: "Information architecture",
+      frontend: "Frontend",
+      backend: "Backend",
+      qaPrep: "QA prep",
+      runbook: "Write the runbook",
+      announcement: "Launch announcement",
+      deployed: "Deployed",
+    },
+  },
+  priority: {
+    low: "Low",
+    medium: "Medium",
+    high: "High",
+    urgent: "Urgent",
+  },
+  duration: {
+    minutes: (minutes) => `${minutes}m`,
+    hours: (hours, minutes) => (minutes ? `${hours}h ${minutes}m` : `${hours}h`),
+    days: (days, hours) => (hours ? `${days}d ${hours}h` : `${days}d`),
+  },
+  library: {
+    heading: "Boards",
+    newBoardName: "New board name",
+    template: "Template",
+    create: "Create board",
+    empty: "No boards yet. Pick a template to create your first board.",
+    boardName: "Board name",
+    createdAt: (date) => `Created ${date}`,
+    open: "Open",
+    duplicate: "Duplicate board",
+    delete: "Delete board",
+    confirmDelete: (name) => `Delete the board "${name}"? This can't be undone.`,
+    errors: {
+      load: "Couldn't load the boards.",
+      upload:
+        "Couldn't move the boards saved in this browser to the server. They will be tried again next time.",
+      create: "Couldn't create the board.",
+      rename: "Couldn't rename the board.",
+      duplicate: "Couldn't duplicate the board.",
+      delete: "Couldn't delete the board.",
+    },
+  },
+  screen: {
+    notFound: "Board not found.",
+    loadFailed: "Couldn't load the board.",
+    backToList: "Back to boards",
+  },
+  sync: {
+    saving: "Saving…",
+    saved: "Saved",
+    errors: {
+      conflict: "Someone else changed the board first, so the latest version was loaded.",
+      saveFailed: "Couldn't save, so the board went back to its last saved state.",
+      deleted: "This board was deleted elsewhere.",
+    },
+  },
+  presence: {
+    activity: {
+      "drag-task": "moving a card",
+      "drag-cell": "moving a cell",
+      "drag-column": "moving a column",
+      "edit-task": "editing a card",
+    },
+    label: "People viewing",
+    viewers: (count) => `${plural(count, "other")} viewing`,
+    me: "Me",
+    myName: "My name",
+  },
+  items: {
+    column: "column",
+    cell: "cell",
+    task: "task",
+    swimlane: "lane",
+    named: (kind, title) => `${kind} "${title}"`,
+  },
+  board: {
+    backToList: "Boards",
+    shortcuts: "Keyboard shortcuts",
+    shortcutsTitle: "Keyboard shortcuts (?)",
+    undo: "Undo",
+    redo: "Redo",
+    wipPolicy: "WIP limit policy",
+    metrics: "Metrics",
+    trash: "Trash",
+    automations: "Automations",
+    zoom: "Board zoom",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    fitToScreen: "Fit",
+    swimlanes: "Swimlanes",
+    export: "Export",
+    exportJson: "Board JSON",
+    exportCsv: "Tasks CSV",
+    exportMarkdown: "Markdown outline",
+    import: "Import",
+    addColumn: "Add column",
+    addCell: "Add cell",
+    addLane: "Add lane",
+    unreadableFile: "Couldn't read the file.",
+  },
+  column: {
+    collapsedLabel: (title) => `Collapsed column ${title}`,
+    expand: "Expand column",
+    collapse: "Collapse column",
+    drag: "Drag column",
+    title: "Column title",
+    moveTo: "Move column",
+    delete: "Delete column",
+    resize: "Resize column width",
+    emptyHint: "Add or drop a cell here.",
+  },
+  cell: {
+    expand: "Expand cell",
+    collapse: "Collapse cell",
+    drag: "Drag cell",
+    title: "Cell title",
+    moveTo: "Move cell",
+    delete: "Delete cell",
+    resize: "Resize cell height",
+    emptyHint: "Drop or add a task here.",
+    matchCount: (count) => plural(count, "match", "matches"),
+    taskCount: (count) => plural(count, "task"),
+    draggingCount: (count) => `Moving ${plural(count, "task")}`,
+  },
+  lane: {
+    label: (title) => `Lane ${title}`,
+    expand: "Expand lane",
+    collapse: "Collapse lane",
+    title: "Lane title",
+    moveUp: "Move lane up",
+    moveDown: "Move lane down",
+    delete: "Delete lane",
+  },
+  task: {
+    priority: (label) => `${label} priority`,
+    delete: "Delete task",
+  },
+  appearance: {
+    button: (target) => `Colour and icon of ${target}`,
+    color: "Colour",
+    noColor: "No colour",
+    colors: {
+      gray: "Grey",
+      red: "Red",
+      orange: "Orange",
+      yellow: "Yellow",
+      green: "Green",
+      teal: "Teal",
+      blue: "Blue",
+      cyan: "Cyan",
+      purple: "Purple",
+      pink: "Pink",
+    },
+    setIcon: "Set icon…",
+    iconPrompt: (target) => `Enter an emoji to show before the title of ${target}.`,
+    removeIcon: "Remove icon",
+  },
+  notice: {
+    blocked: "Move blocked",
+    wipWarning: "WIP warning",
+    trashed: (subject) => `Moved ${subject} to the trash.`,
+    trashedCount: (count) => `Moved ${plural(count, "item")} to the trash.`,
+    movedToBoard: (subject, board) => `Moved ${subject} to the board "${board}".`,
+    moveFailed: (board) => `Couldn't move it to the board "${board}".`,
+    moved: "Moved",
+    openBoard: "Open board",
+  },
+  commands: {
+    addColumn: "Add column",
+    enableSwimlanes: "Turn on swimlanes",
+    disableSwimlanes: "Turn off swimlanes",
+    addLane: "Add lane",
+    addCell: (column) => `Add cell: ${column}`,
+    moveColumn: (column) => `Move column: ${column}`,
+    goToColumn: (column) => `Go to column: ${column}`,
+    addTask: (cell) => `Add task: ${cell}`,
+    undo: "Undo",
+    redo: "Redo",
+    exportJson: "Export: board JSON",
+    exportCsv: "Export: tasks CSV",
+    exportMarkdown: "Export: Markdown outline",
+    import: "Import",
+    repair: "Repair board",
+    wipPolicy: (policy) => `WIP limit: ${policy}`,
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    zoomReset: "Actual size",
+    zoomFit: "Fit to screen",
+    expandColumn: (column) => `Expand column: ${column}`,
+    collapseColumn: (column) => `Collapse column: ${column}`,
+    metrics: "Show flow metrics",
+    trash: "Open trash and archive",
+    automations: "Manage automation rules",
+    archiveCompleted: "Archive completed tasks",
+    search: "Search",
+    shortcuts: "Show shortcuts",
+  },
+  commandPalette: {
+    title: "Command palette",
+    placeholder: "Search commands…",
+    search: "Search commands",
+    empty: "No matching commands.",
+  },
+  shortcuts: {
+    title: "Keyboard shortcuts",
+    macNote: "On macOS you can use ⌘ instead of Ctrl.",
+    keys: { click: "Click", arrows: "Arrows" },
+    navigate: {
+      title: "Navigate",
+      upDown: "Move between cells and cards within a column",
+      leftRight: "Move to the same position in the next column",
+      open: "Open the focused card",
+    },
+    move: {
+      title: "Move",
+      upDown: "Move a card to the previous or next cell, or a cell up or down its column",
+      leftRight: "Move a card or cell to the next column",
+      lift: "Lift, move with the arrows and drop with Space (Esc cancels)",
+    },
+    select: {
+      title: "Select",
+      toggle: "Add a card to the selection or remove it",
+      range: "Select from the last card picked to this one",
+      clear: "Clear the selection",
+    },
+    resize: {
+      title: "Resize",
+      cell: "Move the focused cell separator",
+      column: "Move the focused column separator",
+      large: "Move in bigger steps",
+    },
+    board: {
+      title: "Board",
+      palette: "Command palette",
+      search: "Search",
+      undo: "Undo",
+      redo: "Redo",
+      help: "Show shortcuts",
+    },
+  },
+  filter: {
+    placeholder: "Search task, cell and column titles",
+    search: "Search tasks",
+    mode: "Cards that don't match",
+    dim: "Dim",
+    hide: "Hide",
+    matchCount: (count) => plural(count, "match", "matches"),
+    clear: "Clear search",
+    save: "Save filter",
+    namePrompt: "Filter name",
+    saved: "Saved filters",
+    deleteSaved: (name) => `Delete saved filter: ${name}`,
+  },
+  selection: {
+    toolbar: "Actions for selected tasks",
+    count: (count) => `${count} selected`,
+    target: "Destination cell",
+    move: "Move to cell",
+    rename: "Rename",
+    clear: "Clear selection",
+    find: "Find",
+    replace: "Replace with",
+    matchCount: (count) => plural(count, "match", "matches"),
+    apply: "Replace",
+  },
+  moveTo: {
+    title: (kind, title) => `Move ${kind} “${title}”`,
+    board: "Board",
+    currentBoard: "This board",
+    column: "Column",
+    noColumns: "No columns",
+    position: "Position",
+    nth: (position) => `Position ${position}`,
+    crossBoardNote:
+      "Its tasks and history move with it. After moving it to another board, you can't undo it here.",
+    loadFailed: "Couldn't load the board.",
+    failed: "Couldn't move it.",
+    submit: "Move",
+  },
+  wip: {
+    policy: {
+      block: "Block when over",
+      warn: "Only warn when over",
+    },
+    violation: (target, limit, count) =>
+      `The ${target} is over its WIP limit of ${limit} (${count}/${limit}).`,
+    prompt: (target) => `WIP limit for ${target} (leave empty for no limit)`,
+    invalid: "The WIP limit must be a whole number of 1 or more.",
+    setLabel: (target, count) => `Set WIP limit for ${target} (${plural(count, "task")})`,
+    countLabel: (target, count, limit, isOver) =>
+      `WIP for ${target}: ${count}/${limit}${isOver ? ", over limit" : ""}`,
+    set: "Set WIP limit",
+    change: "Change WIP limit",
+  },
+  health: {
+    ok: "Self-check passed",
+    repair: "Repair",
+    kinds: {
+      orphanedTasks: "Orphaned task lists",
+      missingTaskList: "Missing task lists",
+      invalidHeight: "Invalid cell heights",
+      invalidWidth: "Invalid column widths",
+      duplicateId: "Duplicate IDs",
+      emptyColumn: "Empty columns",
+      invalidWipLimit: "Invalid WIP limits",
+      swimlaneMismatch: "Lane mismatches",
+    },
+    duplicateId: (kind, id) => `The ${kind} ID "${id}" is used more than once.`,
+    invalidWidth: (column, width) => `Column "${column}" has an invalid width ratio (${width}).`,
+    invalidColumnWipLimit: (column, limit) => `Column "${column}" has an invalid WIP limit (${limit}).`,
+    emptyColumn: (column) => `Column "${column}" has no cells.`,
+    invalidHeight: (cell, height) => `Cell "${cell}" has an invalid height ratio (${height}).`,
+    invalidCellWipLimit: (cell, limit) => `Cell "${cell}" has an invalid WIP limit (${limit}).`,
+    missingTaskList: (cell) => `Cell "${cell}" has no task list.`,
+    orphanedTasks: (cellId, count) => `${plural(count, "task")} left under the missing cell "${cellId}".`,
+    swimlaneMismatch: (column, lanes) =>
+      `The cells of column "${column}" don't match the ${plural(lanes, "lane")}.`,
+  },
+  transfer: {
+    title: "Import board",
+    summary: (fileName, columns, tasks) =>
+      `${fileName}: ${plural(columns, "column")}, ${plural(tasks, "task")}`,
+    repaired: (count) => `Repaired ${plural(count, "problem")} automatically.`,
+    choose: "You can replace the current board or merge the file in as new columns.",
+    merge: "Merge as new columns",
+    replace: "Replace",
+    errors: {
+      invalidJson: "The file isn't valid JSON.",
+      unsupportedFormat: (format) => `Unsupported format: ${format}`,
+      missingBoard: "No board data found.",
+      newerVersion: (version) => `The file was exported from a newer version (${version}).`,
+      unrecognized: "The board structure isn't recognised.",
+    },
+  },
+  trash: {
+    title: "Trash · Archive",
+    trashTab: (count) => `Trash (${count})`,
+    archiveTab: (count) => `Archive (${count})`,
+    retention: (days) => `Deleted items are removed for good after ${days} days.`,
+    empty: "Empty trash",
+    confirmEmpty: (count) => `Delete ${plural(count, "item")} in the trash for good? This can't be undone.`,
+    isEmpty: "The trash is empty.",
+    deletedAt: (date) => `Deleted ${date}`,
+    taskCount: (count) => plural(count, "task"),
+    purgeIn: (days) => `Removed for good in ${plural(days, "day")}`,
+    deleteForever: "Delete forever",
+    restoreTarget: (title) => `Where to restore ${title}`,
+    noTargets: "Nowhere to restore to",
+    restoreToTarget: "Restore to selection",
+    archiveEmpty: "No archived tasks.",
+    archivedAt: (date) => `Archived ${date}`,
+  },
+  taskDetail: {
+    title: "Task details",
+    name: "Title",
+    description: "Description (Markdown)",
+    assignees: "Assignees (comma-separated)",
+    dueDate: "Due date",
+    priority: "Priority",
+    noPriority: "None",
+    labels: "Labels",
+    removeLabel: (name) => `Remove label ${name}`,
+    newLabel: "New label",
+    labelColor: "Label colour",
+    createdAt: (date) => `Created ${date}`,
+    updatedAt: (date) => `Updated ${date}`,
+    completedAt: (date) => `Completed ${date}`,
+    activity: "Activity",
+    archive: "Archive",
+  },
+  history: {
+    created: (cell) => `Created in ${cell}`,
+    moved: (from, to) => `${from} → ${to}`,
+    renamed: (from, to) => `Renamed: "${from}" → "${to}"`,
+    deleted: (cell) => `Deleted from ${cell}`,
+    archived: (cell) => `Archived from ${cell}`,
+    restored: (cell) => `Restored to ${cell}`,
+  },
+  automation: {
+    title: "Automation rules",
+    empty: "No rules yet.",
+    triggers: {
+      "enter-cell": "Enters a cell",
+      "stale-in-cell": "Stays in a cell too long",
+    },
+    conditions: {
+      "has-label": "Has a label",
+      "priority-is": "Has a priority",
+      unassigned: "Is unassigned",
+    },
+    actions: {
+      "stamp-completed": "Record completion time",
+      "add-assignee": "Add assignee",
+      "add-label": "Add label",
+      "set-priority": "Set priority",
+    },
+    describe: {
+      enterCell: (cell) => `When a task enters "${cell}"`,
+      staleInCell: (cell, days) => `When a task stays in "${cell}" for over ${plural(days, "day")}`,
+      hasLabel: (name) => `has the label "${name}"`,
+      priorityIs: (priority) => `has ${priority} priority`,
+      unassigned: "is unassigned",
+      stampCompleted: "record completion time",
+      addAssignee: (name) => `add assignee ${name}`,
+      addLabel: (name) => `add label "${name}"`,
+      setPriority: (priority) => `set priority to ${priority}`,
+    },
+    fields: {
+      completedAt: "completion time",
+      assignees: "assignees",
+      labels: "labels",
+      priority: "priority",
+    },
+    errors: {
+      cell: "Pick a cell.",
+      days: "The number of days must be a whole number of 1 or more.",
+      condition: "Enter a value for the condition.",
+      action: "Enter a value for the action.",
+    },
+    enable: (name) => `Enable ${name}`,
+    preview: "Preview",
+    closePreview: "Close preview",
+    previewArrivals: "What would change if the tasks now in the cell arrived there. Nothing is changed.",
+    previewStale: "The tasks that would change if the rule ran now. Nothing is changed.",
+    previewEmpty: "No tasks match.",
+    newRule: "New rule",
+    name: "Name",
+    namePlaceholder: "e.g. Record completion date",
+    cell: "Cell",
+    when: "When",
+    days: "Days",
+    condition: "Condition",
+    always: "Always",
+    labelName: "Label name",
+    priority: "Priority",
+    action: "Action",
+    assignee: "Assignee",
+    color: "Colour",
+    addRule: "Add rule",
+  },
+  metrics: {
+    title: "Flow metrics",
+    note: "The last column counts as done, and cycle time starts when a task leaves the first column.",
+    completed: "Completed",
+    tasks: "tasks",
+    leadTime: "Lead time",
+    cycleTime: "Cycle time",
+    median: (duration, count) => `Median ${duration} · ${plural(count, "task")}`,
+    noneCompleted: "No completed tasks",
+    noRecords: "No records yet.",
+    name: "Name",
+    averageTime: "Average time",
+    throughput: "Weekly throughput",
+    week: (weekStart, count) => `Week of ${weekStart}: ${plural(count, "task")}`,
+    cumulativeFlowLabel: "Cumulative flow",
+    cumulativeFlow: (days) => `Cumulative flow (last ${plural(days, "day")})`,
+    columnTimes: "Time by column",
+    cellTimes: "Time by cell",
+  },
+};
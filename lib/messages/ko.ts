@@ -0,0 +1,533 @@
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationTrigger,
+  ItemColor,
+  PeerActivity,
+  TaskPriority,
+  WipPolicy,
+} from "@/types/board";
+import type { BoardIssueKind } from "@/lib/boardValidation";
+import type { ThemePreference } from "@/lib/theme";
+
+// The app was written in Korean, so this catalog is the reference: every other locale has to
+// provide the same keys. Entries that take values are functions, which also lets a locale handle
+// its own plurals and word order.
+export const ko = {
+  app: {
+    description: "쿼드런트 드롭과 리사이즈가 가능한 고급 칸반 보드",
+    language: "언어",
+  },
+  theme: {
+    label: "테마",
+    options: {
+      light: "라이트",
+      dark: "다크",
+      system: "시스템 설정",
+    } satisfies Record<ThemePreference, string>,
+  },
+  common: {
+    add: "추가",
+    cancel: "취소",
+    delete: "삭제",
+    restore: "복원",
+    save: "저장",
+    dismiss: "알림 닫기",
+    deletedCell: "삭제된 셀",
+  },
+  // Titles given to things the user hasn't named.
+  defaults: {
+    boardName: "작업 보드",
+    boardCopy: (name: string) => `${name} 사본`,
+    untitledColumn: "무제 컬럼",
+    untitledCell: "무제 셀",
+    newColumn: (position: number) => `새 컬럼 ${position}`,
+    newCell: "새 셀",
+    newTask: "새 태스크",
+    lane: "레인",
+    newLane: (position: number) => `레인 ${position}`,
+    newRule: "새 규칙",
+    guest: (number: number) => `게스트 ${number}`,
+    anonymous: "익명",
+  },
+  templates: {
+    workflow: { name: "기본 워크플로", description: "아이디어 / 진행 중 / 출시" },
+    blank: { name: "빈 보드", description: "컬럼 없이 시작" },
+    // The columns, cells and tasks of the workflow template.
+    seed: {
+      ideas: "아이디어",
+      ideaPool: "아이디어 풀",
+      requirements: "요구사항 정리",
+      inProgress: "진행 중",
+      design: "설계",
+      development: "개발",
+      review: "리뷰",
+      launch: "출시",
+      launchPrep: "출시 준비",
+      done: "완료",
+      marketResearch: "시장 조사",
+      userInterviews: "사용자 인터뷰",
+      defineMvp: "MVP 정의",
+      iaDesign: "IA 설계",
+      frontend: "프론트엔드",
+      backend: "백엔드",
+      qaPrep: "QA 준비",
+      runbook: "런북 작성",
+      announcement: "시장 공지",
+      deployed: "배포 완료",
+    },
+  },
+  priority: {
+    low: "낮음",
+    medium: "보통",
+    high: "높음",
+    urgent: "긴급",
+  } satisfies Record<TaskPriority, string>,
+  duration: {
+    minutes: (minutes: number) => `${minutes}분`,
+    hours: (hours: number, minutes: number) => (minutes ? `${hours}시간 ${minutes}분` : `${hours}시간`),
+    days: (days: number, hours: number) => (hours ? `${days}일 ${hours}시간` : `${days}일`),
+  },
+  library: {
+    heading: "보드",
+    newBoardName: "새 보드 이름",
+    template: "템플릿",
+    create: "보드 만들기",
+    empty: "아직 보드가 없습니다. 템플릿을 골라 새 보드를 만들어 보세요.",
+    boardName: "보드 이름",
+    createdAt: (date: string) => `${date} 생성`,
+    open: "열기",
+    duplicate: "보드 복제",
+    delete: "보드 삭제",
+    confirmDelete: (name: string) => `"${name}" 보드를 삭제할까요? 되돌릴 수 없습니다.`,
+    errors: {
+      load: "보드 목록을 불러오지 못했습니다.",
+      upload: "이 브라우저에 저장된 보드를 서버로 옮기지 못했습니다. 다음에 열 때 다시 시도합니다.",
+      create: "보드를 만들지 못했습니다.",
+      rename: "이름을 바꾸지 못했습니다.",
+      duplicate: "보드를 복제하지 못했습니다.",
+      delete: "보드를 삭제하지 못했습니다.",
+    },
+  },
+  screen: {
+    notFound: "보드를 찾을 수 없습니다.",
+    loadFailed: "보드를 불러오지 못했습니다.",
+    backToList: "보드 목록으로 돌아가기",
+  },
+  sync: {
+    saving: "저장 중…",
+    saved: "저장됨",
+    errors: {
+      conflict: "다른 사용자가 먼저 보드를 바꿔 최신 상태를 불러왔습니다.",
+      saveFailed: "저장하지 못해 마지막으로 저장된 상태로 되돌렸습니다.",
+      deleted: "다른 곳에서 이 보드를 삭제했습니다.",
+    },
+  },
+  presence: {
+    activity: {
+      "drag-task": "카드 이동 중",
+      "drag-cell": "셀 이동 중",
+      "drag-column": "컬럼 이동 중",
+      "edit-task": "카드 편집 중",
+    } satisfies Record<PeerActivity["type"], string>,
+    label: "접속 중인 사용자",
+    viewers: (count: number) => `${count}명 함께 보는 중`,
+    me: "나",
+    myName: "내 이름",
+  },
+  // Names of board items, used inside other messages.
+  items: {
+    column: "컬럼",
+    cell: "셀",
+    task: "태스크",
+    swimlane: "레인",
+    named: (kind: string, title: string) => `${kind} "${title}"`,
+  },
+  board: {
+    backToList: "보드 목록",
+    shortcuts: "키보드 단축키",
+    shortcutsTitle: "키보드 단축키 (?)",
+    undo: "실행 취소",
+    redo: "다시 실행",
+    wipPolicy: "WIP 제한 정책",
+    metrics: "지표",
+    trash: "휴지통",
+    automations: "자동화",
+    zoom: "보드 확대/축소",
+    zoomIn: "확대",
+    zoomOut: "축소",
+    fitToScreen: "화면 맞춤",
+    swimlanes: "스윔레인",
+    export: "내보내기",
+    exportJson: "보드 JSON",
+    exportCsv: "태스크 CSV",
+    exportMarkdown: "Markdown 개요",
+    import: "가져오기",
+    addColumn: "컬럼 추가",
+    addCell: "셀 추가",
+    addLane: "레인 추가",
+    unreadableFile: "파일을 읽을 수 없습니다.",
+  },
+  column: {
+    collapsedLabel: (title: string) => `접힌 컬럼 ${title}`,
+    expand: "컬럼 펼치기",
+    collapse: "컬럼 접기",
+    drag: "컬럼 이동",
+    title: "컬럼 제목",
+    moveTo: "컬럼 옮기기",
+    delete: "컬럼 삭제",
+    resize: "컬럼 너비 조절",
+    emptyHint: "셀을 추가하거나 드롭하세요.",
+  },
+  cell: {
+    expand: "셀 펼치기",
+    collapse: "셀 접기",
+    drag: "셀 이동",
+    title: "셀 제목",
+    moveTo: "셀 옮기기",
+    delete: "셀 삭제",
+    resize: "셀 높이 조절",
+    emptyHint: "태스크를 드롭하거나 추가하세요.",
+    matchCount: (count: number) => `일치 ${count}개`,
+    taskCount: (count: number) => `태스크 ${count}개`,
+    draggingCount: (count: number) => `태스크 ${count}개 이동`,
+  },
+  lane: {
+    label: (title: string) => `레인 ${title}`,
+    expand: "레인 펼치기",
+    collapse: "레인 접기",
+    title: "레인 제목",
+    moveUp: "레인 위로",
+    moveDown: "레인 아래로",
+    delete: "레인 삭제",
+  },
+  task: {
+    priority: (label: string) => `우선순위 ${label}`,
+    delete: "태스크 삭제",
+  },
+  appearance: {
+    button: (target: string) => `${target} 색과 아이콘`,
+    color: "색",
+    noColor: "색 없음",
+    colors: {
+      gray: "회색",
+      red: "빨강",
+      orange: "주황",
+      yellow: "노랑",
+      green: "초록",
+      teal: "청록",
+      blue: "파랑",
+      cyan: "하늘",
+      purple: "보라",
+      pink: "분홍",
+    } satisfies Record<ItemColor, string>,
+    setIcon: "아이콘 지정…",
+    iconPrompt: (target: string) => `${target}의 제목 앞에 보일 이모지를 입력하세요.`,
+    removeIcon: "아이콘 지우기",
+  },
+  notice: {
+    blocked: "이동 막힘",
+    wipWarning: "WIP 경고",
+    trashed: (subject: string) => `${subject}을(를) 휴지통으로 옮겼습니다.`,
+    trashedCount: (count: number) => `항목 ${count}개를 휴지통으로 옮겼습니다.`,
+    movedToBoard: (subject: string, board: string) => `${subject}을(를) "${board}" 보드로 옮겼습니다.`,
+    moveFailed: (board: string) => `"${board}" 보드에 옮기지 못했습니다.`,
+    moved: "이동",
+    openBoard: "보드 열기",
+  },
+  commands: {
+    addColumn: "컬럼 추가",
+    enableSwimlanes: "스윔레인 켜기",
+    disableSwimlanes: "스윔레인 끄기",
+    addLane: "레인 추가",
+    addCell: (column: string) => `셀 추가: ${column}`,
+    moveColumn: (column: string) => `컬럼 옮기기: ${column}`,
+    goToColumn: (column: string) => `컬럼으로 이동: ${column}`,
+    addTask: (cell: string) => `태스크 추가: ${cell}`,
+    undo: "실행 취소",
+    redo: "다시 실행",
+    exportJson: "내보내기: 보드 JSON",
+    exportCsv: "내보내기: 태스크 CSV",
+    exportMarkdown: "내보내기: Markdown 개요",
+    import: "가져오기",
+    repair: "보드 복구",
+    wipPolicy: (policy: string) => `WIP 제한: ${policy}`,
+    zoomIn: "확대",
+    zoomOut: "축소",
+    zoomReset: "실제 크기로 보기",
+    zoomFit: "화면에 맞추기",
+    expandColumn: (column: string) => `컬럼 펼치기: ${column}`,
+    collapseColumn: (column: string) => `컬럼 접기: ${column}`,
+    metrics: "흐름 지표 보기",
+    trash: "휴지통 · 보관함 열기",
+    automations: "자동화 규칙 관리",
+    archiveCompleted: "완료된 태스크 보관",
+    search: "검색",
+    shortcuts: "단축키 보기",
+  },
+  commandPalette: {
+    title: "명령 팔레트",
+    placeholder: "명령 검색…",
+    search: "명령 검색",
+    empty: "일치하는 명령이 없습니다.",
+  },
+  shortcuts: {
+    title: "키보드 단축키",
+    macNote: "macOS에서는 Ctrl 대신 ⌘를 사용할 수 있습니다.",
+    keys: { click: "클릭", arrows: "화살표" },
+    navigate: {
+      title: "탐색",
+      upDown: "컬럼 안에서 셀과 카드 사이를 이동",
+      leftRight: "옆 컬럼의 같은 위치로 이동",
+      open: "포커스된 카드 열기",
+    },
+    move: {
+      title: "옮기기",
+      upDown: "카드를 이전·다음 셀로, 셀을 컬럼 안에서 위·아래로",
+      leftRight: "카드나 셀을 옆 컬럼으로",
+      lift: "들어 올린 뒤 화살표로 옮기고 Space로 놓기 (Esc 취소)",
+    },
+    select: {
+      title: "선택",
+      toggle: "카드를 선택에 넣거나 빼기",
+      range: "마지막으로 고른 카드부터 여기까지 선택",
+      clear: "선택 해제",
+    },
+    resize: {
+      title: "크기 조절",
+      cell: "포커스된 셀 구분선 움직이기",
+      column: "포커스된 컬럼 구분선 움직이기",
+      large: "크게 움직이기",
+    },
+    board: {
+      title: "보드",
+      palette: "명령 팔레트",
+      search: "검색",
+      undo: "실행 취소",
+      redo: "다시 실행",
+      help: "단축키 보기",
+    },
+  },
+  filter: {
+    placeholder: "태스크, 셀, 컬럼 제목 검색",
+    search: "태스크 검색",
+    mode: "일치하지 않는 카드",
+    dim: "흐리게 표시",
+    hide: "숨기기",
+    matchCount: (count: number) => `${count}개 일치`,
+    clear: "검색 지우기",
+    save: "필터 저장",
+    namePrompt: "필터 이름",
+    saved: "저장된 필터",
+    deleteSaved: (name: string) => `저장된 필터 삭제: ${name}`,
+  },
+  selection: {
+    toolbar: "선택한 태스크 작업",
+    count: (count: number) => `${count}개 선택`,
+    target: "옮길 셀",
+    move: "셀로 이동",
+    rename: "이름 바꾸기",
+    clear: "선택 해제",
+    find: "찾을 내용",
+    replace: "바꿀 내용",
+    matchCount: (count: number) => `${count}개 일치`,
+    apply: "바꾸기",
+  },
+  moveTo: {
+    title: (kind: "column" | "cell", title: string) => `${kind === "column" ? "컬럼" : "셀"} “${title}” 옮기기`,
+    board: "보드",
+    currentBoard: "현재 보드",
+    column: "컬럼",
+    noColumns: "컬럼이 없습니다",
+    position: "위치",
+    nth: (position: number) => `${position}번째`,
+    crossBoardNote: "태스크와 기록이 함께 옮겨집니다. 다른 보드로 옮긴 뒤에는 이 보드에서 실행 취소할 수 없습니다.",
+    loadFailed: "보드를 불러오지 못했습니다.",
+    failed: "옮기지 못했습니다.",
+    submit: "옮기기",
+  },
+  wip: {
+    policy: {
+      block: "초과 시 막기",
+      warn: "초과 시 경고만",
+    } satisfies Record<WipPolicy, string>,
+    violation: (target: string, limit: number, count: number) =>
+      `${target}의 WIP 제한 ${limit}개를 넘습니다 (${count}/${limit}).`,
+    prompt: (target: string) => `${target}의 WIP 제한 (비워 두면 제한 없음)`,
+    invalid: "WIP 제한은 1 이상의 정수여야 합니다.",
+    setLabel: (target: string, count: number) => `${target} WIP 제한 설정 (태스크 ${count}개)`,
+    countLabel: (target: string, count: number, limit: number, isOver: boolean) =>
+      `${target} WIP ${count}/${limit}${isOver ? ", 제한 초과" : ""}`,
+    set: "WIP 제한 설정",
+    change: "WIP 제한 변경",
+  },
+  health: {
+    ok: "자가 점검 통과",
+    repair: "복구",
+    kinds: {
+      orphanedTasks: "고아 태스크 목록",
+      missingTaskList: "태스크 목록 누락",
+      invalidHeight: "잘못된 셀 높이",
+      invalidWidth: "잘못된 컬럼 너비",
+      duplicateId: "중복 ID",
+      emptyColumn: "빈 컬럼",
+      invalidWipLimit: "잘못된 WIP 제한",
+      swimlaneMismatch: "레인 불일치",
+    } satisfies Record<BoardIssueKind, string>,
+    duplicateId: (kind: string, id: string) => `${kind} ID "${id}"가 중복됩니다.`,
+    invalidWidth: (column: string, width: number) => `컬럼 "${column}"의 너비 비율(${width})이 올바르지 않습니다.`,
+    invalidColumnWipLimit: (column: string, limit: number) =>
+      `컬럼 "${column}"의 WIP 제한(${limit})이 올바르지 않습니다.`,
+    emptyColumn: (column: string) => `컬럼 "${column}"에 셀이 없습니다.`,
+    invalidHeight: (cell: string, height: number) => `셀 "${cell}"의 높이 비율(${height})이 올바르지 않습니다.`,
+    invalidCellWipLimit: (cell: string, limit: number) => `셀 "${cell}"의 WIP 제한(${limit})이 올바르지 않습니다.`,
+    missingTaskList: (cell: string) => `셀 "${cell}"에 태스크 목록이 없습니다.`,
+    orphanedTasks: (cellId: string, count: number) =>
+      `존재하지 않는 셀 "${cellId}"에 태스크 ${count}개가 남아 있습니다.`,
+    swimlaneMismatch: (column: string, lanes: number) => `컬럼 "${column}"의 셀이 레인 ${lanes}개와 맞지 않습니다.`,
+  },
+  transfer: {
+    title: "보드 가져오기",
+    summary: (fileName: string, columns: number, tasks: number) =>
+      `${fileName}: 컬럼 ${columns}개, 태스크 ${tasks}개`,
+    repaired: (count: number) => `문제 ${count}건을 자동으로 복구했습니다.`,
+    choose: "현재 보드를 교체하거나 새 컬럼으로 병합할 수 있습니다.",
+    merge: "새 컬럼으로 병합",
+    replace: "교체",
+    errors: {
+      invalidJson: "JSON 형식이 올바르지 않습니다.",
+      unsupportedFormat: (format: string) => `지원하지 않는 형식입니다: ${format}`,
+      missingBoard: "보드 데이터를 찾을 수 없습니다.",
+      newerVersion: (version: number) => `더 최신 버전(${version})에서 내보낸 파일입니다.`,
+      unrecognized: "보드 구조를 인식할 수 없습니다.",
+    },
+  },
+  trash: {
+    title: "휴지통 · 보관함",
+    trashTab: (count: number) => `휴지통 (${count})`,
+    archiveTab: (count: number) => `보관함 (${count})`,
+    retention: (days: number) => `삭제한 항목은 ${days}일 뒤 영구 삭제됩니다.`,
+    empty: "휴지통 비우기",
+    confirmEmpty: (count: number) => `휴지통의 항목 ${count}개를 영구 삭제할까요? 되돌릴 수 없습니다.`,
+    isEmpty: "휴지통이 비어 있습니다.",
+    deletedAt: (date: string) => `삭제 ${date}`,
+    taskCount: (count: number) => `태스크 ${count}개`,
+    purgeIn: (days: number) => `${days}일 뒤 영구 삭제`,
+    deleteForever: "영구 삭제",
+    restoreTarget: (title: string) => `${title} 복원 위치`,
+    noTargets: "복원할 위치가 없습니다",
+    restoreToTarget: "선택한 위치로 복원",
+    archiveEmpty: "보관한 태스크가 없습니다.",
+    archivedAt: (date: string) => `보관 ${date}`,
+  },
+  taskDetail: {
+    title: "태스크 상세",
+    name: "제목",
+    description: "설명 (마크다운)",
+    assignees: "담당자 (쉼표로 구분)",
+    dueDate: "마감일",
+    priority: "우선순위",
+    noPriority: "없음",
+    labels: "라벨",
+    removeLabel: (name: string) => `라벨 ${name} 제거`,
+    newLabel: "새 라벨",
+    labelColor: "라벨 색상",
+    createdAt: (date: string) => `생성 ${date}`,
+    updatedAt: (date: string) => `수정 ${date}`,
+    completedAt: (date: string) => `완료 ${date}`,
+    activity: "활동",
+    archive: "보관",
+  },
+  history: {
+    created: (cell: string) => `${cell}에 생성`,
+    moved: (from: string, to: string) => `${from} → ${to}`,
+    renamed: (from: string, to: string) => `제목 변경: "${from}" → "${to}"`,
+    deleted: (cell: string) => `${cell}에서 삭제`,
+    archived: (cell: string) => `${cell}에서 보관`,
+    restored: (cell: string) => `${cell}로 복원`,
+  },
+  automation: {
+    title: "자동화 규칙",
+    empty: "아직 규칙이 없습니다.",
+    triggers: {
+      "enter-cell": "셀에 들어오면",
+      "stale-in-cell": "셀에 오래 머물면",
+    } satisfies Record<AutomationTrigger["type"], string>,
+    conditions: {
+      "has-label": "라벨이 있으면",
+      "priority-is": "우선순위가 같으면",
+      unassigned: "담당자가 없으면",
+    } satisfies Record<AutomationCondition["type"], string>,
+    actions: {
+      "stamp-completed": "완료 시각 기록",
+      "add-assignee": "담당자 추가",
+      "add-label": "라벨 추가",
+      "set-priority": "우선순위 설정",
+    } satisfies Record<AutomationAction["type"], string>,
+    // The parts of a rule's one-line summary.
+    describe: {
+      enterCell: (cell: string) => `"${cell}"에 들어오면`,
+      staleInCell: (cell: string, days: number) => `"${cell}"에 ${days}일 넘게 머물면`,
+      hasLabel: (name: string) => `라벨 "${name}"이(가) 있고`,
+      priorityIs: (priority: string) => `우선순위가 ${priority}이고`,
+      unassigned: "담당자가 없고",
+      stampCompleted: "완료 시각 기록",
+      addAssignee: (name: string) => `담당자 ${name} 추가`,
+      addLabel: (name: string) => `라벨 "${name}" 추가`,
+      setPriority: (priority: string) => `우선순위 ${priority}`,
+    },
+    fields: {
+      completedAt: "완료 시각",
+      assignees: "담당자",
+      labels: "라벨",
+      priority: "우선순위",
+    },
+    errors: {
+      cell: "셀을 고르세요.",
+      days: "일 수는 1 이상의 정수여야 합니다.",
+      condition: "조건 값을 입력하세요.",
+      action: "동작 값을 입력하세요.",
+    },
+    enable: (name: string) => `${name} 사용`,
+    preview: "미리보기",
+    closePreview: "미리보기 닫기",
+    previewArrivals: "지금 셀에 있는 태스크가 새로 들어온다면 바뀔 내용입니다. 실제로 바꾸지는 않습니다.",
+    previewStale: "지금 실행하면 바뀔 태스크입니다. 실제로 바꾸지는 않습니다.",
+    previewEmpty: "해당하는 태스크가 없습니다.",
+    newRule: "새 규칙",
+    name: "이름",
+    namePlaceholder: "예: 완료일 기록",
+    cell: "셀",
+    when: "언제",
+    days: "일 수",
+    condition: "조건",
+    always: "항상",
+    labelName: "라벨 이름",
+    priority: "우선순위",
+    action: "동작",
+    assignee: "담당자",
+    color: "색상",
+    addRule: "규칙 추가",
+  },
+  metrics: {
+    title: "흐름 지표",
+    note: "마지막 컬럼을 완료로 보고, 첫 컬럼을 벗어난 때부터 사이클 타임을 잽니다.",
+    completed: "완료",
+    tasks: "태스크",
+    leadTime: "리드 타임",
+    cycleTime: "사이클 타임",
+    median: (duration: string, count: number) => `중앙값 ${duration} · ${count}개`,
+    noneCompleted: "완료된 태스크 없음",
+    noRecords: "기록이 없습니다.",
+    name: "이름",
+    averageTime: "평균 체류",
+    throughput: "주간 처리량",
+    week: (weekStart: string, count: number) => `${weekStart} 주: ${count}개`,
+    cumulativeFlowLabel: "누적 흐름도",
+    cumulativeFlow: (days: number) => `누적 흐름도 (최근 ${days}일)`,
+    columnTimes: "컬럼별 체류 시간",
+    cellTimes: "셀별 체류 시간",
+  },
+};
+
+export type Messages = typeof ko;
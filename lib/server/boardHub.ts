@@ -0,0 +1,75 @@
+import { BoardPeer } from "@/types/board";
+import { BoardEvent } from "@/lib/boardSync";
+
+type Subscriber = {
+  peer: BoardPeer;
+  send: (event: BoardEvent) => void;
+};
+
+// Fans board events out to the event streams of everyone viewing a board and tracks who is there.
+export type BoardHub = {
+  subscribe: (boardId: string, peer: BoardPeer, send: (event: BoardEvent) => void) => () => void;
+  publish: (boardId: string, event: BoardEvent) => void;
+  // Returns false when the client has no open stream on the board.
+  updatePeer: (boardId: string, peer: BoardPeer) => boolean;
+};
+
+export function createBoardHub(): BoardHub {
+  const channels = new Map<string, Map<string, Subscriber>>();
+
+  const publish = (boardId: string, event: BoardEvent) => {
+    channels.get(boardId)?.forEach((subscriber) => {
+      subscriber.send(event);
+    });
+  };
+
+  const publishPresence = (boardId: string) => {
+    const subscribers = channels.get(boardId);
+    publish(boardId, {
+      type: "presence",
+      peers: subscribers ? [...subscribers.values()].map((subscriber) => subscriber.peer) : [],
+    });
+  };
+
+  return {
+    subscribe: (boardId, peer, send) => {
+      const subscribers = channels.get(boardId) ?? new Map<string, Subscriber>();
+      channels.set(boardId, subscribers);
+      const subscriber: Subscriber = { peer, send };
+      subscribers.set(peer.clientId, subscriber);
+      publishPresence(boardId);
+
+      return () => {
+        // A reconnecting client may already have replaced this subscription.
+        if (subscribers.get(peer.clientId) !== subscriber) {
+          return;
+        }
+        subscribers.delete(peer.clientId);
+        if (subscribers.size === 0) {
+          channels.delete(boardId);
+        }
+        publishPresence(boardId);
+      };
+    },
+
+    publish,
+
+    updatePeer: (boardId, peer) => {
+      const subscriber = channels.get(boardId)?.get(peer.clientId);
+      if (!subscriber) {
+        return false;
+      }
+      subscriber.peer = peer;
+      publishPresence(boardId);
+      return true;
+    },
+  };
+}
+
+const globalHub = globalThis as typeof globalThis & { __advancedKanbanBoardHub?: BoardHub };
+
+// Event streams only reach clients served by this process, which is all a single Next.js server has.
+export function getBoardHub(): BoardHub {
+  globalHub.__advancedKanbanBoardHub ??= createBoardHub();
+  return globalHub.__advancedKanbanBoardHub;
+}
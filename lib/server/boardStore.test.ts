@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createBlankBoard } from "@/lib/boardTemplates";
+import { BoardUnreadableError, createBoardStore, createMemoryBackend } from "@/lib/server/boardStore";
+
+const META = { id: "b1", name: "Board", createdAt: "2026-01-01T00:00:00.000Z" };
+
+const snapshot = (board: unknown) =>
+  JSON.stringify({ schemaVersion: 3, boards: [{ meta: META, board, version: 1 }] });
+
+const createBrokenBoard = () => {
+  const { createdAt } = META;
+  const task = { id: "t1", title: "Task", labels: "oops", createdAt, updatedAt: createdAt };
+  return { ...createBlankBoard(), tasksByCell: { a: [task] } };
+};
+
+describe("createBoardStore", () => {
+  it("loads a stored board", async () => {
+    const store = createBoardStore(createMemoryBackend(snapshot(createBlankBoard())));
+    expect(await store.listBoards()).toEqual([META]);
+  });
+
+  it("serves the other boards and keeps an invalid one in the file as it was", async () => {
+    const broken = createBrokenBoard();
+    const backend = createMemoryBackend(snapshot(broken));
+    const store = createBoardStore(backend);
+    expect(await store.listBoards()).toEqual([]);
+    await expect(store.getBoard("b1")).rejects.toBeInstanceOf(BoardUnreadableError);
+
+    const other = { ...META, id: "b2" };
+    await store.createBoard(other, createBlankBoard());
+    expect(await store.listBoards()).toEqual([other]);
+    const written = JSON.parse((await backend.read()) ?? "");
+    expect(written.boards[1]).toEqual({ meta: META, board: broken, version: 1, schemaVersion: 3 });
+  });
+
+  it("deletes a board it could not load", async () => {
+    const backend = createMemoryBackend(snapshot(createBrokenBoard()));
+    const store = createBoardStore(backend);
+    await store.deleteBoard("b1");
+    await expect(store.getBoard("b1")).rejects.toThrow(/does not exist/);
+    expect(JSON.parse((await backend.read()) ?? "").boards).toEqual([]);
+  });
+});
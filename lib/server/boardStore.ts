@@ -0,0 +1,239 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { BoardMeta, BoardRecord, BoardState } from "@/types/board";
+import { BOARD_SCHEMA_VERSION, isRecord, migrateBoard } from "@/lib/boardStorage";
+import { findBoardStateError } from "@/lib/boardActionValidation";
+
+export class BoardNotFoundError extends Error {
+  constructor(boardId: string) {
+    super(`Board "${boardId}" does not exist.`);
+    this.name = "BoardNotFoundError";
+  }
+}
+
+export class BoardUnreadableError extends Error {
+  constructor(boardId: string) {
+    super(`Board "${boardId}" is stored but could not be loaded.`);
+    this.name = "BoardUnreadableError";
+  }
+}
+
+export class BoardVersionConflictError extends Error {
+  constructor(readonly current: BoardRecord) {
+    super(`Board "${current.meta.id}" is at version ${current.version}.`);
+    this.name = "BoardVersionConflictError";
+  }
+}
+
+export type BoardStore = {
+  listBoards: () => Promise<BoardMeta[]>;
+  getBoard: (boardId: string) => Promise<BoardRecord>;
+  createBoard: (meta: BoardMeta, board: BoardState) => Promise<BoardRecord>;
+  // Rejects with BoardVersionConflictError when expectedVersion is given and stale.
+  updateBoard: (
+    boardId: string,
+    update: (board: BoardState) => BoardState,
+    expectedVersion?: number,
+  ) => Promise<BoardRecord>;
+  renameBoard: (boardId: string, name: string) => Promise<BoardRecord>;
+  deleteBoard: (boardId: string) => Promise<void>;
+};
+
+// Where a store keeps its serialized snapshot. Swapping the backend is how storage is plugged in.
+export type BoardStoreBackend = {
+  read: () => Promise<string | null>;
+  write: (data: string) => Promise<void>;
+};
+
+type StoreSnapshot = {
+  schemaVersion: number;
+  boards: unknown[];
+};
+
+// A stored record that failed to load. It is written back exactly as it was read, together with
+// the schema version it was read at, so a later version of the app can still migrate it.
+type UnreadableRecord = {
+  id: string | null;
+  raw: unknown;
+};
+
+type ParsedSnapshot = {
+  records: BoardRecord[];
+  unreadable: UnreadableRecord[];
+};
+
+function readRecord(entry: unknown, snapshotVersion: number): BoardRecord | null {
+  if (
+    !isRecord(entry) ||
+    !isRecord(entry.meta) ||
+    typeof entry.meta.id !== "string" ||
+    typeof entry.version !== "number"
+  ) {
+    return null;
+  }
+  const schemaVersion = typeof entry.schemaVersion === "number" ? entry.schemaVersion : snapshotVersion;
+  const board = migrateBoard({ version: schemaVersion, savedAt: "", board: entry.board });
+  // Boards written before the API checked every entry may hold ones clients can't show.
+  return board && findBoardStateError(board) === null
+    ? { meta: entry.meta as BoardMeta, board, version: entry.version }
+    : null;
+}
+
+function toUnreadableRecord(entry: unknown, snapshotVersion: number): UnreadableRecord {
+  if (!isRecord(entry)) {
+    return { id: null, raw: entry };
+  }
+  const id = isRecord(entry.meta) && typeof entry.meta.id === "string" ? entry.meta.id : null;
+  return { id, raw: "schemaVersion" in entry ? entry : { ...entry, schemaVersion: snapshotVersion } };
+}
+
+function parseSnapshot(raw: string | null): ParsedSnapshot {
+  const snapshot: ParsedSnapshot = { records: [], unreadable: [] };
+  if (!raw) {
+    return snapshot;
+  }
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed) || typeof parsed.schemaVersion !== "number" || !Array.isArray(parsed.boards)) {
+    throw new Error("Board store snapshot is malformed.");
+  }
+  const schemaVersion = parsed.schemaVersion;
+  parsed.boards.forEach((entry) => {
+    const record = readRecord(entry, schemaVersion);
+    if (record) {
+      snapshot.records.push(record);
+    } else {
+      snapshot.unreadable.push(toUnreadableRecord(entry, schemaVersion));
+    }
+  });
+  return snapshot;
+}
+
+export function createBoardStore(backend: BoardStoreBackend): BoardStore {
+  let records: Map<string, BoardRecord> | null = null;
+  // Records that don't load are left out of the list and answered with BoardUnreadableError, but
+  // kept in the file rather than dropped by the next write.
+  let unreadable: UnreadableRecord[] = [];
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    if (!records) {
+      const snapshot = parseSnapshot(await backend.read());
+      if (snapshot.unreadable.length > 0) {
+        const ids = snapshot.unreadable.map((entry) => entry.id ?? "(no id)").join(", ");
+        console.error(`Board store kept ${snapshot.unreadable.length} board(s) it could not load: ${ids}`);
+      }
+      unreadable = snapshot.unreadable;
+      records = new Map(snapshot.records.map((record) => [record.meta.id, record]));
+    }
+    return records;
+  };
+
+  const persist = async (current: Map<string, BoardRecord>, kept: UnreadableRecord[] = unreadable) => {
+    const snapshot: StoreSnapshot = {
+      schemaVersion: BOARD_SCHEMA_VERSION,
+      boards: [...current.values(), ...kept.map((entry) => entry.raw)],
+    };
+    await backend.write(JSON.stringify(snapshot));
+  };
+
+  // Reads and writes run one at a time so version checks and file writes never interleave.
+  const enqueue = <T>(task: (current: Map<string, BoardRecord>) => Promise<T> | T): Promise<T> => {
+    const run = queue.then(async () => task(await load()));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const requireRecord = (current: Map<string, BoardRecord>, boardId: string) => {
+    const record = current.get(boardId);
+    if (!record && unreadable.some((entry) => entry.id === boardId)) {
+      throw new BoardUnreadableError(boardId);
+    }
+    if (!record) {
+      throw new BoardNotFoundError(boardId);
+    }
+    return record;
+  };
+
+  const replaceRecord = async (current: Map<string, BoardRecord>, record: BoardRecord) => {
+    const next = new Map(current);
+    next.set(record.meta.id, record);
+    await persist(next);
+    records = next;
+    return record;
+  };
+
+  return {
+    listBoards: () => enqueue((current) => [...current.values()].map((record) => record.meta)),
+
+    getBoard: (boardId) => enqueue((current) => requireRecord(current, boardId)),
+
+    createBoard: (meta, board) => enqueue((current) => replaceRecord(current, { meta, board, version: 1 })),
+
+    updateBoard: (boardId, update, expectedVersion) =>
+      enqueue((current) => {
+        const record = requireRecord(current, boardId);
+        if (typeof expectedVersion === "number" && expectedVersion !== record.version) {
+          throw new BoardVersionConflictError(record);
+        }
+        const board = update(record.board);
+        if (board === record.board) {
+          return record;
+        }
+        return replaceRecord(current, { ...record, board, version: record.version + 1 });
+      }),
+
+    renameBoard: (boardId, name) =>
+      enqueue((current) => {
+        const record = requireRecord(current, boardId);
+        return replaceRecord(current, { ...record, meta: { ...record.meta, name } });
+      }),
+
+    // An unreadable board can still be deleted, which is the way to get rid of it from the app.
+    deleteBoard: (boardId) =>
+      enqueue(async (current) => {
+        if (unreadable.some((entry) => entry.id === boardId)) {
+          const kept = unreadable.filter((entry) => entry.id !== boardId);
+          await persist(current, kept);
+          unreadable = kept;
+          return;
+        }
+        requireRecord(current, boardId);
+        const next = new Map(current);
+        next.delete(boardId);
+        await persist(next);
+        records = next;
+      }),
+  };
+}
+
+export function createFileBackend(filePath: string): BoardStoreBackend {
+  return {
+    read: async () => {
+      try {
+        return await readFile(filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    // Writing to a temporary file first keeps the previous snapshot intact if the process dies mid-write.
+    write: async (data) => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, data, "utf8");
+      await rename(tempPath, filePath);
+    },
+  };
+}
+
+export function createMemoryBackend(initial: string | null = null): BoardStoreBackend {
+  let data = initial;
+  return {
+    read: async () => data,
+    write: async (next) => {
+      data = next;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { join } from "node:path";
+import { BoardStore, createBoardStore, createFileBackend, createMemoryBackend } from "@/lib/server/boardStore";
+
+const DEFAULT_DATA_FILE = join(process.cwd(), ".data", "boards.json");
+
+// Kept on globalThis so dev-server module reloads don't start a second store over the same file.
+const globalStore = globalThis as typeof globalThis & { __advancedKanbanBoardStore?: BoardStore };
+
+// BOARD_STORE=memory keeps boards in process memory; otherwise they go to BOARD_DATA_FILE.
+export function getBoardStore(): BoardStore {
+  if (!globalStore.__advancedKanbanBoardStore) {
+    const backend =
+      process.env.BOARD_STORE === "memory"
+        ? createMemoryBackend()
+        : createFileBackend(process.env.BOARD_DATA_FILE ?? DEFAULT_DATA_FILE);
+    globalStore.__advancedKanbanBoardStore = createBoardStore(backend);
+  }
+  return globalStore.__advancedKanbanBoardStore;
+}
@@ -0,0 +1,11 @@
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, Locale, isLocale, matchLocale } from "@/lib/i18n";
+
+// The language to render a page in: the one picked with the switcher, else the browser's.
+export async function getRequestLocale(): Promise<Locale> {
+  const stored = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(stored)) {
+    return stored;
+  }
+  return matchLocale((await headers()).get("accept-language"));
+}
@@ -0,0 +1,8 @@
+import { cookies } from "next/headers";
+import { DEFAULT_THEME_PREFERENCE, THEME_COOKIE, ThemePreference, isThemePreference } from "@/lib/theme";
+
+// The theme picked with the switcher, or the system's when none has been picked.
+export async function getRequestThemePreference(): Promise<ThemePreference> {
+  const stored = (await cookies()).get(THEME_COOKIE)?.value;
+  return isThemePreference(stored) ? stored : DEFAULT_THEME_PREFERENCE;
+}
@@ -0,0 +1,154 @@
+import { BoardPeer, BoardState, PeerActivity } from "@/types/board";
+import { BoardAction, boardReducer } from "@/lib/boardReducer";
+import { isRecord } from "@/lib/boardStorage";
+import { LABEL_COLORS } from "@/lib/taskUtils";
+import { DEFAULT_MESSAGES } from "@/lib/i18n";
+import { BoardNotFoundError, BoardUnreadableError, BoardVersionConflictError } from "@/lib/server/boardStore";
+import { getBoardStore } from "@/lib/server/getBoardStore";
+import { getBoardHub } from "@/lib/server/boardHub";
+
+export class BoardRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BoardRequestError";
+  }
+}
+
+export class BoardItemNotFoundError extends Error {
+  constructor(kind: string, id: string) {
+    super(`${kind} "${id}" does not exist on this board.`);
+    this.name = "BoardItemNotFoundError";
+  }
+}
+
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new BoardRequestError("Request body must be JSON.");
+  }
+  if (!isRecord(body)) {
+    throw new BoardRequestError("Request body must be a JSON object.");
+  }
+  return body;
+}
+
+// Clients pass the version they last saw either as an If-Match header or a `version` field.
+export function readExpectedVersion(request: Request, body: Record<string, unknown>): number | undefined {
+  const header = request.headers.get("if-match");
+  if (header) {
+    const version = Number(header.replace(/"/g, ""));
+    if (!Number.isInteger(version)) {
+      throw new BoardRequestError("If-Match must be a board version number.");
+    }
+    return version;
+  }
+  return typeof body.version === "number" ? body.version : undefined;
+}
+
+export function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string") {
+    throw new BoardRequestError(`"${key}" must be a string.`);
+  }
+  return value;
+}
+
+export function findColumn(board: BoardState, columnId: string) {
+  const column = board.columns.find((item) => item.id === columnId);
+  if (!column) {
+    throw new BoardItemNotFoundError("Column", columnId);
+  }
+  return column;
+}
+
+export function findCell(board: BoardState, cellId: string) {
+  for (const column of board.columns) {
+    const cell = column.cells.find((item) => item.id === cellId);
+    if (cell) {
+      return { column, cell };
+    }
+  }
+  throw new BoardItemNotFoundError("Cell", cellId);
+}
+
+export function findTask(board: BoardState, taskId: string) {
+  for (const [cellId, tasks] of Object.entries(board.tasksByCell)) {
+    const task = tasks.find((item) => item.id === taskId);
+    if (task) {
+      return { cellId, task };
+    }
+  }
+  throw new BoardItemNotFoundError("Task", taskId);
+}
+
+// Actions may be built from the stored board, e.g. to look up which column a cell lives in.
+// Actions that change the board are broadcast to everyone viewing it.
+export async function applyBoardAction(
+  boardId: string,
+  action: BoardAction | ((board: BoardState) => BoardAction),
+  expectedVersion?: number,
+  clientId?: string,
+) {
+  let applied: BoardAction | null = null;
+  const record = await getBoardStore().updateBoard(
+    boardId,
+    (board) => {
+      const resolved = typeof action === "function" ? action(board) : action;
+      const next = boardReducer(board, resolved);
+      applied = next === board ? null : resolved;
+      return next;
+    },
+    expectedVersion,
+  );
+  if (applied) {
+    getBoardHub().publish(boardId, { type: "action", version: record.version, action: applied, clientId });
+  }
+  return record;
+}
+
+const PEER_ACTIVITY_TYPES: PeerActivity["type"][] = ["drag-task", "drag-cell", "drag-column", "edit-task"];
+const MAX_PEER_NAME_LENGTH = 40;
+
+function readPeerActivity(value: unknown): PeerActivity | null {
+  if (
+    !isRecord(value) ||
+    !PEER_ACTIVITY_TYPES.includes(value.type as PeerActivity["type"]) ||
+    typeof value.id !== "string"
+  ) {
+    return null;
+  }
+  return { type: value.type as PeerActivity["type"], id: value.id };
+}
+
+export function readBoardPeer(value: Record<string, unknown>): BoardPeer {
+  const clientId = requireString(value, "clientId");
+  if (!clientId) {
+    throw new BoardRequestError('"clientId" must not be empty.');
+  }
+  const name = typeof value.name === "string" ? value.name.trim().slice(0, MAX_PEER_NAME_LENGTH) : "";
+  return {
+    clientId,
+    name: name || DEFAULT_MESSAGES.defaults.anonymous,
+    color: LABEL_COLORS.includes(value.color as string) ? (value.color as string) : "gray",
+    activity: readPeerActivity(value.activity),
+  };
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof BoardRequestError) {
+    return Response.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof BoardNotFoundError || error instanceof BoardItemNotFoundError) {
+    return Response.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof BoardUnreadableError) {
+    return Response.json({ error: error.message }, { status: 422 });
+  }
+  if (error instanceof BoardVersionConflictError) {
+    return Response.json({ error: error.message, current: error.current }, { status: 409 });
+  }
+  console.error(error);
+  return Response.json({ error: "Unexpected server error." }, { status: 500 });
+}
@@ -0,0 +1,70 @@
+import { BoardState, TaskEvent } from "@/types/board";
+import { isRecord } from "@/lib/boardStorage";
+import { Messages } from "@/lib/i18n";
+
+const TASK_EVENT_FIELDS: Record<TaskEvent["type"], string[]> = {
+  created: ["cellId", "title"],
+  moved: ["fromCellId", "toCellId"],
+  renamed: ["from", "to"],
+  deleted: ["cellId"],
+  archived: ["cellId"],
+  restored: ["cellId"],
+};
+
+export function isTaskEvent(value: unknown): value is TaskEvent {
+  if (!isRecord(value) || typeof value.taskId !== "string" || typeof value.at !== "string") {
+    return false;
+  }
+  const fields = Object.entries(TASK_EVENT_FIELDS).find(([type]) => type === value.type)?.[1];
+  return fields !== undefined && fields.every((field) => typeof value[field] === "string");
+}
+
+// Rewrites the task and cell ids an event refers to, e.g. when a board is imported with fresh ids.
+export function mapTaskEventIds(event: TaskEvent, mapId: (id: string) => string): TaskEvent {
+  switch (event.type) {
+    case "created":
+    case "deleted":
+    case "archived":
+    case "restored":
+      return { ...event, taskId: mapId(event.taskId), cellId: mapId(event.cellId) };
+    case "moved":
+      return {
+        ...event,
+        taskId: mapId(event.taskId),
+        fromCellId: mapId(event.fromCellId),
+        toCellId: mapId(event.toCellId),
+      };
+    case "renamed":
+      return { ...event, taskId: mapId(event.taskId) };
+  }
+}
+
+export const getTaskEvents = (state: BoardState, taskId: string) =>
+  (state.taskEvents ?? []).filter((event) => event.taskId === taskId);
+
+// Maps every cell id on the board to a label that includes its column, for naming cells in events.
+export function getCellLabels(state: BoardState): Map<string, string> {
+  return new Map(
+    state.columns.flatMap((column) =>
+      column.cells.map((cell): [string, string] => [cell.id, `${column.title} / ${cell.title}`]),
+    ),
+  );
+}
+
+export function describeTaskEvent(event: TaskEvent, cellLabels: Map<string, string>, t: Messages): string {
+  const cellLabel = (cellId: string) => cellLabels.get(cellId) ?? t.common.deletedCell;
+  switch (event.type) {
+    case "created":
+      return t.history.created(cellLabel(event.cellId));
+    case "moved":
+      return t.history.moved(cellLabel(event.fromCellId), cellLabel(event.toCellId));
+    case "renamed":
+      return t.history.renamed(event.from, event.to);
+    case "deleted":
+      return t.history.deleted(cellLabel(event.cellId));
+    case "archived":
+      return t.history.archived(cellLabel(event.cellId));
+    case "restored":
+      return t.history.restored(cellLabel(event.cellId));
+  }
+}
@@ -0,0 +1,72 @@
+import { Task, TaskChanges, TaskLabel, TaskPriority } from "@/types/board";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["low", "medium", "high", "urgent"];
+
+export const LABEL_COLORS = ["gray", "red", "orange", "yellow", "green", "teal", "blue", "purple", "pink"];
+
+type EditableTaskField = keyof TaskChanges;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+export const isTaskPriority = (value: unknown): value is TaskPriority =>
+  TASK_PRIORITIES.some((priority) => priority === value);
+
+const isTaskLabel = (value: unknown): value is TaskLabel =>
+  typeof value === "object" &&
+  value !== null &&
+  ["id", "name", "color"].every((key) => isString((value as Record<string, unknown>)[key]));
+
+// What each editable field has to hold for the board to render it.
+const TASK_FIELD_CHECKS: Record<EditableTaskField, (value: unknown) => boolean> = {
+  title: isString,
+  description: isString,
+  assignees: (value) => Array.isArray(value) && value.every(isString),
+  dueDate: (value) => isString(value) && DATE_KEY_PATTERN.test(value),
+  labels: (value) => Array.isArray(value) && value.every(isTaskLabel),
+  priority: isTaskPriority,
+  completedAt: (value) => isString(value) && !Number.isNaN(Date.parse(value)),
+};
+
+const EDITABLE_TASK_FIELDS = Object.keys(TASK_FIELD_CHECKS) as EditableTaskField[];
+
+export const isEditableTaskField = (key: string): key is EditableTaskField =>
+  EDITABLE_TASK_FIELDS.some((field) => field === key);
+
+// Names the task fields that are set to the wrong kind of value. Unset fields are fine.
+export const findInvalidTaskFields = (task: Record<string, unknown>): EditableTaskField[] =>
+  EDITABLE_TASK_FIELDS.filter((field) => task[field] !== undefined && !TASK_FIELD_CHECKS[field](task[field]));
+
+// Keeps only the fields a task edit may change, dropping ids and timestamps from untrusted input.
+// Null clears an optional field; check the result with findInvalidTaskFields.
+export function pickTaskChanges(input: Record<string, unknown>): TaskChanges {
+  return Object.fromEntries(
+    EDITABLE_TASK_FIELDS.filter((field) => field in input).map((field) => [
+      field,
+      input[field] === null && field !== "title" ? undefined : input[field],
+    ]),
+  ) as TaskChanges;
+}
+
+export function createTask(id: string, title: string, now: string): Task {
+  return { id, title, createdAt: now, updatedAt: now };
+}
+
+// Formats a date as the local `YYYY-MM-DD` key used by Task.dueDate.
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isOverdue(dueDate: string | undefined, today: Date = new Date()): boolean {
+  return Boolean(dueDate) && (dueDate as string) < toDateKey(today);
+}
+
+export function parseAssignees(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name, index, names) => name.length > 0 && names.indexOf(name) === index);
+}
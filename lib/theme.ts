@@ -0,0 +1,37 @@
+import { writePreferenceCookie } from "@/lib/cookies";
+
+export type ColorMode = "light" | "dark";
+
+// "system" follows the operating system and changes with it.
+export type ThemePreference = ColorMode | "system";
+
+export const THEME_PREFERENCES: ThemePreference[] = ["light", "dark", "system"];
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = "system";
+
+// Kept in a cookie, like the locale, so the server renders a chosen theme without a flash.
+export const THEME_COOKIE = "advanced-kanban-theme";
+
+export const DARK_MODE_QUERY = "(prefers-color-scheme: dark)";
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_PREFERENCES.some((preference) => preference === value);
+
+export function storeThemePreference(preference: ThemePreference) {
+  writePreferenceCookie(THEME_COOKIE, preference);
+}
+
+// Sets the class Chakra's `_dark` condition looks for, and the colour scheme for native controls.
+export function applyColorMode(mode: ColorMode) {
+  const root = document.documentElement;
+  root.classList.toggle("dark", mode === "dark");
+  root.classList.toggle("light", mode === "light");
+  root.style.colorScheme = mode;
+}
+
+// The server can't see the operating system's theme, so pages that follow it run this in <head>,
+// before the first paint.
+export const SYSTEM_THEME_SCRIPT = `(function () {
+  var mode = window.matchMedia(${JSON.stringify(DARK_MODE_QUERY)}).matches ? "dark" : "light";
+  document.documentElement.classList.add(mode);
+  document.documentElement.style.colorScheme = mode;
+})();`;
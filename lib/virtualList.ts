@@ -0,0 +1,46 @@
+// The slice of a vertical list to render: items start to end (exclusive), with the height of the
+// items left out above and below kept as padding so the scrollbar stays true.
+export type VirtualRange = { start: number; end: number; paddingTop: number; paddingBottom: number };
+
+// Where each item starts when they are stacked with gapPx between them.
+export function getItemOffsets(sizes: number[], gapPx: number): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    offsets.push(offset);
+    offset += size + gapPx;
+  }
+  return offsets;
+}
+
+// The items that overlap the viewport, or lie within overscanPx of it.
+export function getVirtualRange(
+  sizes: number[],
+  gapPx: number,
+  scrollTop: number,
+  viewportPx: number,
+  overscanPx: number,
+): VirtualRange {
+  if (sizes.length === 0) {
+    return { start: 0, end: 0, paddingTop: 0, paddingBottom: 0 };
+  }
+  const offsets = getItemOffsets(sizes, gapPx);
+  const last = sizes.length - 1;
+  const totalPx = offsets[last] + sizes[last];
+  const from = scrollTop - overscanPx;
+  const to = scrollTop + viewportPx + overscanPx;
+
+  // A list that shrank under its scroll position still shows its last item.
+  let start = offsets.findIndex((offset, index) => offset + sizes[index] >= from);
+  start = start === -1 ? last : start;
+  let end = start + 1;
+  while (end < sizes.length && offsets[end] <= to) {
+    end += 1;
+  }
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: totalPx - offsets[end - 1] - sizes[end - 1],
+  };
+}
@@ -1,21 +1,180 @@
+export type TaskPriority = "low" | "medium" | "high" | "urgent";
+
+export type TaskLabel = {
+  id: string;
+  name: string;
+  color: string;
+};
+
 export type Task = {
   id: string;
   title: string;
+  description?: string;
+  assignees?: string[];
+  dueDate?: string;
+  labels?: TaskLabel[];
+  priority?: TaskPriority;
+  // Set by the "stamp completion" automation action.
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 };
 
+export type TaskChanges = Partial<Omit<Task, "id" | "createdAt" | "updatedAt">>;
+
+// Chakra colour palettes a column or cell can be tinted with.
+export type ItemColor =
+  | "gray"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "teal"
+  | "blue"
+  | "cyan"
+  | "purple"
+  | "pink";
+
 export type Cell = {
   id: string;
   title: string;
   height: number;
+  // Tints the header and the task cards; a cell without one takes its column's.
+  color?: ItemColor;
+  // An emoji shown before the title.
+  icon?: string;
+  // Maximum number of tasks the cell should hold; unset means no limit.
+  wipLimit?: number;
+  // Shows only the header; `height` is kept for when the cell is expanded again.
+  collapsed?: boolean;
 };
 
 export type Column = {
   id: string;
   title: string;
+  width: number;
   cells: Cell[];
+  // Tints the header and the task cards of cells that have no colour of their own.
+  color?: ItemColor;
+  // An emoji shown before the title.
+  icon?: string;
+  // Maximum number of tasks across all of the column's cells.
+  wipLimit?: number;
+  // Shows the column as a narrow strip with its title and task count.
+  collapsed?: boolean;
+};
+
+// A row that spans every column in swimlane mode. Its height is the `height` weight that the
+// row's cells share.
+export type Swimlane = {
+  id: string;
+  title: string;
+  collapsed?: boolean;
 };
 
+// One entry in a board's task history. Cell ids are where the task was at the time, so an event
+// may name a cell that has since been deleted.
+export type TaskEvent =
+  | { type: "created"; taskId: string; cellId: string; title: string; at: string }
+  | { type: "moved"; taskId: string; fromCellId: string; toCellId: string; at: string }
+  | { type: "renamed"; taskId: string; from: string; to: string; at: string }
+  | { type: "deleted"; taskId: string; cellId: string; at: string }
+  | { type: "archived"; taskId: string; cellId: string; at: string }
+  | { type: "restored"; taskId: string; cellId: string; at: string };
+
+// A column or cell on its way to another board, with its tasks and their history.
+export type BoardParcel =
+  | { kind: "column"; column: Column; tasksByCell: Record<string, Task[]>; taskEvents: TaskEvent[] }
+  | { kind: "cell"; cell: Cell; tasks: Task[]; taskEvents: TaskEvent[] };
+
+// Something deleted from the board, kept with enough context to put it back where it was.
+export type TrashedItem =
+  | { kind: "column"; column: Column; index: number; tasksByCell: Record<string, Task[]> }
+  | { kind: "cell"; cell: Cell; columnId: string; index: number; tasks: Task[] }
+  | { kind: "task"; task: Task; cellId: string; index: number }
+  | {
+      kind: "swimlane";
+      lane: Swimlane;
+      index: number;
+      cells: Array<{ columnId: string; cell: Cell; tasks: Task[] }>;
+    };
+
+export type TrashEntry = TrashedItem & { id: string; deletedAt: string };
+
+export type ArchivedTask = { task: Task; cellId: string; archivedAt: string };
+
+// What sets an automation rule off: a task arriving in a cell, by being added or moved there, or a
+// task that has been in a cell for at least `days` days.
+export type AutomationTrigger =
+  | { type: "enter-cell"; cellId: string }
+  | { type: "stale-in-cell"; cellId: string; days: number };
+
+export type AutomationCondition =
+  | { type: "has-label"; name: string }
+  | { type: "priority-is"; priority: TaskPriority }
+  | { type: "unassigned" };
+
+export type AutomationAction =
+  | { type: "stamp-completed" }
+  | { type: "add-assignee"; name: string }
+  | { type: "add-label"; name: string; color: string }
+  | { type: "set-priority"; priority: TaskPriority };
+
+// A rule runs its actions on a task when the trigger fires and every condition holds.
+export type AutomationRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+};
+
+// What happens when a move would push a cell or column past its WIP limit.
+export type WipPolicy = "block" | "warn";
+
 export type BoardState = {
   columns: Column[];
   tasksByCell: Record<string, Task[]>;
+  wipPolicy?: WipPolicy;
+  // Oldest first; capped at MAX_TASK_EVENTS.
+  taskEvents?: TaskEvent[];
+  // Oldest first; purged after TRASH_RETENTION_DAYS.
+  trash?: TrashEntry[];
+  archive?: ArchivedTask[];
+  automations?: AutomationRule[];
+  // Set in swimlane mode: cell i of every column belongs to swimlanes[i].
+  swimlanes?: Swimlane[];
+};
+
+export type BoardMeta = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export type BoardRecord = {
+  meta: BoardMeta;
+  board: BoardState;
+  version: number;
+};
+
+export type PeerActivity = {
+  type: "drag-task" | "drag-cell" | "drag-column" | "edit-task";
+  id: string;
+};
+
+// Someone (or another tab) currently connected to a board.
+export type BoardPeer = {
+  clientId: string;
+  name: string;
+  color: string;
+  activity: PeerActivity | null;
+};
+
+export type Quadrant = "top" | "bottom" | "left" | "right";
+
+export type QuadrantTarget = {
+  cellId: string;
+  quadrant: Quadrant;
 };